@@ -1,17 +1,112 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { User, TranslatedMessage, ChatRoom, Message } from './types';
-import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES } from './constants';
-import { translateText } from './services/geminiService';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from 'react';
+import type { User as AuthUser } from '@supabase/supabase-js';
+import { User, TranslatedMessage, ChatRoom, Message, MessageReaction, HistoryCursor, Friendship, SystemEvent, PresenceMember, NewRoom, GlossaryEntry, TranslationOptions, Formality, MessageTone, Attachment, ImageText, MessageMention, RoomRole, RoomRestriction, MessageReport, ModerationEvent, ContentPolicy, Profile, SafetyCategory } from './types';
+import { ATTACHMENT_MAX_FILES, DEFAULT_LANGUAGE, FORMALITY_OPTIONS, MENTION_SUGGESTION_LIMIT, MENTIONS_INBOX_SIZE, MESSAGE_TONES, PREVIEW_MAX_LANGUAGES, TYPING_INDICATOR_TIMEOUT_MS } from './constants';
+import { translationCache } from './services/translationCache';
+import { translationQueue } from './services/translationQueue';
+import { translationBudget } from './services/translationBudget';
+import { messageLanguage } from './services/languageDetection';
 import { chatSync } from './services/chatSync';
 import { supabase } from './services/supabase';
+import { guestService, guestEmail, isGuestUser } from './services/guestService';
+import { profileService, ProfileUpdate } from './services/profileService';
+import { friendService, friendOf, directRoomId } from './services/friendService';
+import { roomService, inviteLink } from './services/roomService';
+import { unreadService, RoomUnreadState } from './services/unreadService';
+import { notificationService } from './services/notificationService';
+import { translateImageText, translateMessage, translationFingerprintFor, translationOptionsKey } from './services/translationService';
+import { glossaryService } from './services/glossaryService';
+import { moderationService, isActive } from './services/moderationService';
+import { checkContent } from './services/contentSafety';
+import { mediaService } from './services/mediaService';
+import { plainText } from './services/markdown';
+import { searchTerms } from './services/search';
+import { activeMentionQuery, getMentionsSeenAt, markMentionsSeen, mentionHandle, mentionsIn, mentionsUser } from './services/mentions';
+import { readImageText, transcribeAudio } from './services/transcriptionService';
 import LanguageSelector from './components/LanguageSelector';
 import ChatBubble from './components/ChatBubble';
+import FriendsPanel from './components/FriendsPanel';
+import RoomPresence from './components/RoomPresence';
+import RoomDirectory from './components/RoomDirectory';
+import RoomSettingsPanel from './components/RoomSettingsPanel';
+import GlossaryEditor, { NewGlossaryEntry } from './components/GlossaryEditor';
+import TranslationPreview from './components/TranslationPreview';
+import VoiceRecorder from './components/VoiceRecorder';
+import DraftAttachments from './components/DraftAttachments';
+import MentionSuggestions from './components/MentionSuggestions';
+import MentionsInbox from './components/MentionsInbox';
+import SearchPanel from './components/SearchPanel';
+import ModerationQueue from './components/ModerationQueue';
+import ProfileEditor from './components/ProfileEditor';
+import { ModerationAction } from './components/ModerationMenu';
 
 interface AppUser extends User {
   isGuest?: boolean;
+  // Address a guest upgrade is waiting to have confirmed
+  pendingEmail?: string;
+  // Upgraded guests have an email but still no password
+  needsPassword?: boolean;
 }
 
+// Friend lists are filled in from the friendships table, not auth metadata.
+// Name and language are replaced by the profile once it loads; metadata only
+// seeds the profile at sign-up. Guests are anonymous auth users with an
+// address derived from their id.
+const toAppUser = (authUser: AuthUser): AppUser => {
+  const isGuest = isGuestUser(authUser);
+  const email = isGuest ? guestEmail(authUser.id) : authUser.email!;
+  return {
+    id: authUser.id,
+    username: authUser.user_metadata.username || email.split('@')[0],
+    email,
+    preferredLanguage: authUser.user_metadata.preferredLanguage || DEFAULT_LANGUAGE,
+    formality: authUser.user_metadata.formality || undefined,
+    friends: [],
+    friendRequests: [],
+    isGuest,
+    pendingEmail: authUser.new_email || undefined,
+    needsPassword: !isGuest && !!authUser.user_metadata.needsPassword
+  };
+};
+
+// What a room's filter hides from a reader, wherever the message shows up. Senders see
+// their own words; in "flag" rooms messages are shown and reported instead. A "block"
+// room can still receive text that only offends once translated, so it hides that too.
+const filteredCategories = (msg: TranslatedMessage, policy: ContentPolicy | undefined, viewerEmail: string): SafetyCategory[] =>
+  msg.senderEmail !== viewerEmail && (policy === 'blur' || policy === 'block')
+    ? Array.from(new Set([...(msg.contentFlags || []), ...(msg.translationFlags || [])]))
+    : [];
+
+// Voice messages without a transcript have nothing to translate
+const needsTranslation = (msg: Message, user: AppUser) =>
+  msg.text.trim() !== '' && messageLanguage(msg) !== user.preferredLanguage && msg.senderEmail !== user.email;
+
+// Flags history messages that need translating; cache hits go straight to
+// the translated text, skipping the spinner
+const prepareForReader = async (history: Message[], user: AppUser, options: TranslationOptions): Promise<TranslatedMessage[]> => {
+  const foreign = history.filter(m => needsTranslation(m, user));
+  const cached = await translationCache.getMany(
+    foreign.map(m => ({ messageId: m.id, fingerprint: translationFingerprintFor(m.text, user.preferredLanguage, options, m.tone) })),
+    user.preferredLanguage
+  );
+  return history.map(m => {
+    if (!needsTranslation(m, user)) return m;
+    const translatedText = cached.get(m.id);
+    return translatedText !== undefined
+      ? { ...m, translatedText, isTranslating: false }
+      : { ...m, isTranslating: true };
+  });
+};
+
+const mergeMessages = (existing: TranslatedMessage[], incoming: TranslatedMessage[]) => {
+  const unique = new Map<string, TranslatedMessage>();
+  [...incoming, ...existing].forEach(m => unique.set(m.id, m));
+  return Array.from(unique.values()).sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const SCROLL_EDGE_PX = 80;
+
 const App: React.FC = () => {
   // --- Auth & User State ---
   const [currentUser, setCurrentUser] = useState<AppUser | null>(null);
@@ -20,6 +115,9 @@ const App: React.FC = () => {
   const [authEmail, setAuthEmail] = useState('');
   const [authPassword, setAuthPassword] = useState('');
   const [authUsername, setAuthUsername] = useState('');
+  const [upgradeEmail, setUpgradeEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [accountNotice, setAccountNotice] = useState<string | null>(null);
   const [onboardingLang, setOnboardingLang] = useState(DEFAULT_LANGUAGE);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -27,16 +125,146 @@ const App: React.FC = () => {
   const [currentRoom, setCurrentRoom] = useState<ChatRoom | null>(null);
   const [messages, setMessages] = useState<TranslatedMessage[]>([]);
   const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+  const [historyCursor, setHistoryCursor] = useState<HistoryCursor | null>(null);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [hasNewerHistory, setHasNewerHistory] = useState(false);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [onlineMembers, setOnlineMembers] = useState<PresenceMember[]>([]);
+  const [typingUsers, setTypingUsers] = useState<{ email: string; username: string }[]>([]);
   const [inputText, setInputText] = useState('');
-  const [roomInput, setRoomInput] = useState('');
+  const [outgoingTone, setOutgoingTone] = useState<MessageTone | null>(null);
+  const [draftFiles, setDraftFiles] = useState<File[]>([]);
+  const [draftMentions, setDraftMentions] = useState<MessageMention[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [mentions, setMentions] = useState<TranslatedMessage[]>([]);
+  const [isMentionsLoading, setIsMentionsLoading] = useState(false);
+  const [mentionsSeenAt, setMentionsSeenAt] = useState(0);
+  const [newMentionCount, setNewMentionCount] = useState(0);
+  const [imageTexts, setImageTexts] = useState<Record<string, ImageText>>({});
+  const [isTranslationPaused, setIsTranslationPaused] = useState(() => translationBudget.isExhausted());
+  const [slowModeRemaining, setSlowModeRemaining] = useState(0);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<TranslatedMessage | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [replyParents, setReplyParents] = useState<Record<string, TranslatedMessage>>({});
+  const [roomGlossary, setRoomGlossary] = useState<GlossaryEntry[]>([]);
+  const [personalGlossary, setPersonalGlossary] = useState<GlossaryEntry[]>([]);
+  const [isRoomSettingsOpen, setIsRoomSettingsOpen] = useState(false);
+  const [myRole, setMyRole] = useState<RoomRole>('member');
+  const [restrictions, setRestrictions] = useState<RoomRestriction[]>([]);
+  const [reports, setReports] = useState<MessageReport[]>([]);
+  const [moderators, setModerators] = useState<string[]>([]);
+  const [reportedIds, setReportedIds] = useState<Set<string>>(new Set());
+  const [myRooms, setMyRooms] = useState<ChatRoom[]>([]);
+  const [publicRooms, setPublicRooms] = useState<ChatRoom[]>([]);
+  const [roomSearch, setRoomSearch] = useState('');
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, RoomUnreadState>>({});
+  const [notificationsEnabled, setNotificationsEnabled] = useState(() => notificationService.isEnabled());
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'rooms' | 'settings'>('rooms');
+  const [activeTab, setActiveTab] = useState<'rooms' | 'mentions' | 'settings'>('rooms');
+  const [friendships, setFriendships] = useState<Friendship[]>([]);
+  // Current profiles of the people whose messages are loaded
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messageListRef = useRef<HTMLElement>(null);
+  const roomIdRef = useRef<string | null>(null);
+  const isNearBottomRef = useRef(true);
+  const jumpToBottomRef = useRef(false);
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null);
+  const typingTimeoutsRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
   const userRef = useRef<AppUser | null>(null);
+  const requestedParentsRef = useRef(new Set<string>());
+  // Attachment rows that arrived before their message
+  const orphanAttachmentsRef = useRef(new Map<string, Attachment[]>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLInputElement>(null);
+  // Message to bring into view once it has been rendered
+  const focusMessageRef = useRef<string | null>(null);
+  // Message to load around once the room being entered opens
+  const pendingJumpRef = useRef<string | null>(null);
+  // Set while an older stretch of history is shown instead of the latest messages
+  const viewingPastRef = useRef(false);
+  // Messages whose translation is being run through the content filter
+  const screeningRef = useRef(new Set<string>());
+  // Sender ids already asked for, found or not; old guest senders have no profile
+  const profileLookupsRef = useRef(new Set<string>());
+  const activeTabRef = useRef(activeTab);
+  const translationOptionsRef = useRef<TranslationOptions>({});
+  const personalGlossaryRef = useRef<GlossaryEntry[]>([]);
+  const translationOptionsKeyRef = useRef('');
+  
+  const unreadRef = useRef<Record<string, RoomUnreadState>>({});
+  const myRoomsRef = useRef<ChatRoom[]>([]);
   
   useEffect(() => { userRef.current = currentUser; }, [currentUser]);
+  useEffect(() => { unreadRef.current = unreadCounts; }, [unreadCounts]);
+  useEffect(() => { myRoomsRef.current = myRooms; }, [myRooms]);
+
+  // Rooms outside "My Rooms" are only known by id; DMs are named after the other person
+  const roomFor = (roomId: string, sender: string): ChatRoom =>
+    myRoomsRef.current.find(r => r.id === roomId)
+    || (roomId.startsWith('DM-') ? { id: roomId, name: sender, isDirect: true } : { id: roomId, name: roomId });
+
+  // Personal entries come last so they override the room's
+  const translationOptions = useMemo<TranslationOptions>(
+    () => ({ glossary: [...roomGlossary, ...personalGlossary], formality: currentUser?.formality || undefined }),
+    [roomGlossary, personalGlossary, currentUser?.formality]
+  );
+  translationOptionsRef.current = translationOptions;
+
+  // Drafts are previewed with the room glossary only; personal entries and
+  // formality belong to each reader
+  const previewOptions = useMemo<TranslationOptions>(() => ({ glossary: roomGlossary }), [roomGlossary]);
+
+  // Who is likely to read a message here: people online now and recent
+  // senders, weighted by how many use each language, plus the room default
+  const readerLanguages = useMemo(() => {
+    if (!currentUser) return [];
+    const readers = new Map<string, string>();
+    messages.forEach(m => readers.set(m.senderEmail, m.senderLanguage));
+    onlineMembers.forEach(m => readers.set(m.email, m.language));
+    readers.delete(currentUser.email);
+
+    const counts = new Map<string, number>();
+    readers.forEach(language => counts.set(language, (counts.get(language) || 0) + 1));
+    if (currentRoom?.defaultLanguage) {
+      counts.set(currentRoom.defaultLanguage, (counts.get(currentRoom.defaultLanguage) || 0) + 1);
+    }
+    counts.delete(currentUser.preferredLanguage);
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, PREVIEW_MAX_LANGUAGES)
+      .map(([language]) => language);
+  }, [messages, onlineMembers, currentRoom?.defaultLanguage, currentUser?.email, currentUser?.preferredLanguage]);
+  personalGlossaryRef.current = personalGlossary;
+  activeTabRef.current = activeTab;
+  viewingPastRef.current = hasNewerHistory;
+  const searchHighlight = useMemo(() => searchTerms(searchQuery), [searchQuery]);
+
+  // People who can be mentioned here: recent senders and whoever is online
+  const mentionCandidates = useMemo(() => {
+    if (!currentUser) return [];
+    const people = new Map<string, MessageMention>();
+    messages.forEach(m => people.set(m.senderEmail, { email: m.senderEmail, username: m.sender }));
+    onlineMembers.forEach(m => people.set(m.email, { email: m.email, username: m.username }));
+    people.delete(currentUser.email);
+    return Array.from(people.values());
+  }, [messages, onlineMembers, currentUser?.email]);
+
+  const mentionSuggestions = useMemo(() => {
+    if (!mentionQuery) return [];
+    const query = mentionQuery.query.toLowerCase();
+    return mentionCandidates
+      .filter(p => mentionHandle(p.username).toLowerCase().startsWith(query) || p.username.toLowerCase().startsWith(query))
+      .sort((a, b) => a.username.localeCompare(b.username))
+      .slice(0, MENTION_SUGGESTION_LIMIT);
+  }, [mentionQuery, mentionCandidates]);
 
   // Auth & Session Initialization
   useEffect(() => {
@@ -44,20 +272,10 @@ const App: React.FC = () => {
       try {
         const { data: { session } } = await supabase.auth.getSession();
         if (session?.user) {
-          const metadata = session.user.user_metadata;
-          setCurrentUser({
-            username: metadata.username || session.user.email?.split('@')[0],
-            email: session.user.email!,
-            preferredLanguage: metadata.preferredLanguage || DEFAULT_LANGUAGE,
-            friends: metadata.friends || [],
-            friendRequests: metadata.friendRequests || [],
-            isGuest: false
-          });
+          setCurrentUser(toAppUser(session.user));
         } else {
-          const savedGuest = localStorage.getItem('jeri_guest_user');
-          if (savedGuest) {
-            setCurrentUser(JSON.parse(savedGuest));
-          }
+          // The auth listener below picks up the new session
+          await guestService.restoreLegacyGuest();
         }
       } catch (e) {
         console.error("Session init error", e);
@@ -69,15 +287,19 @@ const App: React.FC = () => {
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       if (session?.user) {
-        const metadata = session.user.user_metadata;
-        setCurrentUser({
-          username: metadata.username || session.user.email?.split('@')[0],
-          email: session.user.email!,
-          preferredLanguage: metadata.preferredLanguage || DEFAULT_LANGUAGE,
-          friends: metadata.friends || [],
-          friendRequests: metadata.friendRequests || [],
-          isGuest: false
-        });
+        const user = toAppUser(session.user);
+        // Token refreshes also land here; keep the profile and friend state already loaded
+        setCurrentUser(prev => prev?.email === user.email
+          ? {
+              ...user,
+              username: prev.username,
+              preferredLanguage: prev.preferredLanguage,
+              avatarUrl: prev.avatarUrl,
+              bio: prev.bio,
+              friends: prev.friends,
+              friendRequests: prev.friendRequests
+            }
+          : user);
       } else if (event === 'SIGNED_OUT') {
         setCurrentUser(null);
       }
@@ -85,73 +307,351 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  // Translation Side-Effect Handler
+  // Only the signed-in user's unsent messages are shown and resent
   useEffect(() => {
-    const untranslated = messages.find(m => m.isTranslating && !m.translatedText);
-    if (untranslated && currentUser) {
-      const doTranslation = async () => {
-        const targetLangName = SUPPORTED_LANGUAGES.find(l => l.code === currentUser.preferredLanguage)?.name || currentUser.preferredLanguage;
-        const sourceLangName = SUPPORTED_LANGUAGES.find(l => l.code === untranslated.senderLanguage)?.name || untranslated.senderLanguage;
-        
-        try {
-          const translated = await translateText(untranslated.text, targetLangName, sourceLangName);
-          setMessages(prev => prev.map(m => m.id === untranslated.id ? { ...m, translatedText: translated, isTranslating: false } : m));
-        } catch (err) {
-          console.error("Translation error", err);
-          setMessages(prev => prev.map(m => m.id === untranslated.id ? { ...m, isTranslating: false, translatedText: untranslated.text } : m));
+    chatSync.setOutboxOwner(currentUser ? { id: currentUser.id, email: currentUser.email } : null);
+  }, [currentUser?.id, currentUser?.email]);
+
+  // Queue every message still waiting for a translation. The list is walked
+  // newest-first because the view sits at the bottom of the conversation.
+  useEffect(() => {
+    if (!currentUser) return;
+    [...messages].reverse().filter(m => m.isTranslating).forEach(m => {
+      translationQueue.enqueue({
+        messageId: m.id,
+        text: m.text,
+        targetLanguage: currentUser.preferredLanguage,
+        sourceLanguage: messageLanguage(m),
+        tone: m.tone,
+        options: translationOptions
+      });
+    });
+  }, [messages, currentUser, translationOptions]);
+
+  // A glossary or formality change makes earlier translations stale: drop queued work and
+  // translate again. Fingerprints include the glossary, so the cache misses.
+  useEffect(() => {
+    if (!currentUser) return;
+    const key = translationOptionsKey(currentUser.preferredLanguage, translationOptions);
+    if (key === translationOptionsKeyRef.current) return;
+    translationOptionsKeyRef.current = key;
+    translationQueue.cancelAll();
+    setMessages(prev => prev.map(m => !m.deletedAt && needsTranslation(m, currentUser)
+      ? { ...m, isTranslating: true, translationFailed: false }
+      : m));
+  }, [translationOptions, currentUser]);
+
+  const loadRoomGlossary = useCallback(async (room: ChatRoom) => {
+    if (room.isDirect) return [];
+    try {
+      return await glossaryService.listRoomEntries(room.id);
+    } catch (err) {
+      console.error("Loading room glossary failed", err);
+      return [];
+    }
+  }, []);
+
+  // Moderators see the whole queue; everyone else only learns about their own restrictions
+  const loadModeration = useCallback(async (room: ChatRoom) => {
+    const user = userRef.current;
+    if (!user || room.isDirect) return;
+    try {
+      const [role, active] = await Promise.all([
+        moderationService.getRole(room.id, user.email),
+        moderationService.listRestrictions(room.id)
+      ]);
+      const isModerator = role !== 'member' && !user.isGuest;
+      const [openReports, roomModerators] = isModerator
+        ? await Promise.all([moderationService.listOpenReports(room.id), moderationService.listModerators(room.id)])
+        : [[], []];
+      if (roomIdRef.current !== room.id) return;
+      if (active.some(r => r.userEmail === user.email && r.kind === 'ban')) {
+        setMyRooms(prev => prev.filter(r => r.id !== room.id));
+        setCurrentRoom(null);
+        setError(`You are banned from ${room.name}`);
+        return;
+      }
+      setMyRole(role);
+      setRestrictions(active);
+      setReports(openReports);
+      setModerators(roomModerators);
+    } catch (err) {
+      console.error("Loading moderation state failed", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setPersonalGlossary([]);
+      return;
+    }
+    glossaryService.listPersonalEntries(currentUser.email)
+      .then(setPersonalGlossary)
+      .catch(err => console.error("Loading personal glossary failed", err));
+  }, [currentUser?.email]);
+
+  useEffect(() => {
+    return translationQueue.onResult(result => {
+      if (result.targetLanguage !== userRef.current?.preferredLanguage) return;
+      setMessages(prev => prev.map(m => {
+        // Ignore results for text that has since been edited
+        if (m.id !== result.messageId || m.text !== result.sourceText) return m;
+        if ('deferred' in result) return { ...m, isTranslating: false, translationDeferred: true };
+        return 'error' in result
+          ? { ...m, isTranslating: false, translationFailed: true }
+          : { ...m, translatedText: result.translatedText, translationFlags: undefined, isTranslating: false, translationFailed: false };
+      }));
+    });
+  }, []);
+
+  // Translation can turn text the filter let through into something it would
+  // not, so translations are checked too, in the reader's language
+  const contentPolicy: ContentPolicy = (!currentRoom?.isDirect && currentRoom?.contentPolicy) || 'off';
+  useEffect(() => {
+    if (!currentUser || contentPolicy === 'off') return;
+    const language = currentUser.preferredLanguage;
+    messages
+      .filter(m => m.translatedText && !m.translationFlags && !screeningRef.current.has(m.id))
+      .forEach(async m => {
+        const translatedText = m.translatedText!;
+        screeningRef.current.add(m.id);
+        const verdict = await checkContent(translatedText, language);
+        screeningRef.current.delete(m.id);
+        setMessages(prev => prev.map(p => p.id === m.id && p.translatedText === translatedText
+          ? { ...p, translationFlags: verdict.categories }
+          : p));
+        // Flags on the original were reported when it was sent
+        if (verdict.flagged && contentPolicy === 'flag' && !m.contentFlags?.length) {
+          moderationService.flagMessage(m.id, verdict.categories, language)
+            .catch(err => console.error("Flagging message failed", err));
         }
-      };
-      doTranslation();
+      });
+  }, [messages, contentPolicy, currentUser]);
+
+  // Slow mode counts down from the reader's own latest message; moderators are exempt
+  const slowModeSeconds = myRole === 'member' || currentUser?.isGuest ? currentRoom?.slowModeSeconds || 0 : 0;
+  const lastOwnMessageAt = useMemo(
+    () => messages.reduce((latest, m) => m.senderEmail === currentUser?.email ? Math.max(latest, m.timestamp) : latest, 0),
+    [messages, currentUser?.email]
+  );
+  useEffect(() => {
+    if (!slowModeSeconds || !lastOwnMessageAt) {
+      setSlowModeRemaining(0);
+      return;
     }
-  }, [messages, currentUser]);
+    const tick = () => setSlowModeRemaining(Math.max(0, Math.ceil((lastOwnMessageAt + slowModeSeconds * 1000 - Date.now()) / 1000)));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [slowModeSeconds, lastOwnMessageAt]);
+
+  // Translate what the reader is looking at before the rest of the backlog
+  useEffect(() => {
+    const container = messageListRef.current;
+    if (!container) return;
+    const observer = new IntersectionObserver(entries => {
+      const visible = entries
+        .filter(entry => entry.isIntersecting)
+        .map(entry => (entry.target as HTMLElement).dataset.messageId!);
+      if (visible.length) translationQueue.prioritize(visible);
+    }, { root: container });
+    container.querySelectorAll<HTMLElement>('[data-message-id]').forEach(el => observer.observe(el));
+    return () => observer.disconnect();
+  }, [messages]);
+
+  // The reader asked for it, so it goes ahead even when the budget is used up
+  const retryTranslation = (messageId: string) => {
+    const msg = messages.find(m => m.id === messageId);
+    if (!msg || !currentUser) return;
+    translationQueue.enqueue({
+      messageId,
+      text: msg.text,
+      targetLanguage: currentUser.preferredLanguage,
+      sourceLanguage: messageLanguage(msg),
+      tone: msg.tone,
+      options: translationOptions,
+      onDemand: true
+    }, 1);
+    setMessages(prev => prev.map(m => m.id === messageId
+      ? { ...m, isTranslating: true, translationFailed: false, translationDeferred: false }
+      : m));
+  };
+
+  useEffect(() => {
+    return translationBudget.onChange(exhausted => {
+      setIsTranslationPaused(exhausted);
+      // Budget freed up: translate what was held back
+      if (!exhausted) {
+        setMessages(prev => prev.map(m => m.translationDeferred ? { ...m, translationDeferred: false, isTranslating: true } : m));
+      }
+    });
+  }, []);
+
+  const clearTyping = useCallback((email: string) => {
+    clearTimeout(typingTimeoutsRef.current.get(email));
+    typingTimeoutsRef.current.delete(email);
+    setTypingUsers(prev => prev.filter(t => t.email !== email));
+  }, []);
+
+  const handleTyping = useCallback((typist: { email: string; username: string }) => {
+    clearTimeout(typingTimeoutsRef.current.get(typist.email));
+    typingTimeoutsRef.current.set(typist.email, setTimeout(() => clearTyping(typist.email), TYPING_INDICATOR_TIMEOUT_MS));
+    setTypingUsers(prev => prev.some(t => t.email === typist.email) ? prev : [...prev, typist]);
+  }, [clearTyping]);
 
   const processMessage = useCallback((msg: Message) => {
     const user = userRef.current;
     if (!user) return;
+    clearTyping(msg.senderEmail);
+    const orphans = orphanAttachmentsRef.current.get(msg.id);
+    orphanAttachmentsRef.current.delete(msg.id);
+    if (orphans) msg = { ...msg, attachments: orphans };
 
     setMessages(prev => {
-      if (prev.some(m => m.id === msg.id)) return prev;
-
-      const tempMatchIdx = prev.findIndex(m => 
-        m.id.toString().startsWith('temp-') && 
-        m.senderEmail === msg.senderEmail && 
-        m.text === msg.text
-      );
+      const existingIdx = prev.findIndex(m => m.id === msg.id);
+      const newList = [...prev];
 
-      const newMessage: TranslatedMessage = {
-        ...msg,
-        isTranslating: msg.senderLanguage !== user.preferredLanguage && msg.senderEmail !== user.email
-      };
+      // Shown again with the rest once the reader jumps back to the latest messages
+      if (existingIdx === -1 && viewingPastRef.current) return prev;
 
-      const newList = [...prev];
-      if (tempMatchIdx !== -1) {
-        newList[tempMatchIdx] = newMessage;
+      if (existingIdx !== -1) {
+        // Our optimistic copy shares the client-generated id; take the server's version
+        if (!prev[existingIdx].deliveryState) return prev;
+        newList[existingIdx] = { ...prev[existingIdx], ...msg, deliveryState: 'sent' };
       } else {
-        newList.push(newMessage);
+        newList.push({ ...msg, isTranslating: needsTranslation(msg, user) });
       }
 
       return newList.sort((a, b) => a.timestamp - b.timestamp);
     });
+  }, [clearTyping]);
+
+  useEffect(() => {
+    return chatSync.onDeliveryChange((messageId, deliveryState, error) => {
+      setMessages(prev => prev.map(m => m.id === messageId && m.deliveryState ? { ...m, deliveryState } : m));
+      // Held back by rate limits or slow mode; the outbox sends it once allowed
+      if (deliveryState === 'pending' && error) setError(`${error}. Your message will be sent shortly.`);
+    });
+  }, []);
+
+  const applyMessageUpdate = useCallback((msg: Message) => {
+    const user = userRef.current;
+    if (!user) return;
+
+    setMessages(prev => prev.map(m => {
+      if (m.id !== msg.id) return m;
+      if (msg.deletedAt) {
+        return { ...m, ...msg, translatedText: undefined, isTranslating: false, translationFailed: false };
+      }
+      if (msg.text === m.text) return { ...m, ...msg };
+      // Edited text: every reader translates the new version
+      return { ...m, ...msg, translatedText: undefined, translationFlags: undefined, translationFailed: false, isTranslating: needsTranslation(msg, user) };
+    }));
+  }, []);
+
+  const applyMessageDelete = useCallback((messageId: string) => {
+    setMessages(prev => prev.map(m => m.id === messageId
+      ? { ...m, text: '', translatedText: undefined, isTranslating: false, deletedAt: m.deletedAt || Date.now() }
+      : m));
+  }, []);
+
+  const applyReaction = useCallback((messageId: string, reaction: MessageReaction, added: boolean) => {
+    setMessages(prev => prev.map(m => {
+      if (m.id !== messageId) return m;
+      const others = (m.reactions || []).filter(r => !(r.userEmail === reaction.userEmail && r.emoji === reaction.emoji));
+      return { ...m, reactions: added ? [...others, reaction] : others };
+    }));
+  }, []);
+
+  const applyAttachment = useCallback((messageId: string, attachment: Attachment) => {
+    setMessages(prev => {
+      if (!prev.some(m => m.id === messageId)) {
+        const stashed = orphanAttachmentsRef.current.get(messageId) || [];
+        if (!stashed.some(a => a.id === attachment.id)) {
+          orphanAttachmentsRef.current.set(messageId, [...stashed, attachment]);
+        }
+        return prev;
+      }
+      return prev.map(m => m.id !== messageId || m.attachments?.some(a => a.id === attachment.id)
+        ? m
+        : { ...m, attachments: [...(m.attachments || []), attachment] });
+    });
   }, []);
 
   useEffect(() => {
     if (currentRoom && currentUser) {
       let isMounted = true;
+      roomIdRef.current = currentRoom.id;
       const initRoom = async () => {
         setIsHistoryLoading(true);
         setMessages([]); 
+        setHistoryCursor(null);
+        setHasMoreHistory(false);
+        setHasNewerHistory(false);
+        viewingPastRef.current = false;
+        setOnlineMembers([]);
+        setTypingUsers([]);
+        setReplyingTo(null);
+        setThreadRootId(null);
+        setReplyParents({});
+        setDraftFiles([]);
+        setDraftMentions([]);
+        setMentionQuery(null);
+        setImageTexts({});
+        requestedParentsRef.current.clear();
+        orphanAttachmentsRef.current.clear();
+        setIsRoomSettingsOpen(false);
+        setMyRole('member');
+        setRestrictions([]);
+        setReports([]);
+        setModerators([]);
+        setReportedIds(new Set());
         setError(null);
         
-        chatSync.connect(currentRoom.id);
+        chatSync.connect(currentRoom.id, {
+          email: currentUser.email,
+          username: currentUser.username,
+          language: currentUser.preferredLanguage,
+          onlineAt: Date.now()
+        });
         
         try {
-          const history = await chatSync.fetchHistory(currentRoom.id);
+          // The glossary shapes every translation, so it has to be known first
+          const glossary = await loadRoomGlossary(currentRoom);
+          if (!isMounted) return;
+          setRoomGlossary(glossary);
+          loadModeration(currentRoom);
+          const options = { ...translationOptionsRef.current, glossary: [...glossary, ...personalGlossaryRef.current] };
+          const jumpTo = pendingJumpRef.current;
+          pendingJumpRef.current = null;
+          let page = await chatSync.fetchHistoryPage(currentRoom.id);
+          if (jumpTo && !page.messages.some(m => m.id === jumpTo)) {
+            page = await chatSync.fetchHistoryAround(currentRoom.id, jumpTo);
+          }
+          const prepared = await prepareForReader(page.messages, currentUser, options);
+          // Messages written earlier that have not reached the server yet
+          const unsent: TranslatedMessage[] = (await chatSync.getOutbox(currentRoom.id)).map(entry => ({
+            id: entry.id,
+            senderId: entry.senderId,
+            sender: entry.sender,
+            senderEmail: entry.senderEmail,
+            senderLanguage: entry.senderLanguage,
+            text: entry.text,
+            replyToId: entry.replyToId,
+            tone: entry.tone,
+            voice: entry.voice,
+            attachments: entry.attachments,
+            mentions: entry.mentions,
+            timestamp: entry.createdAt,
+            deliveryState: entry.state
+          }));
           if (isMounted) {
-            setMessages(prev => {
-              const unique = new Map<string, TranslatedMessage>();
-              [...history, ...prev].forEach(m => unique.set(m.id, m as TranslatedMessage));
-              return Array.from(unique.values()).sort((a, b) => a.timestamp - b.timestamp);
-            });
+            if (jumpTo) focusMessage(jumpTo);
+            else jumpToBottomRef.current = true;
+            setHistoryCursor(page.cursor);
+            setHasMoreHistory(page.hasMore);
+            setHasNewerHistory(!!page.hasNewer);
+            setMessages(prev => mergeMessages(prev, [...prepared, ...unsent]));
           }
         } catch (err: any) {
           console.error("Room init failed:", err);
@@ -163,73 +663,1092 @@ const App: React.FC = () => {
 
       initRoom();
       const unsub = chatSync.onMessage(processMessage);
+      const unsubUpdate = chatSync.onMessageUpdate(applyMessageUpdate);
+      const unsubDelete = chatSync.onMessageDelete(applyMessageDelete);
+      const unsubPresence = chatSync.onPresence(setOnlineMembers);
+      const unsubTyping = chatSync.onTyping(handleTyping);
+      const unsubReaction = chatSync.onReaction(applyReaction);
+      const unsubAttachment = chatSync.onAttachment(applyAttachment);
+      const room = currentRoom;
+      const unsubGlossary = chatSync.onGlossaryChange(async () => {
+        const glossary = await loadRoomGlossary(room);
+        if (isMounted) setRoomGlossary(glossary);
+      });
+      const unsubRoomSettings = chatSync.onRoomSettingsChange(async () => {
+        try {
+          const updated = await roomService.getRoom(room.id);
+          if (isMounted && updated) setCurrentRoom(prev => prev?.id === updated.id ? { ...prev, ...updated } : prev);
+        } catch (err) {
+          console.error("Reloading room failed", err);
+        }
+      });
+      // Anyone on the channel can broadcast, so an event only says what to
+      // reload; what changes on screen is whatever the database then returns
+      const unsubModeration = chatSync.onModeration(async (event: ModerationEvent) => {
+        try {
+          if (event.type === 'message_removed' && event.messageId) {
+            const [stored] = await chatSync.fetchMessages([event.messageId]);
+            if (isMounted && stored?.deletedAt) applyMessageDelete(stored.id);
+          }
+          if (event.type === 'kicked' && event.targetEmail === currentUser.email
+            && !(await moderationService.isMember(room.id, currentUser.email))) {
+            if (!isMounted) return;
+            setMyRooms(prev => prev.filter(r => r.id !== room.id));
+            setCurrentRoom(null);
+            setError(`You were removed from ${room.name}`);
+            return;
+          }
+        } catch (err) {
+          console.error("Checking moderation event failed", err);
+        }
+        // Bans are picked up here from the user's own restrictions
+        if (isMounted) loadModeration(room);
+      });
+      const typingTimeouts = typingTimeoutsRef.current;
       
       return () => {
         isMounted = false;
+        roomIdRef.current = null;
         unsub();
+        unsubUpdate();
+        unsubDelete();
+        unsubPresence();
+        unsubTyping();
+        unsubReaction();
+        unsubAttachment();
+        unsubGlossary();
+        unsubRoomSettings();
+        unsubModeration();
+        typingTimeouts.forEach(timeout => clearTimeout(timeout));
+        typingTimeouts.clear();
         chatSync.disconnect();
+        translationQueue.cancelAll();
       };
     }
-  }, [currentRoom?.id, currentUser?.email, processMessage]);
+  }, [currentRoom?.id, currentUser?.email, processMessage, applyMessageUpdate, applyMessageDelete, handleTyping, applyReaction, applyAttachment, loadRoomGlossary, loadModeration]);
 
+  // Replies can quote messages older than the loaded history; fetch those
+  // parents separately so the quote can still be shown in the reader's language
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    if (!currentUser) return;
+    const loaded = new Set(messages.map(m => m.id));
+    const missing = Array.from(new Set<string>(messages
+      .map(m => m.replyToId)
+      .filter((id): id is string => !!id && !loaded.has(id) && !requestedParentsRef.current.has(id))));
+    if (missing.length === 0) return;
+    missing.forEach(id => requestedParentsRef.current.add(id));
+
+    const user = currentUser;
+    const loadParents = async () => {
+      try {
+        const parents = await chatSync.fetchMessages(missing);
+        const prepared = await Promise.all(parents.map(async (parent): Promise<TranslatedMessage> => {
+          if (parent.deletedAt || !needsTranslation(parent, user)) return parent;
+          try {
+            const translatedText = await translateMessage(
+              parent.id, parent.text, user.preferredLanguage, messageLanguage(parent), translationOptionsRef.current, parent.tone
+            );
+            return { ...parent, translatedText };
+          } catch (err) {
+            console.debug("Quote translation failed", err);
+            return parent;
+          }
+        }));
+        setReplyParents(prev => ({ ...prev, ...Object.fromEntries(prepared.map(p => [p.id, p])) }));
+      } catch (err) {
+        console.error("Loading quoted messages failed", err);
+      }
+    };
+    loadParents();
+  }, [messages, currentUser]);
+
+  // Keep the view pinned: restore position after prepending older pages,
+  // otherwise follow new messages only while the reader is at the bottom
+  useLayoutEffect(() => {
+    const container = messageListRef.current;
+    if (!container) return;
+    const focusId = focusMessageRef.current;
+    const focusTarget = focusId ? container.querySelector(`[data-message-id="${focusId}"]`) : null;
+    if (focusTarget) {
+      focusMessageRef.current = null;
+      jumpToBottomRef.current = false;
+      isNearBottomRef.current = false;
+      focusTarget.scrollIntoView({ block: 'center' });
+    } else if (scrollAnchorRef.current) {
+      const anchor = scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+      container.scrollTop = container.scrollHeight - anchor.height + anchor.top;
+    } else if (jumpToBottomRef.current) {
+      jumpToBottomRef.current = false;
+      container.scrollTop = container.scrollHeight;
+    } else if (isNearBottomRef.current) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
   }, [messages]);
 
+  const loadOlderMessages = async () => {
+    if (!currentRoom || !currentUser || !hasMoreHistory || isLoadingOlder || isHistoryLoading) return;
+    const roomId = currentRoom.id;
+    setIsLoadingOlder(true);
+    try {
+      const page = await chatSync.fetchHistoryPage(roomId, historyCursor);
+      const prepared = await prepareForReader(page.messages, currentUser, translationOptions);
+      if (roomIdRef.current !== roomId) return;
+      const container = messageListRef.current;
+      if (container) scrollAnchorRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      setHistoryCursor(page.cursor);
+      setHasMoreHistory(page.hasMore);
+      setMessages(prev => mergeMessages(prev, prepared));
+    } catch (err: any) {
+      console.error("Loading older messages failed:", err);
+      setError(`Sync Error: ${err.message || "Failed to load older messages."}`);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleMessageListScroll = (e: React.UIEvent<HTMLElement>) => {
+    const el = e.currentTarget;
+    isNearBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < SCROLL_EDGE_PX;
+    if (el.scrollTop < SCROLL_EDGE_PX) loadOlderMessages();
+  };
+
+  const addDraftFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    const problems = files.map(f => mediaService.validateAttachment(f)).filter(Boolean);
+    const accepted = files.filter(f => !mediaService.validateAttachment(f));
+    const room = ATTACHMENT_MAX_FILES - draftFiles.length;
+    if (accepted.length > room) problems.push(`Up to ${ATTACHMENT_MAX_FILES} files per message`);
+    setDraftFiles(prev => [...prev, ...accepted].slice(0, ATTACHMENT_MAX_FILES));
+    setError(problems.length ? `Attachment Error: ${problems.join('; ')}` : null);
+  };
+
+  const handleComposerDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    addDraftFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleComposerPaste = (e: React.ClipboardEvent) => {
+    const files = Array.from<File>(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addDraftFiles(files);
+  };
+
+  const handleComposerChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const text = e.target.value;
+    setInputText(text);
+    if (text) chatSync.sendTyping();
+    setMentionQuery(activeMentionQuery(text, e.target.selectionStart ?? text.length));
+    setMentionIndex(0);
+  };
+
+  /** Replaces the @handle being typed with the picked person's full handle. */
+  const pickMention = (person: MessageMention) => {
+    if (!mentionQuery) return;
+    const caret = mentionQuery.start + 1 + mentionQuery.query.length;
+    const inserted = `@${mentionHandle(person.username)} `;
+    setInputText(inputText.slice(0, mentionQuery.start) + inserted + inputText.slice(caret));
+    setDraftMentions(prev => prev.some(m => m.email === person.email) ? prev : [...prev, person]);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      const position = mentionQuery.start + inserted.length;
+      composerRef.current?.focus();
+      composerRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (mentionSuggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setMentionIndex(i => (i + step + mentionSuggestions.length) % mentionSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      pickMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setMentionQuery(null);
+    }
+  };
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!inputText.trim() || !currentUser || !currentRoom) return;
+    if ((!inputText.trim() && draftFiles.length === 0) || !currentUser || !currentRoom) return;
+    if (slowModeRemaining > 0) return;
+    if (hasNewerHistory) jumpToLatest();
 
     const textToSubmit = inputText;
     const roomToSubmit = currentRoom.id;
+    const replyToId = replyingTo?.id;
+    const tone = outgoingTone || undefined;
+    const files = draftFiles;
+    const mentioned = mentionsIn(textToSubmit, draftMentions);
     setInputText('');
+    setDraftFiles([]);
+    setDraftMentions([]);
+    setMentionQuery(null);
+    setReplyingTo(null);
+    setOutgoingTone(null);
     setError(null);
 
-    const tempId = `temp-${Date.now()}`;
-    const optimisticMessage: TranslatedMessage = {
-      id: tempId,
+    if (files.length > 0) {
+      await sendAttachments(roomToSubmit, textToSubmit, files, { replyToId, tone, mentions: mentioned });
+      return;
+    }
+
+    const outgoing = {
+      id: chatSync.createMessageId(),
+      senderId: currentUser.id,
       sender: currentUser.username,
       senderEmail: currentUser.email,
       senderLanguage: currentUser.preferredLanguage,
       text: textToSubmit,
+      replyToId,
+      tone,
+      mentions: mentioned.length ? mentioned : undefined
+    };
+    const optimisticMessage: TranslatedMessage = {
+      ...outgoing,
       timestamp: Date.now(),
-      isTranslating: false
+      isTranslating: false,
+      deliveryState: 'pending'
     };
 
     setMessages(prev => [...prev, optimisticMessage]);
 
+    // Failures stay in the outbox and are shown on the bubble with a retry;
+    // only the content filter rejects a message outright
     try {
-      await chatSync.sendMessage(roomToSubmit, {
+      await chatSync.sendMessage(roomToSubmit, outgoing, contentPolicy);
+    } catch (err: any) {
+      setMessages(prev => prev.filter(m => m.id !== outgoing.id));
+      setInputText(textToSubmit);
+      setDraftMentions(mentioned);
+      setError(err.message || "Message could not be sent");
+    }
+  };
+
+  /**
+   * Uploads a recording and transcribes it in parallel, then sends it like a
+   * text message with the transcript as its text, so readers get it
+   * translated. The recording plays locally in the meantime.
+   */
+  const sendVoiceMessage = async (audio: Blob, durationMs: number) => {
+    if (!currentUser || !currentRoom) return;
+    if (slowModeRemaining > 0) {
+      setError(`Slow mode is on: you can send again in ${slowModeRemaining}s`);
+      return;
+    }
+    if (hasNewerHistory) jumpToLatest();
+    const roomId = currentRoom.id;
+    const id = chatSync.createMessageId();
+    const replyToId = replyingTo?.id;
+    const tone = outgoingTone || undefined;
+    const voice = { path: '', durationMs, mimeType: audio.type || 'audio/webm' };
+    setReplyingTo(null);
+    setOutgoingTone(null);
+    setError(null);
+
+    setMessages(prev => [...prev, {
+      id,
+      senderId: currentUser.id,
+      sender: currentUser.username,
+      senderEmail: currentUser.email,
+      senderLanguage: currentUser.preferredLanguage,
+      text: '',
+      timestamp: Date.now(),
+      replyToId,
+      tone,
+      voice,
+      localAudioUrl: URL.createObjectURL(audio),
+      isTranslating: false,
+      deliveryState: 'pending'
+    }]);
+
+    try {
+      const [path, transcript] = await Promise.all([
+        mediaService.uploadVoice(roomId, id, audio),
+        transcribeAudio(audio, currentUser.preferredLanguage)
+      ]);
+      setMessages(prev => prev.map(m => m.id === id ? { ...m, text: transcript.text, voice: { ...voice, path } } : m));
+      await chatSync.sendMessage(roomId, {
+        id,
+        senderId: currentUser.id,
         sender: currentUser.username,
         senderEmail: currentUser.email,
         senderLanguage: currentUser.preferredLanguage,
-        text: textToSubmit
-      });
+        detectedLanguage: transcript.language,
+        text: transcript.text,
+        replyToId,
+        tone,
+        voice: { ...voice, path }
+      }, contentPolicy);
     } catch (err: any) {
-      console.error("Detailed send failure:", err);
-      setError(`Send Failed: ${err.message || "Unknown error"}`);
-      setMessages(prev => prev.filter(m => m.id !== tempId));
-      setInputText(textToSubmit);
+      // Without an uploaded file there is nothing the outbox could resend
+      console.error("Voice message failed:", err);
+      setError(`Voice Message Failed: ${err.message || "Upload error"}`);
+      setMessages(prev => prev.filter(m => m.id !== id));
     }
   };
 
-  const syncUserMetadata = async (updates: Partial<AppUser>) => {
+  /**
+   * Uploads files before the message is written, like voice messages, so the
+   * outbox only ever holds messages whose files exist. The text is the
+   * caption and is translated like any other message.
+   */
+  const sendAttachments = async (
+    roomId: string,
+    caption: string,
+    files: File[],
+    { replyToId, tone, mentions: mentioned }: Pick<Message, 'replyToId' | 'tone' | 'mentions'>
+  ) => {
+    if (!currentUser) return;
+    const id = chatSync.createMessageId();
+    const drafts = files.map(file => ({ id: chatSync.createMessageId(), file }));
+    const localAttachmentUrls = Object.fromEntries(drafts.map(d => [d.id, URL.createObjectURL(d.file)]));
+    const outgoing = {
+      id,
+      senderId: currentUser.id,
+      sender: currentUser.username,
+      senderEmail: currentUser.email,
+      senderLanguage: currentUser.preferredLanguage,
+      text: caption,
+      replyToId,
+      tone,
+      mentions: mentioned?.length ? mentioned : undefined
+    };
+
+    setMessages(prev => [...prev, {
+      ...outgoing,
+      timestamp: Date.now(),
+      attachments: drafts.map(d => ({ id: d.id, path: '', fileName: d.file.name, mimeType: d.file.type, sizeBytes: d.file.size })),
+      localAttachmentUrls,
+      isTranslating: false,
+      deliveryState: 'pending'
+    }]);
+
+    try {
+      const attachments = await Promise.all(drafts.map(d => mediaService.uploadAttachment(roomId, id, d.id, d.file)));
+      setMessages(prev => prev.map(m => m.id === id ? { ...m, attachments } : m));
+      await chatSync.sendMessage(roomId, { ...outgoing, attachments }, contentPolicy);
+    } catch (err: any) {
+      console.error("Attachment upload failed:", err);
+      setError(`Attachment Failed: ${err.message || "Upload error"}`);
+      setMessages(prev => prev.filter(m => m.id !== id));
+    }
+  };
+
+  /** Reads the text in an image once per room and translates it for this reader. */
+  const readAttachmentText = async (attachment: Attachment) => {
+    const user = userRef.current;
+    if (!user) return;
+    setImageTexts(prev => ({ ...prev, [attachment.id]: { status: 'reading' } }));
+
+    try {
+      let text = attachment.extractedText;
+      let language = attachment.extractedLanguage;
+      if (text === undefined) {
+        const transcript = await readImageText(await mediaService.downloadAttachment(attachment.path));
+        if (!transcript) throw new Error("The transcription provider cannot read images");
+        text = transcript.text;
+        language = transcript.language;
+        await chatSync.saveExtractedText(attachment.id, text, language);
+      }
+
+      const translatedText = text && language !== user.preferredLanguage
+        ? await translateImageText(attachment.id, text, user.preferredLanguage, language, translationOptionsRef.current)
+        : undefined;
+      setImageTexts(prev => ({ ...prev, [attachment.id]: { status: 'done', text, translatedText } }));
+    } catch (err) {
+      console.error("Reading image text failed", err);
+      setImageTexts(prev => ({ ...prev, [attachment.id]: { status: 'failed' } }));
+    }
+  };
+
+  const retrySend = (messageId: string) => {
+    chatSync.retryMessage(messageId);
+  };
+
+  const discardUnsent = async (messageId: string) => {
+    await chatSync.discardMessage(messageId);
+    setMessages(prev => prev.filter(m => m.id !== messageId));
+  };
+
+  const editMessage = async (messageId: string, text: string) => {
     if (!currentUser) return;
-    if (currentUser.isGuest) {
-      const updatedGuest = { ...currentUser, ...updates };
-      setCurrentUser(updatedGuest);
-      localStorage.setItem('jeri_guest_user', JSON.stringify(updatedGuest));
+    const original = messages.find(m => m.id === messageId);
+    if (!original || !text.trim() || text === original.text) return;
+
+    setMessages(prev => prev.map(m => m.id === messageId ? { ...m, text, editedAt: Date.now() } : m));
+    try {
+      await chatSync.editMessage(messageId, text, currentUser.preferredLanguage, contentPolicy);
+    } catch (err: any) {
+      console.error("Edit failed:", err);
+      setError(`Edit Failed: ${err.message || "Unknown error"}`);
+      setMessages(prev => prev.map(m => m.id === messageId ? original : m));
+    }
+  };
+
+  const deleteMessage = async (messageId: string) => {
+    const original = messages.find(m => m.id === messageId);
+    if (!original) return;
+
+    applyMessageDelete(messageId);
+    try {
+      await chatSync.deleteMessage(messageId);
+    } catch (err: any) {
+      console.error("Delete failed:", err);
+      setError(`Delete Failed: ${err.message || "Unknown error"}`);
+      setMessages(prev => prev.map(m => m.id === messageId ? original : m));
+    }
+  };
+
+  // A moderator removing someone else's message; open reports about it are resolved with it
+  const removeMessage = async (messageId: string) => {
+    if (!currentUser || !currentRoom) return;
+    if (!window.confirm("Remove this message for everyone?")) return;
+    const original = messages.find(m => m.id === messageId);
+
+    applyMessageDelete(messageId);
+    try {
+      await chatSync.deleteMessage(messageId);
+      await moderationService.closeReports(messageId, 'resolved', currentUser.email);
+      setReports(prev => prev.filter(r => r.messageId !== messageId));
+      chatSync.sendModerationEvent({ type: 'message_removed', by: currentUser.email, messageId });
+    } catch (err: any) {
+      console.error("Removing message failed:", err);
+      setError(`Moderation Failed: ${err.message || "Unknown error"}`);
+      if (original) setMessages(prev => prev.map(m => m.id === messageId ? original : m));
+    }
+  };
+
+  const moderateUser = async (target: MessageMention, action: ModerationAction) => {
+    if (!currentUser || !currentRoom) return;
+    const roomId = currentRoom.id;
+    try {
+      if (action.type === 'kick') {
+        await moderationService.kick(roomId, target.email);
+        chatSync.sendModerationEvent({ type: 'kicked', by: currentUser.email, targetEmail: target.email });
+      } else {
+        const kind = action.type === 'ban' ? 'ban' : 'mute';
+        const reason = window.prompt(`Reason for ${kind === 'ban' ? 'banning' : 'muting'} ${target.username} (optional)`) ?? '';
+        await moderationService.restrict(roomId, target.email, kind, currentUser.email, reason.trim(),
+          action.type === 'mute' ? action.durationMs : null);
+        chatSync.sendModerationEvent({ type: 'restricted', by: currentUser.email, targetEmail: target.email, kind });
+      }
+      await loadModeration(currentRoom);
+    } catch (err: any) {
+      console.error("Moderation failed:", err);
+      setError(`Moderation Failed: ${err.message || "Unknown error"}`);
+    }
+  };
+
+  const liftRestriction = async (restriction: RoomRestriction) => {
+    if (!currentUser || !currentRoom) return;
+    try {
+      await moderationService.lift(restriction.roomId, restriction.userEmail, restriction.kind);
+      setRestrictions(prev => prev.filter(r => !(r.userEmail === restriction.userEmail && r.kind === restriction.kind)));
+      chatSync.sendModerationEvent({ type: 'unrestricted', by: currentUser.email, targetEmail: restriction.userEmail, kind: restriction.kind });
+    } catch (err: any) {
+      console.error("Lifting restriction failed:", err);
+      setError(`Moderation Failed: ${err.message || "Unknown error"}`);
+    }
+  };
+
+  const setModerator = async (email: string, isModerator: boolean) => {
+    if (!currentUser || !currentRoom) return;
+    const role = isModerator ? 'moderator' : 'member';
+    try {
+      await moderationService.setRole(currentRoom.id, email, role);
+      setModerators(prev => isModerator ? [...prev, email] : prev.filter(e => e !== email));
+      chatSync.sendModerationEvent({ type: 'role_changed', by: currentUser.email, targetEmail: email, role });
+    } catch (err: any) {
+      console.error("Changing role failed:", err);
+      setError(`Moderation Failed: ${err.message || "Unknown error"}`);
+    }
+  };
+
+  const dismissReports = async (report: MessageReport) => {
+    if (!currentUser) return;
+    try {
+      await moderationService.closeReports(report.messageId, 'dismissed', currentUser.email);
+      setReports(prev => prev.filter(r => r.messageId !== report.messageId));
+    } catch (err: any) {
+      console.error("Dismissing report failed:", err);
+      setError(`Moderation Failed: ${err.message || "Unknown error"}`);
+    }
+  };
+
+  const reportMessage = async (msg: TranslatedMessage) => {
+    if (!currentUser) return;
+    const reason = window.prompt(`Why are you reporting this message from ${msg.sender}?`);
+    if (reason === null) return;
+    try {
+      await moderationService.reportMessage(msg, currentUser.email, reason.trim());
+      setReportedIds(prev => new Set(prev).add(msg.id));
+      chatSync.sendModerationEvent({ type: 'reported', by: currentUser.email, messageId: msg.id });
+    } catch (err: any) {
+      console.error("Report failed:", err);
+      setError(`Report Failed: ${err.message || "Unknown error"}`);
+    }
+  };
+
+  const toggleReaction = async (msg: TranslatedMessage, emoji: string) => {
+    if (!currentUser || !currentRoom) return;
+    const reaction: MessageReaction = { emoji, userEmail: currentUser.email, username: currentUser.username };
+    const hasReacted = (msg.reactions || []).some(r => r.emoji === emoji && r.userEmail === currentUser.email);
+
+    applyReaction(msg.id, reaction, !hasReacted);
+    try {
+      if (hasReacted) {
+        await chatSync.removeReaction(msg.id, reaction);
+      } else {
+        await chatSync.addReaction(msg.id, currentRoom.id, reaction);
+      }
+    } catch (err: any) {
+      console.error("Reaction failed:", err);
+      setError(`Reaction Failed: ${err.message || "Unknown error"}`);
+      applyReaction(msg.id, reaction, hasReacted);
+    }
+  };
+
+  const addGlossaryEntry = async (entry: NewGlossaryEntry, scope: 'room' | 'personal') => {
+    if (!currentUser) return;
+    const created = await glossaryService.addEntry(scope === 'room'
+      ? { ...entry, roomId: currentRoom?.id }
+      : { ...entry, ownerEmail: currentUser.email });
+    const byTerm = (a: GlossaryEntry, b: GlossaryEntry) => a.term.localeCompare(b.term);
+    if (scope === 'room') {
+      setRoomGlossary(prev => [...prev, created].sort(byTerm));
+      chatSync.sendGlossaryChanged();
+    } else {
+      setPersonalGlossary(prev => [...prev, created].sort(byTerm));
+    }
+  };
+
+  const changeContentPolicy = async (policy: ContentPolicy) => {
+    if (!currentRoom) return;
+    const previous = currentRoom.contentPolicy;
+    setCurrentRoom({ ...currentRoom, contentPolicy: policy });
+    try {
+      await roomService.setContentPolicy(currentRoom.id, policy);
+      chatSync.sendRoomSettingsChanged();
+    } catch (err: any) {
+      console.error("Changing content policy failed:", err);
+      setError(err.message || "Could not change the content filter");
+      setCurrentRoom(room => room && { ...room, contentPolicy: previous });
+    }
+  };
+
+  const changeSlowMode = async (seconds: number) => {
+    if (!currentRoom) return;
+    const previous = currentRoom.slowModeSeconds;
+    setCurrentRoom({ ...currentRoom, slowModeSeconds: seconds });
+    try {
+      await roomService.setSlowMode(currentRoom.id, seconds);
+      chatSync.sendRoomSettingsChanged();
+    } catch (err: any) {
+      console.error("Changing slow mode failed:", err);
+      setError(err.message || "Could not change slow mode");
+      setCurrentRoom(room => room && { ...room, slowModeSeconds: previous });
+    }
+  };
+
+  const removeGlossaryEntry = async (entry: GlossaryEntry) => {
+    const setter = entry.roomId ? setRoomGlossary : setPersonalGlossary;
+    setter(prev => prev.filter(e => e.id !== entry.id));
+    try {
+      await glossaryService.removeEntry(entry.id);
+      if (entry.roomId) chatSync.sendGlossaryChanged();
+    } catch (err: any) {
+      console.error("Removing glossary entry failed", err);
+      setError(err.message || "Could not remove the term");
+      setter(prev => [...prev, entry]);
+    }
+  };
+
+  const scrollToMessage = (messageId: string) => {
+    messageListRef.current
+      ?.querySelector(`[data-message-id="${messageId}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const flashMessage = (messageId: string) => {
+    setFocusedMessageId(messageId);
+    setTimeout(() => setFocusedMessageId(current => current === messageId ? null : current), 2500);
+  };
+
+  // For messages about to be loaded: scrolls to the message once rendered
+  const focusMessage = (messageId: string) => {
+    focusMessageRef.current = messageId;
+    flashMessage(messageId);
+  };
+
+  /**
+   * Shows a message in context: scrolls to it when it is loaded, otherwise
+   * replaces the view with the stretch of history around it. Messages in
+   * other rooms open that room first.
+   */
+  const jumpToMessage = async (message: Message) => {
+    if (!currentUser || !message.roomId) return;
+    if (message.roomId !== currentRoom?.id) {
+      pendingJumpRef.current = message.id;
+      enterRoom(roomFor(message.roomId, message.sender));
+      return;
+    }
+    if (messages.some(m => m.id === message.id)) {
+      flashMessage(message.id);
+      scrollToMessage(message.id);
       return;
     }
+
+    const roomId = currentRoom.id;
+    try {
+      const page = await chatSync.fetchHistoryAround(roomId, message.id);
+      const prepared = await prepareForReader(page.messages, currentUser, translationOptions);
+      if (roomIdRef.current !== roomId) return;
+      focusMessage(message.id);
+      setHistoryCursor(page.cursor);
+      setHasMoreHistory(page.hasMore);
+      setHasNewerHistory(!!page.hasNewer);
+      // Unsent messages stay; they belong at the end either way
+      setMessages(prev => mergeMessages(prev.filter(m => m.deliveryState && m.deliveryState !== 'sent'), prepared));
+    } catch (err: any) {
+      console.error("Loading message context failed:", err);
+      setError(`Sync Error: ${err.message || "Could not load that message."}`);
+    }
+  };
+
+  const jumpToLatest = async () => {
+    if (!currentRoom || !currentUser) return;
+    const roomId = currentRoom.id;
+    try {
+      const page = await chatSync.fetchHistoryPage(roomId);
+      const prepared = await prepareForReader(page.messages, currentUser, translationOptions);
+      if (roomIdRef.current !== roomId) return;
+      jumpToBottomRef.current = true;
+      setHistoryCursor(page.cursor);
+      setHasMoreHistory(page.hasMore);
+      setHasNewerHistory(false);
+      setMessages(prev => mergeMessages(prev.filter(m => m.deliveryState && m.deliveryState !== 'sent'), prepared));
+    } catch (err: any) {
+      console.error("Loading latest messages failed:", err);
+      setError(`Sync Error: ${err.message || "Failed to load messages."}`);
+    }
+  };
+
+  // The profile is where the user's name, language and avatar live. Edits
+  // from this or another device arrive over realtime, as do everyone else's.
+  useEffect(() => {
+    const userId = currentUser?.id;
+    if (!userId) return;
+    const applyOwn = (profile: Profile) => setCurrentUser(prev => prev && prev.id === profile.id ? ({
+      ...prev,
+      username: profile.username,
+      preferredLanguage: profile.preferredLanguage,
+      avatarUrl: profile.avatarUrl,
+      bio: profile.bio
+    }) : prev);
+    profileService.get(userId)
+      .then(profile => { if (profile) applyOwn(profile); })
+      .catch(err => console.error("Loading profile failed", err));
+    return profileService.onChange(profile => {
+      setProfiles(prev => prev[profile.id] ? { ...prev, [profile.id]: profile } : prev);
+      applyOwn(profile);
+    });
+  }, [currentUser?.id, currentUser?.email]);
+
+  useEffect(() => {
+    const lookups = profileLookupsRef.current;
+    const missing = Array.from(new Set(messages.map(m => m.senderId)))
+      .filter((id): id is string => !!id && !profiles[id] && !lookups.has(id));
+    if (missing.length === 0) return;
+    missing.forEach(id => lookups.add(id));
+    profileService.load(missing)
+      .then(found => { if (found.size) setProfiles(prev => ({ ...prev, ...Object.fromEntries(found) })); })
+      .catch(err => {
+        // Asked for again on the next change
+        missing.forEach(id => lookups.delete(id));
+        console.error("Loading profiles failed", err);
+      });
+  }, [messages, profiles]);
+
+  const updateProfile = async (updates: ProfileUpdate) => {
+    if (!currentUser?.id) return;
+    const profile = await profileService.update(currentUser.id, updates);
+    setProfiles(prev => ({ ...prev, [profile.id]: profile }));
+    setCurrentUser(prev => prev ? ({
+      ...prev,
+      username: profile.username,
+      preferredLanguage: profile.preferredLanguage,
+      avatarUrl: profile.avatarUrl,
+      bio: profile.bio
+    }) : null);
+  };
+
+  const changeAvatar = async (file: File) => {
+    if (!currentUser?.id) return;
+    const invalid = mediaService.validateAvatar(file);
+    if (invalid) throw new Error(invalid);
+    const avatarUrl = await mediaService.uploadAvatar(currentUser.id, file);
+    await updateProfile({ avatarUrl });
+  };
+
+  // Preferences other than the profile; guests keep them in auth metadata too, so an upgrade keeps them
+  const syncUserMetadata = async (updates: Partial<AppUser>) => {
+    if (!currentUser) return;
     const { data, error } = await supabase.auth.updateUser({ data: { ...updates } });
     if (!error && data.user) {
-      const metadata = data.user.user_metadata;
-      setCurrentUser(prev => prev ? ({ ...prev, ...metadata }) : null);
+      const { formality } = toAppUser(data.user);
+      setCurrentUser(prev => prev ? ({ ...prev, formality }) : null);
+    }
+  };
+
+  const loadFriendships = useCallback(async () => {
+    const user = userRef.current;
+    if (!user || user.isGuest) return;
+    try {
+      const list = await friendService.listFriendships();
+      setFriendships(list);
+      setCurrentUser(prev => prev ? ({
+        ...prev,
+        friends: list.filter(f => f.status === 'accepted').map(f => friendOf(f, prev.email).email),
+        friendRequests: list.filter(f => f.status === 'pending' && f.addresseeEmail === prev.email).map(f => f.requesterEmail)
+      }) : null);
+    } catch (err) {
+      console.error("Loading friends failed", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser || currentUser.isGuest) {
+      setFriendships([]);
+      return;
+    }
+    loadFriendships();
+    // Other users nudge us over the system channel when something changes
+    return chatSync.onSystemEvent((event: SystemEvent) => {
+      if (event?.to === userRef.current?.email && event.type.startsWith('friend_')) loadFriendships();
+    });
+  }, [currentUser?.email, currentUser?.isGuest, loadFriendships]);
+
+  const notifyFriend = (type: SystemEvent['type'], to: string) => {
+    if (!currentUser) return;
+    const event: SystemEvent = { type, to, from: currentUser.email, fromUsername: currentUser.username };
+    chatSync.broadcastSystem(event);
+  };
+
+  const sendFriendRequest = async (identifier: string) => {
+    if (!currentUser) return;
+    const friendship = await friendService.sendRequest(currentUser, identifier);
+    notifyFriend('friend_request', friendship.addresseeEmail);
+    await loadFriendships();
+  };
+
+  const acceptFriend = async (friendship: Friendship) => {
+    if (!currentUser) return;
+    try {
+      await friendService.accept(friendship.id);
+      notifyFriend('friend_accepted', friendOf(friendship, currentUser.email).email);
+      await loadFriendships();
+    } catch (err: any) {
+      console.error("Accepting friend failed", err);
+      setError(err.message || "Could not accept request");
+    }
+  };
+
+  const removeFriend = async (friendship: Friendship) => {
+    if (!currentUser) return;
+    try {
+      await friendService.remove(friendship.id);
+      notifyFriend('friend_removed', friendOf(friendship, currentUser.email).email);
+      await loadFriendships();
+    } catch (err: any) {
+      console.error("Removing friend failed", err);
+      setError(err.message || "Could not update friends");
+    }
+  };
+
+  const loadMyRooms = useCallback(async () => {
+    const user = userRef.current;
+    if (!user) return;
+    try {
+      setMyRooms(await roomService.listMyRooms(user.email));
+    } catch (err) {
+      console.error("Loading rooms failed", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser || currentRoom || activeTab !== 'rooms') return;
+    loadMyRooms();
+  }, [currentUser?.email, currentRoom, activeTab, loadMyRooms]);
+
+  // Debounced so typing in the search box does not fire a query per keystroke
+  useEffect(() => {
+    if (!currentUser || currentRoom || activeTab !== 'rooms') return;
+    const timer = setTimeout(async () => {
+      try {
+        setPublicRooms(await roomService.listPublicRooms(roomSearch));
+      } catch (err) {
+        console.error("Loading public rooms failed", err);
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [currentUser?.email, currentRoom, activeTab, roomSearch]);
+
+  const enterRoom = async (room: ChatRoom) => {
+    if (!currentUser) return;
+    setError(null);
+    setActiveTab('rooms');
+    // Joined before entering, since only members can read rooms that are not public
+    if (!room.isDirect) {
+      try {
+        await roomService.joinRoom(room.id, currentUser.email);
+      } catch (err) {
+        // Not fatal in public rooms: they still work, they just won't show under "My Rooms"
+        console.error("Joining room failed", err);
+      }
+    }
+    setCurrentRoom(room);
+  };
+
+  const createRoom = async (draft: NewRoom) => {
+    if (!currentUser) return;
+    const room = await roomService.createRoom(draft, currentUser.email);
+    await enterRoom(room);
+  };
+
+  const joinByInvite = async (code: string) => {
+    if (!currentUser) return;
+    const room = await roomService.joinByInvite(code, currentUser.email);
+    if (!room) throw new Error("This invite link is invalid or has expired");
+    await enterRoom(room);
+  };
+
+  const joinByCode = async (input: string) => {
+    const inviteMatch = input.match(/[?&]invite=([a-z0-9]+)/i);
+    if (inviteMatch) return joinByInvite(inviteMatch[1]);
+
+    const room = await roomService.getRoom(input.toUpperCase());
+    if (room) return enterRoom(room);
+    // Bare invite codes are accepted too
+    return joinByInvite(input.toLowerCase());
+  };
+
+  // Invite links open the app with ?invite=<code>
+  useEffect(() => {
+    if (!currentUser) return;
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get('invite');
+    if (!code) return;
+    params.delete('invite');
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+    joinByInvite(code).catch(err => setError(err.message || "Could not join room"));
+  }, [currentUser?.email]);
+
+  const loadUnreadCounts = useCallback(async () => {
+    const user = userRef.current;
+    if (!user) return;
+    try {
+      setUnreadCounts(await unreadService.getUnreadCounts(user.email));
+    } catch (err) {
+      console.error("Loading unread counts failed", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser || currentRoom) return;
+    loadUnreadCounts();
+  }, [currentUser?.email, currentRoom, loadUnreadCounts]);
+
+  // Watch every joined room and DM so activity elsewhere is not missed
+  useEffect(() => {
+    if (!currentUser) {
+      chatSync.watchRooms([]);
+      return;
+    }
+    let cancelled = false;
+    const watch = async () => {
+      const directIds = await Promise.all(friendships
+        .filter(f => f.status === 'accepted')
+        .map(f => directRoomId(currentUser.email, friendOf(f, currentUser.email).email)));
+      if (!cancelled) chatSync.watchRooms([...myRooms.map(r => r.id), ...directIds]);
+    };
+    watch();
+    return () => { cancelled = true; };
+  }, [currentUser?.email, myRooms, friendships]);
+
+  // Inbox entries are translated like notifications: with the reader's own glossary
+  const loadMentions = useCallback(async () => {
+    const user = userRef.current;
+    if (!user) return;
+    setIsMentionsLoading(true);
+    try {
+      const found = (await chatSync.fetchMentions(user.email, MENTIONS_INBOX_SIZE)).filter(m => m.senderEmail !== user.email);
+      const options = { glossary: personalGlossaryRef.current, formality: user.formality || undefined };
+      const translated = await Promise.all(found.map(async (msg): Promise<TranslatedMessage> => {
+        if (!needsTranslation(msg, user)) return msg;
+        try {
+          const translatedText = await translateMessage(msg.id, msg.text, user.preferredLanguage, messageLanguage(msg), options, msg.tone);
+          return { ...msg, translatedText };
+        } catch (err) {
+          console.debug("Mention translation failed", err);
+          return msg;
+        }
+      }));
+      setMentions(translated);
+    } catch (err) {
+      console.error("Loading mentions failed", err);
+    } finally {
+      setIsMentionsLoading(false);
+    }
+  }, []);
+
+  // Badge for mentions that arrived since the inbox was last opened
+  useEffect(() => {
+    if (!currentUser) {
+      setNewMentionCount(0);
+      return;
+    }
+    const email = currentUser.email;
+    chatSync.fetchMentions(email, MENTIONS_INBOX_SIZE)
+      .then(found => {
+        const seenAt = getMentionsSeenAt(email);
+        setNewMentionCount(found.filter(m => m.senderEmail !== email && m.timestamp > seenAt).length);
+      })
+      .catch(err => console.error("Loading mentions failed", err));
+  }, [currentUser?.email]);
+
+  useEffect(() => {
+    if (!currentUser || currentRoom || activeTab !== 'mentions') return;
+    setMentionsSeenAt(getMentionsSeenAt(currentUser.email));
+    markMentionsSeen(currentUser.email);
+    setNewMentionCount(0);
+    loadMentions();
+  }, [currentUser?.email, currentRoom, activeTab, loadMentions]);
+
+  useEffect(() => {
+    return chatSync.onRoomActivity(async (msg: Message) => {
+      const user = userRef.current;
+      if (!user || !msg.roomId || msg.senderEmail === user.email) return;
+      const roomId = msg.roomId;
+      const isOpen = roomIdRef.current === roomId;
+      const mentionsMe = mentionsUser(msg, user.email);
+
+      if (mentionsMe) {
+        if (activeTabRef.current === 'mentions' && !roomIdRef.current) loadMentions();
+        else setNewMentionCount(count => count + 1);
+      }
+
+      if (!isOpen) {
+        setUnreadCounts(prev => ({
+          ...prev,
+          [roomId]: { unread: (prev[roomId]?.unread || 0) + 1, muted: prev[roomId]?.muted || false }
+        }));
+      }
+
+      // Mentions get through even in muted rooms
+      if ((unreadRef.current[roomId]?.muted && !mentionsMe) || (isOpen && !document.hidden)) return;
+      if (!notificationService.isEnabled()) return;
+
+      let body = msg.text;
+      const sourceLanguage = messageLanguage(msg);
+      if (sourceLanguage !== user.preferredLanguage) {
+        try {
+          // Other rooms' glossaries are not loaded; the reader's own still applies
+          body = await translateMessage(
+            msg.id, msg.text, user.preferredLanguage, sourceLanguage,
+            { glossary: personalGlossaryRef.current, formality: user.formality || undefined }, msg.tone
+          );
+        } catch (err) {
+          console.debug("Notification translation failed", err);
+        }
+      }
+
+      const room = roomFor(roomId, msg.sender);
+      const policy = room.isDirect ? 'off' : room.contentPolicy;
+      // Notifications must not show what the room's filter would hide in the chat
+      if (body && (policy === 'blur' || policy === 'block')) {
+        const translationFlagged = body !== msg.text && (await checkContent(body, user.preferredLanguage)).flagged;
+        if (msg.contentFlags?.length || translationFlagged) body = 'Hidden by the content filter';
+      }
+      body = plainText(body);
+      if (msg.voice) body = body ? `🎤 ${body}` : '🎤 Voice message';
+      else if (!body && msg.attachments?.length) body = '📎 Attachment';
+      const title = room.isDirect ? msg.sender : `${msg.sender} in ${room.name}`;
+      notificationService.notify(mentionsMe ? `${title} mentioned you` : title, body, {
+        tag: roomId,
+        onClick: () => {
+          setActiveTab('rooms');
+          setCurrentRoom(room);
+        }
+      });
+    });
+  }, [loadMentions]);
+
+  // Mark the open room read up to the newest message from the server
+  const lastDeliveredId = [...messages].reverse().find(m => !m.deliveryState || m.deliveryState === 'sent')?.id;
+  useEffect(() => {
+    if (!currentRoom || !currentUser || !lastDeliveredId) return;
+    const roomId = currentRoom.id;
+    setUnreadCounts(prev => prev[roomId]?.unread ? { ...prev, [roomId]: { ...prev[roomId], unread: 0 } } : prev);
+    const timer = setTimeout(() => {
+      unreadService.markRead(roomId, currentUser.email, lastDeliveredId)
+        .catch(err => console.error("Saving read marker failed", err));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [currentRoom?.id, currentUser?.email, lastDeliveredId]);
+
+  const toggleRoomMute = async () => {
+    if (!currentRoom || !currentUser) return;
+    const roomId = currentRoom.id;
+    const muted = !unreadCounts[roomId]?.muted;
+    setUnreadCounts(prev => ({ ...prev, [roomId]: { unread: prev[roomId]?.unread || 0, muted } }));
+    try {
+      await unreadService.setMuted(roomId, currentUser.email, muted);
+    } catch (err: any) {
+      console.error("Updating mute failed", err);
+      setError(err.message || "Could not update notifications");
+      setUnreadCounts(prev => ({ ...prev, [roomId]: { unread: prev[roomId]?.unread || 0, muted: !muted } }));
     }
   };
 
+  const toggleNotifications = async () => {
+    setNotificationsEnabled(await notificationService.setEnabled(!notificationsEnabled));
+  };
+
+  const copyInviteLink = async () => {
+    if (!currentRoom?.inviteCode) return;
+    try {
+      await navigator.clipboard.writeText(inviteLink(currentRoom));
+      setSuccess("Invite link copied");
+      setTimeout(() => setSuccess(null), 2000);
+    } catch {
+      window.prompt("Copy this invite link", inviteLink(currentRoom));
+    }
+  };
+
+  const openDirectRoom = async (friendship: Friendship) => {
+    if (!currentUser) return;
+    const friend = friendOf(friendship, currentUser.email);
+    const roomId = await directRoomId(currentUser.email, friend.email);
+    setActiveTab('rooms');
+    setCurrentRoom({ id: roomId, name: friend.username, isDirect: true });
+  };
+
   const handleLanguageChange = (langCode: string) => {
-    if (currentUser) syncUserMetadata({ preferredLanguage: langCode });
+    updateProfile({ preferredLanguage: langCode }).catch((err: any) => {
+      console.error("Changing language failed", err);
+      setError(`Could not change your language: ${err.message}`);
+    });
+  };
+
+  const handleFormalityChange = (formality: Formality | null) => {
+    // null rather than undefined so the key is cleared in auth metadata
+    if (currentUser) syncUserMetadata({ formality });
   };
 
   const handleAuth = async (e: React.FormEvent) => {
@@ -241,10 +1760,13 @@ const App: React.FC = () => {
         const { error: signInError } = await supabase.auth.signInWithPassword({ email: authEmail, password: authPassword });
         if (signInError) throw signInError;
       } else {
+        if (!(await profileService.isUsernameAvailable(authUsername))) {
+          throw new Error(`The username "${authUsername.trim()}" is taken`);
+        }
         const { error: signUpError } = await supabase.auth.signUp({
           email: authEmail,
           password: authPassword,
-          options: { data: { username: authUsername, preferredLanguage: onboardingLang, friends: [], friendRequests: [] } }
+          options: { data: { username: authUsername, preferredLanguage: onboardingLang } }
         });
         if (signUpError) throw signUpError;
         setSuccess("Account created! Check email or sign in.");
@@ -254,33 +1776,51 @@ const App: React.FC = () => {
     } catch (err: any) { setError(err.message); } finally { setIsLoading(false); }
   };
 
-  const startGuestMode = (e: React.FormEvent) => {
+  const startGuestMode = async (e: React.FormEvent) => {
     e.preventDefault();
-    const guestId = Math.random().toString(36).substring(2, 6).toUpperCase();
-    const guestUser: AppUser = {
-      username: authUsername || `Guest-${guestId}`,
-      email: `guest-${guestId}@jeri.chat`,
-      preferredLanguage: onboardingLang,
-      friends: [],
-      friendRequests: [],
-      isGuest: true
-    };
-    localStorage.setItem('jeri_guest_user', JSON.stringify(guestUser));
-    setCurrentUser(guestUser);
-    setIsGuestSetup(false);
-    setActiveTab('rooms');
-    setAuthUsername('');
-    setOnboardingLang(DEFAULT_LANGUAGE);
     setError(null);
+    setIsLoading(true);
+    try {
+      const guestId = Math.random().toString(36).substring(2, 6).toUpperCase();
+      await guestService.start(authUsername || `Guest-${guestId}`, onboardingLang);
+      setIsGuestSetup(false);
+      setActiveTab('rooms');
+      setAuthUsername('');
+      setOnboardingLang(DEFAULT_LANGUAGE);
+    } catch (err: any) { setError(err.message); } finally { setIsLoading(false); }
   };
 
-  const logout = async () => {
-    const wasGuest = currentUser?.isGuest;
-    if (wasGuest) {
-      localStorage.removeItem('jeri_guest_user');
-    } else {
-      await supabase.auth.signOut();
+  const upgradeGuest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await guestService.upgrade(upgradeEmail);
+      setUpgradeEmail('');
+      setAccountNotice(`Check ${upgradeEmail.trim()} for a link to confirm your account.`);
+    } catch (err: any) {
+      setError(`Could not create your account: ${err.message}`);
+    }
+  };
+
+  const choosePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await guestService.setPassword(newPassword);
+      setNewPassword('');
+      setCurrentUser(prev => prev ? ({ ...prev, needsPassword: false }) : null);
+      setAccountNotice("Password saved. You can now sign in on any device.");
+    } catch (err: any) {
+      setError(`Could not save your password: ${err.message}`);
     }
+  };
+
+  const logout = async () => {
+    // A guest session cannot be signed back into
+    if (currentUser?.isGuest && !window.confirm("End your guest session? Your guest identity and its rooms cannot be recovered unless you create an account first.")) return;
+    // Park unsent messages before the session goes, so nothing is sent for the next account
+    chatSync.setOutboxOwner(null);
+    await supabase.auth.signOut();
 
     setCurrentUser(null);
     setCurrentRoom(null);
@@ -290,14 +1830,77 @@ const App: React.FC = () => {
     setAuthUsername('');
     setOnboardingLang(DEFAULT_LANGUAGE);
     setInputText('');
-    setRoomInput('');
+    setRoomSearch('');
     setError(null);
     setSuccess(null);
+    setAccountNotice(null);
     setActiveTab('rooms');
     setIsGuestSetup(false);
     setIsLoginView(true);
   };
 
+  const totalUnread = (Object.values(unreadCounts) as RoomUnreadState[])
+    .filter(state => !state.muted)
+    .reduce((sum, state) => sum + state.unread, 0);
+
+  const messagesById = new Map<string, TranslatedMessage>(messages.map(m => [m.id, m]));
+  const replyCounts = new Map<string, number>();
+  messages.forEach(m => {
+    if (m.replyToId && !m.deletedAt) replyCounts.set(m.replyToId, (replyCounts.get(m.replyToId) || 0) + 1);
+  });
+  const threadRoot = threadRootId ? messagesById.get(threadRootId) : undefined;
+  const isModerator = myRole !== 'member' && !currentUser?.isGuest;
+  // A ban takes the user out of the room, so in practice only mutes are shown here
+  const myRestriction = restrictions.find(r => r.userEmail === currentUser?.email && isActive(r));
+
+  // Previews of messages that may come from other rooms follow each room's own policy
+  const isFilteredPreview = (msg: TranslatedMessage) => {
+    if (!currentUser || !msg.roomId) return false;
+    const room = msg.roomId === currentRoom?.id ? currentRoom : roomFor(msg.roomId, msg.sender);
+    return filteredCategories(msg, room.isDirect ? 'off' : room.contentPolicy, currentUser.email).length > 0;
+  };
+
+  const renderBubble = (msg: TranslatedMessage, inThread = false) => {
+    if (!currentUser) return null;
+    const isOwn = msg.senderEmail === currentUser.email;
+    const isDelivered = !msg.deliveryState || msg.deliveryState === 'sent';
+    const canModify = isOwn && isDelivered;
+    const canModerate = isModerator && !isOwn && isDelivered;
+    const filteredAs = filteredCategories(msg, contentPolicy, currentUser.email);
+    const parentId = msg.replyToId;
+    const replyTo = parentId ? (messagesById.get(parentId) || replyParents[parentId]) : undefined;
+    return (
+      <ChatBubble
+        key={msg.id}
+        message={msg}
+        isOwn={isOwn}
+        targetLanguage={currentUser.preferredLanguage}
+        currentUserEmail={currentUser.email}
+        replyTo={replyTo}
+        isReplyFiltered={!!replyTo && filteredCategories(replyTo, contentPolicy, currentUser.email).length > 0}
+        replyCount={inThread ? 0 : replyCounts.get(msg.id)}
+        imageTexts={imageTexts}
+        highlight={isSearchOpen ? searchHighlight : undefined}
+        isFocused={focusedMessageId === msg.id}
+        onRetryTranslation={() => retryTranslation(msg.id)}
+        onEdit={canModify ? (text) => editMessage(msg.id, text) : undefined}
+        onDelete={canModify ? () => deleteMessage(msg.id) : canModerate ? () => removeMessage(msg.id) : undefined}
+        onRetrySend={() => retrySend(msg.id)}
+        onDiscard={() => discardUnsent(msg.id)}
+        onReply={isDelivered && !myRestriction ? () => setReplyingTo(msg) : undefined}
+        onReact={isDelivered && !myRestriction ? (emoji) => toggleReaction(msg, emoji) : undefined}
+        onOpenThread={() => { setIsRoomSettingsOpen(false); setIsSearchOpen(false); setThreadRootId(msg.id); }}
+        onQuoteClick={parentId && messagesById.has(parentId) && !inThread ? () => scrollToMessage(parentId) : undefined}
+        onReadAttachmentText={readAttachmentText}
+        onReport={!isOwn && isDelivered && !currentRoom?.isDirect && !reportedIds.has(msg.id) ? () => reportMessage(msg) : undefined}
+        isReported={reportedIds.has(msg.id)}
+        onModerate={canModerate ? (action) => moderateUser({ email: msg.senderEmail, username: msg.sender }, action) : undefined}
+        filteredAs={filteredAs.length ? filteredAs : undefined}
+        senderProfile={msg.senderId ? profiles[msg.senderId] : undefined}
+      />
+    );
+  };
+
   if (isLoading) return (
     <div className="h-screen flex items-center justify-center bg-gray-50">
       <div className="w-10 h-10 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
@@ -366,12 +1969,37 @@ const App: React.FC = () => {
           <button onClick={() => setActiveTab('rooms')} className={`w-full p-4 rounded-xl flex items-center justify-center md:justify-start space-x-3 transition-all ${activeTab === 'rooms' ? 'bg-indigo-600 text-white shadow-xl translate-x-1' : 'text-gray-500 font-bold hover:bg-gray-50'}`}>
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
             <span className="hidden md:block">Rooms</span>
+            {totalUnread > 0 && (
+              <span className={`ml-auto px-2 py-0.5 rounded-full text-[10px] font-black ${activeTab === 'rooms' ? 'bg-white text-indigo-600' : 'bg-indigo-600 text-white'}`}>
+                {totalUnread > 99 ? '99+' : totalUnread}
+              </span>
+            )}
+          </button>
+          <button onClick={() => setActiveTab('mentions')} className={`w-full p-4 rounded-xl flex items-center justify-center md:justify-start space-x-3 transition-all ${activeTab === 'mentions' ? 'bg-indigo-600 text-white shadow-xl translate-x-1' : 'text-gray-500 font-bold hover:bg-gray-50'}`}>
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 12a4 4 0 10-8 0 4 4 0 008 0zm0 0v1.5a2.5 2.5 0 005 0V12a9 9 0 10-9 9m4.5-1.206a8.959 8.959 0 01-4.5 1.207" /></svg>
+            <span className="hidden md:block">Mentions</span>
+            {newMentionCount > 0 && (
+              <span className={`ml-auto px-2 py-0.5 rounded-full text-[10px] font-black ${activeTab === 'mentions' ? 'bg-white text-indigo-600' : 'bg-amber-400 text-amber-950'}`}>
+                {newMentionCount > 99 ? '99+' : newMentionCount}
+              </span>
+            )}
           </button>
           <button onClick={() => setActiveTab('settings')} className={`w-full p-4 rounded-xl flex items-center justify-center md:justify-start space-x-3 transition-all ${activeTab === 'settings' ? 'bg-indigo-600 text-white shadow-xl translate-x-1' : 'text-gray-500 font-bold hover:bg-gray-50'}`}>
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066" /></svg>
             <span className="hidden md:block">Settings</span>
           </button>
         </nav>
+        <div className="hidden md:flex flex-col min-h-0">
+          <FriendsPanel
+            currentEmail={currentUser.email}
+            friendships={friendships}
+            isGuest={currentUser.isGuest}
+            onSendRequest={sendFriendRequest}
+            onAccept={acceptFriend}
+            onRemove={removeFriend}
+            onOpenDirect={openDirectRoom}
+          />
+        </div>
       </aside>
 
       <main className="flex-1 flex flex-col relative bg-white">
@@ -382,30 +2010,114 @@ const App: React.FC = () => {
                 <h2 className="text-4xl font-black text-indigo-950 tracking-tight italic">Welcome, {currentUser.username}</h2>
                 <p className="text-indigo-600 font-black uppercase tracking-widest text-[10px] mt-1">{currentUser.isGuest ? 'Guest Access' : 'Member Account'}</p>
               </header>
-              {activeTab === 'rooms' && (
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <button onClick={() => setCurrentRoom({ id: 'LOBBY', name: 'Global Lobby' })} className="p-10 bg-indigo-600 rounded-3xl text-left hover:scale-[1.01] hover:shadow-2xl transition-all group relative overflow-hidden">
-                    <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:scale-110 transition-transform">
-                      <svg className="w-24 h-24" fill="currentColor" viewBox="0 0 24 24"><path d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"/></svg>
-                    </div>
-                    <h3 className="text-2xl font-black text-white group-hover:translate-x-1 transition-transform relative z-10">Global Lobby</h3>
-                    <p className="text-indigo-100 mt-2 text-sm font-medium relative z-10">Instant translation with the world.</p>
-                  </button>
-                  <div className="p-10 bg-gray-50 rounded-3xl border-2 border-gray-100">
-                    <h3 className="text-2xl font-black text-indigo-950 mb-4 tracking-tight">Private Access</h3>
-                    <div className="flex space-x-2">
-                      <input value={roomInput} onChange={(e) => setRoomInput(e.target.value.toUpperCase())} placeholder="ROOM-ID" className="flex-1 px-4 py-3 rounded-xl border-2 border-gray-200 font-black text-indigo-950 placeholder-gray-400 focus:ring-4 focus:ring-indigo-100 focus:border-indigo-500 outline-none transition-all uppercase" />
-                      <button onClick={() => roomInput && setCurrentRoom({ id: roomInput.toUpperCase(), name: `Room ${roomInput}` })} className="px-6 py-3 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors shadow-md active:scale-95">Go</button>
-                    </div>
-                  </div>
+              {error && (
+                <div className="flex items-center justify-between bg-red-50 px-4 py-3 rounded-xl border-2 border-red-100">
+                  <span className="text-xs text-red-600 font-bold">{error}</span>
+                  <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600 font-bold ml-2 px-1">✕</button>
                 </div>
               )}
+              {activeTab === 'rooms' && (
+                <RoomDirectory
+                  myRooms={myRooms}
+                  publicRooms={publicRooms}
+                  search={roomSearch}
+                  canCreate={!currentUser.isGuest}
+                  defaultLanguage={currentUser.preferredLanguage}
+                  unreadCounts={unreadCounts}
+                  onSearchChange={setRoomSearch}
+                  onEnterRoom={enterRoom}
+                  onCreateRoom={createRoom}
+                  onJoinByCode={joinByCode}
+                />
+              )}
+              {activeTab === 'mentions' && (
+                <MentionsInbox
+                  mentions={mentions}
+                  isLoading={isMentionsLoading}
+                  seenAt={mentionsSeenAt}
+                  roomFor={roomFor}
+                  isFiltered={isFilteredPreview}
+                  onOpen={jumpToMessage}
+                />
+              )}
               {activeTab === 'settings' && (
                 <div className="max-w-xl bg-gray-50 p-10 rounded-3xl space-y-8 border-2 border-gray-100 shadow-sm">
+                  <div className="space-y-4">
+                    <label className="block text-xs font-black uppercase text-gray-400 tracking-widest">My Profile</label>
+                    <ProfileEditor
+                      username={currentUser.username}
+                      bio={currentUser.bio}
+                      avatarUrl={currentUser.avatarUrl}
+                      onSave={updateProfile}
+                      onAvatarChange={changeAvatar}
+                    />
+                    <p className="text-xs font-medium text-gray-400">Usernames are unique. Changes show on all your messages, old ones included.</p>
+                  </div>
                   <div className="space-y-4">
                     <label className="block text-xs font-black uppercase text-gray-400 tracking-widest">My Reading Language</label>
                     <LanguageSelector value={currentUser.preferredLanguage} onChange={handleLanguageChange} className="text-indigo-950 font-black shadow-sm" />
                   </div>
+                  <div className="space-y-4">
+                    <label className="block text-xs font-black uppercase text-gray-400 tracking-widest">Formality</label>
+                    <div className="flex flex-wrap gap-2">
+                      {[{ value: null, label: 'Automatic', description: 'Follow the sender' }, ...FORMALITY_OPTIONS].map(option => (
+                        <button
+                          key={option.label}
+                          onClick={() => handleFormalityChange(option.value)}
+                          title={option.description}
+                          className={`px-6 py-3 rounded-xl border-2 font-black text-xs uppercase tracking-widest transition-all shadow-sm active:scale-95 ${(currentUser.formality || null) === option.value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-950 border-gray-200 hover:border-indigo-500'}`}
+                        >
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs font-medium text-gray-400">How translations address you, e.g. Sie or du in German, keigo or plain form in Japanese.</p>
+                  </div>
+                  {notificationService.isSupported() && (
+                    <div className="space-y-4">
+                      <label className="block text-xs font-black uppercase text-gray-400 tracking-widest">Browser Notifications</label>
+                      <button onClick={toggleNotifications} className={`px-6 py-3 rounded-xl border-2 font-black text-xs uppercase tracking-widest transition-all shadow-sm active:scale-95 ${notificationsEnabled ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-950 border-gray-200 hover:border-indigo-500'}`}>
+                        {notificationsEnabled ? 'On' : 'Off'}
+                      </button>
+                      <p className="text-xs font-medium text-gray-400">Alerts arrive already translated into your reading language. Mute individual rooms from the bell in the room header.</p>
+                    </div>
+                  )}
+                  <div className="space-y-4">
+                    <label className="block text-xs font-black uppercase text-gray-400 tracking-widest">My Glossary</label>
+                    <p className="text-xs font-medium text-gray-400">Names and jargon translated your way in every room, overriding room glossaries.</p>
+                    <GlossaryEditor
+                      entries={personalGlossary}
+                      canEdit
+                      defaultLanguage={currentUser.preferredLanguage}
+                      onAdd={(entry) => addGlossaryEntry(entry, 'personal')}
+                      onRemove={removeGlossaryEntry}
+                    />
+                  </div>
+                  {(currentUser.isGuest || currentUser.needsPassword) && (
+                    <div className="space-y-4">
+                      <label className="block text-xs font-black uppercase text-gray-400 tracking-widest">{currentUser.isGuest ? 'Keep This Identity' : 'Choose a Password'}</label>
+                      {currentUser.isGuest ? (
+                        <form onSubmit={upgradeGuest} className="flex flex-wrap gap-3">
+                          <input type="email" value={upgradeEmail} onChange={(e) => setUpgradeEmail(e.target.value)} placeholder="Email" className="flex-1 min-w-[200px] px-6 py-3 bg-gray-50 rounded-xl text-indigo-950 font-bold placeholder-gray-400 border-2 border-gray-100 focus:border-indigo-500 focus:bg-white outline-none transition-all" required />
+                          <button type="submit" className="px-6 py-3 bg-indigo-600 text-white rounded-xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-sm active:scale-95">Create Account</button>
+                        </form>
+                      ) : (
+                        <form onSubmit={choosePassword} className="flex flex-wrap gap-3">
+                          <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="New password" minLength={6} className="flex-1 min-w-[200px] px-6 py-3 bg-gray-50 rounded-xl text-indigo-950 font-bold placeholder-gray-400 border-2 border-gray-100 focus:border-indigo-500 focus:bg-white outline-none transition-all" required />
+                          <button type="submit" className="px-6 py-3 bg-indigo-600 text-white rounded-xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-sm active:scale-95">Save Password</button>
+                        </form>
+                      )}
+                      {accountNotice && <p className="text-xs font-bold text-green-700">{accountNotice}</p>}
+                      {currentUser.isGuest && currentUser.pendingEmail && !accountNotice && (
+                        <p className="text-xs font-bold text-indigo-600">Waiting for you to confirm {currentUser.pendingEmail}.</p>
+                      )}
+                      <p className="text-xs font-medium text-gray-400">
+                        {currentUser.isGuest
+                          ? 'Turn this guest session into a full account. Your rooms, messages and settings come with you.'
+                          : 'Your account was a guest session. Set a password to sign in again later.'}
+                      </p>
+                    </div>
+                  )}
                   <div className="pt-8 border-t border-gray-200">
                     <button onClick={logout} className="px-8 py-4 bg-white text-red-600 rounded-xl border-2 border-red-100 font-black text-xs uppercase tracking-widest hover:bg-red-50 transition-all shadow-sm active:scale-95">
                       {currentUser.isGuest ? 'End Guest Session' : 'Logout'}
@@ -416,7 +2128,7 @@ const App: React.FC = () => {
             </div>
           </div>
         ) : (
-          <div className="flex-1 flex flex-col h-full bg-white">
+          <div className="flex-1 flex flex-col h-full bg-white relative">
             <header className="px-8 py-5 border-b flex items-center justify-between bg-white z-10 shadow-sm">
               <div className="flex items-center space-x-4">
                 <button onClick={() => { setCurrentRoom(null); setError(null); }} className="p-2 hover:bg-gray-100 rounded-lg text-gray-400 transition-colors">
@@ -424,8 +2136,42 @@ const App: React.FC = () => {
                 </button>
                 <div className="flex flex-col">
                   <h2 className="font-black text-xl text-indigo-950 leading-none">{currentRoom.name}</h2>
-                  <span className="text-[9px] font-black text-indigo-600 uppercase tracking-widest mt-1">Live Feed</span>
+                  <RoomPresence members={onlineMembers} currentEmail={currentUser.email} />
                 </div>
+                <button
+                  onClick={() => { setThreadRootId(null); setIsSearchOpen(false); setIsRoomSettingsOpen(!isRoomSettingsOpen); }}
+                  title="Room settings"
+                  className={`p-2 rounded-lg transition-colors ${isRoomSettingsOpen ? 'text-indigo-600 bg-indigo-50' : 'text-gray-400 hover:bg-gray-100'}`}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => { setThreadRootId(null); setIsRoomSettingsOpen(false); setIsSearchOpen(!isSearchOpen); }}
+                  title="Search messages"
+                  className={`p-2 rounded-lg transition-colors ${isSearchOpen ? 'text-indigo-600 bg-indigo-50' : 'text-gray-400 hover:bg-gray-100'}`}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={toggleRoomMute}
+                  title={unreadCounts[currentRoom.id]?.muted ? 'Unmute notifications' : 'Mute notifications'}
+                  className={`p-2 rounded-lg transition-colors ${unreadCounts[currentRoom.id]?.muted ? 'text-gray-300 hover:bg-gray-100' : 'text-indigo-600 hover:bg-indigo-50'}`}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+                    {unreadCounts[currentRoom.id]?.muted && <path strokeLinecap="round" strokeWidth="2" d="M4 4l16 16" />}
+                  </svg>
+                </button>
+                {currentRoom.inviteCode && (
+                  <button onClick={copyInviteLink} className="hidden md:block px-3 py-1.5 rounded-lg bg-indigo-50 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-100 transition-colors">
+                    {success || 'Copy Invite'}
+                  </button>
+                )}
               </div>
               {error && (
                 <div className="flex items-center space-x-2 bg-red-50 px-3 py-1.5 rounded-full border border-red-200 shadow-sm animate-in fade-in slide-in-from-top-2">
@@ -434,22 +2180,190 @@ const App: React.FC = () => {
                 </div>
               )}
             </header>
-            <main className="flex-1 overflow-y-auto px-8 py-6 space-y-4 bg-gray-50/50">
+            <main ref={messageListRef} onScroll={handleMessageListScroll} className="flex-1 overflow-y-auto px-8 py-6 space-y-4 bg-gray-50/50">
               {isHistoryLoading && <div className="text-center py-10 text-xs font-black text-gray-300 animate-pulse tracking-[0.2em]">CONNECTING...</div>}
+              {isLoadingOlder && <div className="text-center py-2 text-[10px] font-black text-gray-300 animate-pulse tracking-[0.2em]">LOADING OLDER MESSAGES...</div>}
+              {isTranslationPaused && (
+                <p className="text-center py-2 text-[10px] uppercase font-black tracking-widest text-amber-500">
+                  Automatic translation paused to stay within quota · Tap a message to translate it
+                </p>
+              )}
+              {!hasMoreHistory && !isHistoryLoading && messages.length > 0 && (
+                <p className="text-center py-2 text-[10px] uppercase font-black tracking-widest text-gray-300">Beginning of conversation</p>
+              )}
               {messages.length === 0 && !isHistoryLoading && (
                 <div className="text-center py-20">
                   <p className="text-sm font-bold text-gray-400 tracking-tight">Room is empty.</p>
                   <p className="text-[10px] uppercase font-black tracking-widest mt-1 text-gray-300 italic">Be the first to break the ice!</p>
                 </div>
               )}
-              {messages.map((msg) => <ChatBubble key={msg.id} message={msg} isOwn={msg.senderEmail === currentUser.email} targetLanguage={currentUser.preferredLanguage} />)}
+              {messages.map(msg => renderBubble(msg))}
+              {hasNewerHistory && (
+                <div className="sticky bottom-0 flex justify-center py-2">
+                  <button onClick={jumpToLatest} className="px-4 py-2 rounded-full bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest shadow-lg hover:bg-indigo-700 transition-colors">
+                    Jump to latest messages
+                  </button>
+                </div>
+              )}
               <div ref={messagesEndRef} />
             </main>
-            <footer className="p-6 bg-white border-t">
-              <form onSubmit={sendMessage} className="flex space-x-3 max-w-5xl mx-auto">
-                <input value={inputText} onChange={(e) => setInputText(e.target.value)} placeholder="Type in your language..." className="flex-1 px-6 py-4 rounded-2xl bg-gray-50 border-2 border-gray-100 text-indigo-950 font-bold placeholder-gray-400 focus:ring-4 focus:ring-indigo-100 focus:border-indigo-500 focus:bg-white outline-none transition-all" />
-                <button type="submit" disabled={!inputText.trim()} className="px-8 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 disabled:opacity-50 disabled:shadow-none transition-all active:scale-95">Send</button>
-              </form>
+            {isRoomSettingsOpen && (
+              <RoomSettingsPanel
+                room={currentRoom}
+                isAdmin={!currentUser.isGuest && currentRoom.createdBy === currentUser.email}
+                glossary={roomGlossary}
+                defaultLanguage={currentRoom.defaultLanguage || currentUser.preferredLanguage}
+                onAddGlossaryEntry={(entry) => addGlossaryEntry(entry, 'room')}
+                onRemoveGlossaryEntry={removeGlossaryEntry}
+                onContentPolicyChange={changeContentPolicy}
+                onSlowModeChange={changeSlowMode}
+                onClose={() => setIsRoomSettingsOpen(false)}
+              >
+                {isModerator && (
+                  <ModerationQueue
+                    reports={reports}
+                    restrictions={restrictions}
+                    moderators={moderators}
+                    isOwner={myRole === 'owner'}
+                    people={mentionCandidates}
+                    onRemoveMessage={(report) => removeMessage(report.messageId)}
+                    onDismiss={dismissReports}
+                    onLift={liftRestriction}
+                    onSetModerator={setModerator}
+                  />
+                )}
+              </RoomSettingsPanel>
+            )}
+            {isSearchOpen && (
+              <SearchPanel
+                room={currentRoom}
+                query={searchQuery}
+                people={[{ email: currentUser.email, username: currentUser.username }, ...mentionCandidates]}
+                roomFor={roomFor}
+                isFiltered={isFilteredPreview}
+                onQueryChange={setSearchQuery}
+                onSelect={jumpToMessage}
+                onClose={() => setIsSearchOpen(false)}
+              />
+            )}
+            {threadRoot && (
+              <aside className="absolute inset-y-0 right-0 w-full md:w-96 bg-white border-l shadow-2xl flex flex-col z-20">
+                <div className="px-6 py-4 border-b flex items-center justify-between">
+                  <h3 className="text-xs font-black uppercase tracking-widest text-indigo-950">Thread</h3>
+                  <button onClick={() => setThreadRootId(null)} className="text-gray-400 hover:text-gray-600 font-bold px-1">✕</button>
+                </div>
+                <div className="flex-1 overflow-y-auto px-4 py-4 bg-gray-50/50">
+                  {renderBubble(threadRoot, true)}
+                  <div className="ml-4 pl-3 border-l-2 border-indigo-100">
+                    {messages.filter(m => m.replyToId === threadRoot.id).map(m => renderBubble(m, true))}
+                  </div>
+                </div>
+                <div className="p-4 border-t">
+                  <button onClick={() => setReplyingTo(threadRoot)} className="w-full py-2 rounded-xl bg-indigo-50 text-xs font-black uppercase tracking-widest text-indigo-600 hover:bg-indigo-100 transition-colors">
+                    Reply in thread
+                  </button>
+                </div>
+              </aside>
+            )}
+            <footer className="p-6 bg-white border-t" onDragOver={(e) => e.preventDefault()} onDrop={handleComposerDrop}>
+              {replyingTo && (
+                <div className="max-w-5xl mx-auto mb-3 flex items-center justify-between px-4 py-2 rounded-xl bg-indigo-50 border-l-4 border-indigo-300">
+                  <p className="text-xs text-gray-600 truncate">
+                    <span className="font-black text-indigo-600">Replying to {replyingTo.sender}: </span>
+                    {filteredCategories(replyingTo, contentPolicy, currentUser.email).length
+                      ? <span className="italic">Hidden by the content filter</span>
+                      : plainText(replyingTo.translatedText || replyingTo.text)}
+                  </p>
+                  <button onClick={() => setReplyingTo(null)} className="ml-3 text-gray-400 hover:text-gray-600 font-bold px-1">✕</button>
+                </div>
+              )}
+              <p className="max-w-5xl mx-auto h-4 -mt-3 mb-1 px-2 text-[10px] font-bold italic text-gray-400">
+                {typingUsers.length === 1 && `${typingUsers[0].username} is typing…`}
+                {typingUsers.length === 2 && `${typingUsers[0].username} and ${typingUsers[1].username} are typing…`}
+                {typingUsers.length > 2 && 'Several people are typing…'}
+              </p>
+              {isPreviewOpen && (
+                <TranslationPreview
+                  text={inputText}
+                  sourceLanguage={currentUser.preferredLanguage}
+                  readerLanguages={readerLanguages}
+                  options={previewOptions}
+                  tone={outgoingTone || undefined}
+                  onClose={() => setIsPreviewOpen(false)}
+                />
+              )}
+              <div className="max-w-5xl mx-auto">
+                <DraftAttachments files={draftFiles} onRemove={(index) => setDraftFiles(prev => prev.filter((_, i) => i !== index))} />
+              </div>
+              {myRestriction ? (
+                <p className="max-w-5xl mx-auto px-6 py-4 rounded-2xl bg-gray-50 border-2 border-gray-100 text-center text-xs font-bold text-gray-500">
+                  You have been muted in this room
+                  {myRestriction.expiresAt ? ` until ${new Date(myRestriction.expiresAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}` : ''}
+                  {myRestriction.reason && ` · ${myRestriction.reason}`}
+                </p>
+              ) : (
+                <form onSubmit={sendMessage} className="flex space-x-3 max-w-5xl mx-auto">
+                  <button
+                    type="button"
+                    onClick={() => setIsPreviewOpen(!isPreviewOpen)}
+                    title="Preview how your message will read to others"
+                    className={`px-3 rounded-2xl border-2 transition-all ${isPreviewOpen ? 'border-indigo-300 bg-indigo-50 text-indigo-600' : 'border-gray-100 bg-gray-50 text-gray-400 hover:text-indigo-600'}`}
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                    </svg>
+                  </button>
+                  <select
+                    value={outgoingTone || ''}
+                    onChange={(e) => setOutgoingTone((e.target.value || null) as MessageTone | null)}
+                    title="Tone of your message, kept in translation"
+                    className={`px-3 rounded-2xl border-2 text-sm font-bold outline-none transition-all ${outgoingTone ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-gray-100 bg-gray-50 text-gray-400'}`}
+                  >
+                    <option value="">Tone</option>
+                    {MESSAGE_TONES.map(t => <option key={t.value} value={t.value}>{t.emoji} {t.label}</option>)}
+                  </select>
+                  <div className="relative flex-1 flex">
+                    <MentionSuggestions candidates={mentionSuggestions} activeIndex={mentionIndex} onPick={pickMention} />
+                    <input
+                      ref={composerRef}
+                      value={inputText}
+                      onChange={handleComposerChange}
+                      onKeyDown={handleComposerKeyDown}
+                      onBlur={() => setMentionQuery(null)}
+                      onPaste={handleComposerPaste}
+                      placeholder={draftFiles.length ? "Add a caption..." : "Type in your language..."}
+                      className="flex-1 min-w-0 px-6 py-4 rounded-2xl bg-gray-50 border-2 border-gray-100 text-indigo-950 font-bold placeholder-gray-400 focus:ring-4 focus:ring-indigo-100 focus:border-indigo-500 focus:bg-white outline-none transition-all"
+                    />
+                  </div>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => { addDraftFiles(Array.from(e.target.files || [])); e.target.value = ''; }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    title="Attach files"
+                    className="px-3 rounded-2xl border-2 border-gray-100 bg-gray-50 text-gray-400 hover:text-indigo-600 transition-all"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+                    </svg>
+                  </button>
+                  <VoiceRecorder onRecorded={sendVoiceMessage} onError={setError} />
+                  <button
+                    type="submit"
+                    disabled={(!inputText.trim() && draftFiles.length === 0) || slowModeRemaining > 0}
+                    title={slowModeRemaining > 0 ? `Slow mode: ${currentRoom.slowModeSeconds}s between messages` : undefined}
+                    className="px-8 py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-lg hover:bg-indigo-700 disabled:opacity-50 disabled:shadow-none transition-all active:scale-95"
+                  >
+                    {slowModeRemaining > 0 ? `${slowModeRemaining}s` : 'Send'}
+                  </button>
+                </form>
+              )}
             </footer>
           </div>
         )}
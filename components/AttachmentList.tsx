@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { Attachment, ImageText } from '../types';
+import { formatFileSize, isImage, mediaService } from '../services/mediaService';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  /** Object URLs for files still being uploaded, keyed by attachment id. */
+  localUrls?: Record<string, string>;
+  imageTexts?: Record<string, ImageText>;
+  onReadText?: (attachment: Attachment) => void;
+}
+
+const useAttachmentUrl = (attachment: Attachment, localUrl?: string) => {
+  const [url, setUrl] = useState<string | null>(localUrl || null);
+
+  useEffect(() => {
+    if (localUrl) {
+      setUrl(localUrl);
+      return;
+    }
+    let cancelled = false;
+    mediaService.getAttachmentUrl(attachment.path)
+      .then(signed => { if (!cancelled) setUrl(signed); })
+      .catch(err => console.error("Loading attachment failed", err));
+    return () => { cancelled = true; };
+  }, [attachment.path, localUrl]);
+
+  return url;
+};
+
+const ImageThumbnail: React.FC<{ attachment: Attachment; localUrl?: string; onOpen: (url: string) => void }> = ({ attachment, localUrl, onOpen }) => {
+  const url = useAttachmentUrl(attachment, localUrl);
+
+  return (
+    <button
+      type="button"
+      onClick={() => url && onOpen(url)}
+      className="block rounded-xl overflow-hidden bg-black/10 focus:outline-none focus:ring-2 focus:ring-indigo-300"
+      style={attachment.width && attachment.height ? { aspectRatio: `${attachment.width} / ${attachment.height}` } : undefined}
+      title={attachment.fileName}
+    >
+      {url ? (
+        <img src={url} alt={attachment.fileName} className="max-h-60 max-w-[260px] w-full object-cover" />
+      ) : (
+        <div className="w-40 h-28 animate-pulse" />
+      )}
+    </button>
+  );
+};
+
+const FileRow: React.FC<{ attachment: Attachment; localUrl?: string }> = ({ attachment, localUrl }) => {
+  const url = useAttachmentUrl(attachment, localUrl);
+
+  return (
+    <a
+      href={url || undefined}
+      download={attachment.fileName}
+      target="_blank"
+      rel="noreferrer"
+      className="flex items-center space-x-3 px-3 py-2 rounded-xl bg-black/5 hover:bg-black/10 transition-colors max-w-[260px]"
+    >
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 flex-shrink-0 opacity-70" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+      </svg>
+      <span className="min-w-0">
+        <span className="block text-xs font-semibold truncate">{attachment.fileName}</span>
+        <span className="block text-[10px] opacity-70">{formatFileSize(attachment.sizeBytes)}</span>
+      </span>
+    </a>
+  );
+};
+
+const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, localUrls = {}, imageTexts = {}, onReadText }) => {
+  const [lightbox, setLightbox] = useState<{ attachment: Attachment; url: string } | null>(null);
+  const images = attachments.filter(a => isImage(a.mimeType));
+  const files = attachments.filter(a => !isImage(a.mimeType));
+  const imageText = lightbox ? imageTexts[lightbox.attachment.id] : undefined;
+
+  useEffect(() => {
+    if (!lightbox) return;
+    const closeOnEscape = (e: KeyboardEvent) => { if (e.key === 'Escape') setLightbox(null); };
+    window.addEventListener('keydown', closeOnEscape);
+    return () => window.removeEventListener('keydown', closeOnEscape);
+  }, [lightbox]);
+
+  return (
+    <div className="space-y-2 mb-1">
+      {images.length > 0 && (
+        <div className={`grid gap-1 ${images.length > 1 ? 'grid-cols-2' : ''}`}>
+          {images.map(a => (
+            <ImageThumbnail key={a.id} attachment={a} localUrl={localUrls[a.id]} onOpen={url => setLightbox({ attachment: a, url })} />
+          ))}
+        </div>
+      )}
+      {files.map(a => <FileRow key={a.id} attachment={a} localUrl={localUrls[a.id]} />)}
+
+      {lightbox && (
+        <div
+          className="fixed inset-0 z-50 bg-black/80 flex flex-col items-center justify-center p-6"
+          onClick={() => setLightbox(null)}
+        >
+          <img
+            src={lightbox.url}
+            alt={lightbox.attachment.fileName}
+            className="max-h-[75vh] max-w-full rounded-lg shadow-2xl"
+            onClick={e => e.stopPropagation()}
+          />
+          <div className="mt-4 max-w-xl w-full text-center text-white space-y-2" onClick={e => e.stopPropagation()}>
+            <p className="text-xs opacity-70">{lightbox.attachment.fileName} · {formatFileSize(lightbox.attachment.sizeBytes)}</p>
+            {imageText?.status === 'done' ? (
+              imageText.text ? (
+                <p className="text-sm bg-white/10 rounded-lg px-4 py-2 whitespace-pre-wrap text-left">
+                  {imageText.translatedText || imageText.text}
+                </p>
+              ) : (
+                <p className="text-xs italic opacity-70">No text found in this image</p>
+              )
+            ) : onReadText && !localUrls[lightbox.attachment.id] && (
+              <button
+                onClick={() => onReadText(lightbox.attachment)}
+                disabled={imageText?.status === 'reading'}
+                className="text-xs font-bold px-4 py-2 rounded-full bg-white/20 hover:bg-white/30 disabled:opacity-50 transition-colors"
+              >
+                {imageText?.status === 'reading'
+                  ? 'Reading text…'
+                  : imageText?.status === 'failed' ? 'Could not read text · Retry' : 'Translate text in image'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface AvatarProps {
+  name: string;
+  url?: string;
+  /** Size and text size classes. */
+  className?: string;
+}
+
+/** Profile picture, or the first letter of the name when there is none. */
+const Avatar: React.FC<AvatarProps> = ({ name, url, className = 'w-7 h-7 text-xs' }) => {
+  if (url) {
+    return <img src={url} alt={name} className={`${className} rounded-full object-cover bg-gray-100 shrink-0`} />;
+  }
+  return (
+    <span className={`${className} rounded-full bg-indigo-100 text-indigo-600 font-black flex items-center justify-center shrink-0`}>
+      {name.charAt(0).toUpperCase()}
+    </span>
+  );
+};
+
+export default Avatar;
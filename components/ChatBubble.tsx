@@ -1,41 +1,273 @@
 
 import React, { useState } from 'react';
-import { TranslatedMessage } from '../types';
-import { SUPPORTED_LANGUAGES } from '../constants';
+import { Attachment, ImageText, MessageReaction, Profile, SafetyCategory, TranslatedMessage } from '../types';
+import { MESSAGE_TONES, REACTION_EMOJIS, SUPPORTED_LANGUAGES } from '../constants';
+import { messageLanguage } from '../services/languageDetection';
+import { plainText } from '../services/markdown';
+import VoicePlayer from './VoicePlayer';
+import AttachmentList from './AttachmentList';
+import MarkdownText from './MarkdownText';
+import ModerationMenu, { ModerationAction } from './ModerationMenu';
+import Avatar from './Avatar';
+import ProfileCard from './ProfileCard';
 
 interface ChatBubbleProps {
   message: TranslatedMessage;
   isOwn: boolean;
   targetLanguage: string;
+  currentUserEmail: string;
+  /** The message this one replies to, when it is known. */
+  replyTo?: TranslatedMessage;
+  /** The quoted message is hidden by the room's content filter. */
+  isReplyFiltered?: boolean;
+  replyCount?: number;
+  imageTexts?: Record<string, ImageText>;
+  /** Search terms to mark, shown in whichever text is displayed. */
+  highlight?: string[];
+  /** Set briefly when the reader jumps to this message. */
+  isFocused?: boolean;
+  onRetryTranslation?: () => void;
+  onEdit?: (text: string) => void;
+  onDelete?: () => void;
+  onRetrySend?: () => void;
+  onDiscard?: () => void;
+  onReply?: () => void;
+  onReact?: (emoji: string) => void;
+  onOpenThread?: () => void;
+  onQuoteClick?: () => void;
+  onReadAttachmentText?: (attachment: Attachment) => void;
+  /** Absent once reported, and for the reader's own messages. */
+  onReport?: () => void;
+  isReported?: boolean;
+  /** Offered to moderators for the sender of the message. */
+  onModerate?: (action: ModerationAction) => void;
+  /** What the room's content filter found; the text stays blurred until revealed. */
+  filteredAs?: SafetyCategory[];
+  /** The sender's current profile, which wins over the name the message was loaded with. */
+  senderProfile?: Profile;
 }
 
-const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isOwn, targetLanguage }) => {
+interface ReactionGroup {
+  emoji: string;
+  usernames: string[];
+  isMine: boolean;
+}
+
+const groupReactions = (reactions: MessageReaction[], viewerEmail: string): ReactionGroup[] => {
+  const groups = new Map<string, ReactionGroup>();
+  reactions.forEach(r => {
+    const group = groups.get(r.emoji) || { emoji: r.emoji, usernames: [], isMine: false };
+    group.usernames.push(r.username);
+    group.isMine = group.isMine || r.userEmail === viewerEmail;
+    groups.set(r.emoji, group);
+  });
+  return Array.from(groups.values());
+};
+
+const ChatBubble: React.FC<ChatBubbleProps> = ({
+  message, isOwn, targetLanguage, currentUserEmail, replyTo, isReplyFiltered, replyCount = 0, imageTexts, highlight, isFocused,
+  onRetryTranslation, onEdit, onDelete, onRetrySend, onDiscard, onReply, onReact, onOpenThread, onQuoteClick,
+  onReadAttachmentText, onReport, isReported, onModerate, filteredAs, senderProfile
+}) => {
   const [showOriginal, setShowOriginal] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+  const [isPickingReaction, setIsPickingReaction] = useState(false);
+  const [isModerating, setIsModerating] = useState(false);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [isShowingProfile, setIsShowingProfile] = useState(false);
+  const senderName = senderProfile?.username || message.sender;
+  const isBlurred = !!filteredAs?.length && !isRevealed;
+  const reactionGroups = groupReactions(message.reactions || [], currentUserEmail);
+  const tone = MESSAGE_TONES.find(t => t.value === message.tone);
+  const mentionsMe = !isOwn && !!message.mentions?.some(m => m.email === currentUserEmail);
   
-  const senderLang = SUPPORTED_LANGUAGES.find(l => l.code === message.senderLanguage)?.name || message.senderLanguage;
+  const sourceLanguage = messageLanguage(message);
+  const senderLang = SUPPORTED_LANGUAGES.find(l => l.code === sourceLanguage)?.name || sourceLanguage;
   const targetLangName = SUPPORTED_LANGUAGES.find(l => l.code === targetLanguage)?.name || targetLanguage;
 
   const displayContent = showOriginal ? message.text : (message.translatedText || message.text);
-  const isTranslated = !isOwn && message.senderLanguage !== targetLanguage && !showOriginal;
+  const isTranslated = !isOwn && sourceLanguage !== targetLanguage && !showOriginal && !message.translationFailed && !message.translationDeferred;
 
-  return (
-    <div className={`flex flex-col mb-4 ${isOwn ? 'items-end' : 'items-start'}`}>
-      <div className="flex items-center space-x-2 mb-1 px-1">
-        <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
-          {message.sender}
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsEditing(false);
+    if (onEdit && draft.trim() && draft !== message.text) onEdit(draft);
+  };
+
+  const header = (
+    <div className="relative flex items-center space-x-2 mb-1 px-1 group/header">
+      <button
+        onClick={() => setIsShowingProfile(!isShowingProfile)}
+        disabled={!senderProfile}
+        className="flex items-center space-x-1.5 text-xs font-semibold text-gray-500 uppercase tracking-wider enabled:hover:text-indigo-600 transition-colors"
+      >
+        <Avatar name={senderName} url={senderProfile?.avatarUrl} className="w-5 h-5 text-[9px]" />
+        <span>{senderName}</span>
+      </button>
+      <span className="text-[10px] text-gray-400">
+        {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      </span>
+      {tone && !message.deletedAt && (
+        <span className="px-1.5 py-0.5 rounded-full bg-gray-100 text-[9px] font-bold text-gray-500" title={`Sent with a ${tone.label.toLowerCase()} tone`}>
+          {tone.emoji} {tone.label}
         </span>
-        <span className="text-[10px] text-gray-400">
-          {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+      )}
+      {message.editedAt && !message.deletedAt && (
+        <span className="text-[10px] text-gray-400 italic" title={new Date(message.editedAt).toLocaleString()}>
+          (edited)
         </span>
+      )}
+      {!message.deletedAt && !isEditing && (onEdit || onDelete || onReply || onReact || onReport || onModerate) && (
+        <span className="hidden group-hover/header:flex space-x-2">
+          {onReply && (
+            <button onClick={onReply} className="text-[10px] font-bold text-gray-400 hover:text-indigo-600 transition-colors">
+              Reply
+            </button>
+          )}
+          {onReact && (
+            <button onClick={() => setIsPickingReaction(!isPickingReaction)} className="text-[10px] font-bold text-gray-400 hover:text-indigo-600 transition-colors">
+              React
+            </button>
+          )}
+          {onEdit && (
+            <button onClick={startEditing} className="text-[10px] font-bold text-gray-400 hover:text-indigo-600 transition-colors">
+              Edit
+            </button>
+          )}
+          {onDelete && (
+            <button
+              onClick={() => { if (window.confirm('Delete this message for everyone?')) onDelete(); }}
+              className="text-[10px] font-bold text-gray-400 hover:text-red-600 transition-colors"
+            >
+              Delete
+            </button>
+          )}
+          {onReport && (
+            <button onClick={onReport} className="text-[10px] font-bold text-gray-400 hover:text-red-600 transition-colors">
+              Report
+            </button>
+          )}
+          {onModerate && (
+            <button onClick={() => setIsModerating(!isModerating)} className="text-[10px] font-bold text-gray-400 hover:text-red-600 transition-colors">
+              Moderate
+            </button>
+          )}
+        </span>
+      )}
+      {isReported && !message.deletedAt && (
+        <span className="text-[10px] font-bold text-red-400">Reported</span>
+      )}
+      {isModerating && onModerate && (
+        <ModerationMenu username={senderName} onAction={onModerate} onClose={() => setIsModerating(false)} />
+      )}
+      {isShowingProfile && senderProfile && (
+        <ProfileCard profile={senderProfile} onClose={() => setIsShowingProfile(false)} />
+      )}
+    </div>
+  );
+
+  if (message.deletedAt) {
+    return (
+      <div data-message-id={message.id} className={`flex flex-col mb-4 ${isOwn ? 'items-end' : 'items-start'}`}>
+        {header}
+        <div className="max-w-[80%] px-4 py-2.5 rounded-2xl border border-dashed border-gray-200 bg-transparent">
+          <p className="text-sm italic text-gray-400">This message was deleted</p>
+        </div>
       </div>
+    );
+  }
+
+  if (isEditing) {
+    return (
+      <div data-message-id={message.id} className={`flex flex-col mb-4 ${isOwn ? 'items-end' : 'items-start'}`}>
+        {header}
+        <form onSubmit={submitEdit} className="w-full max-w-[80%] flex flex-col items-end space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) submitEdit(e);
+              if (e.key === 'Escape') setIsEditing(false);
+            }}
+            autoFocus
+            rows={Math.min(6, draft.split('\n').length + 1)}
+            className="w-full px-4 py-2.5 rounded-2xl border-2 border-indigo-200 text-sm text-indigo-950 focus:border-indigo-500 outline-none resize-none"
+          />
+          <div className="flex space-x-3">
+            <button type="button" onClick={() => setIsEditing(false)} className="text-[10px] font-bold text-gray-400 hover:text-gray-600">
+              Cancel
+            </button>
+            <button type="submit" disabled={!draft.trim()} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 disabled:opacity-50">
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
+  // Quotes show the parent as the reader sees it, i.e. already translated
+  const quote = message.replyToId && (
+    <button
+      onClick={onQuoteClick}
+      disabled={!onQuoteClick}
+      className="max-w-[80%] mb-1 px-3 py-1.5 border-l-4 border-indigo-200 bg-indigo-50/60 rounded-r-xl text-left"
+    >
+      {replyTo ? (
+        <>
+          <span className="block text-[10px] font-black text-indigo-400 uppercase tracking-wider">{replyTo.sender}</span>
+          <span className="block text-xs text-gray-500 line-clamp-2">
+            {replyTo.deletedAt
+              ? <span className="italic">This message was deleted</span>
+              : isReplyFiltered
+              ? <span className="italic">Hidden by the content filter</span>
+              : replyTo.isTranslating ? '…' : (plainText(replyTo.translatedText || replyTo.text) || (replyTo.attachments?.length ? '📎 Attachment' : ''))}
+          </span>
+        </>
+      ) : (
+        <span className="block text-xs italic text-gray-400">Loading quoted message…</span>
+      )}
+    </button>
+  );
+
+  return (
+    <div data-message-id={message.id} className={`flex flex-col mb-4 ${isOwn ? 'items-end' : 'items-start'}`}>
+      {header}
+      {quote}
       
       <div 
-        className={`max-w-[80%] px-4 py-2.5 rounded-2xl shadow-sm relative group ${
+        className={`max-w-[80%] px-4 py-2.5 rounded-2xl shadow-sm relative group transition-shadow ${isFocused ? 'ring-4 ring-amber-300' : ''} ${
           isOwn 
             ? 'bg-indigo-600 text-white rounded-tr-none' 
-            : 'bg-white text-gray-800 rounded-tl-none border border-gray-100'
+            : `bg-white text-gray-800 rounded-tl-none border ${mentionsMe ? 'border-amber-300 ring-2 ring-amber-100' : 'border-gray-100'}`
         }`}
       >
+        {message.voice && (
+          <div className="mb-1">
+            <VoicePlayer clip={message.voice} localUrl={message.localAudioUrl} />
+            {!message.text && !message.isTranslating && (
+              <p className="text-[10px] italic opacity-70 mt-1">
+                {message.deliveryState === 'pending' ? 'Transcribing…' : 'No transcript'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {message.attachments && message.attachments.length > 0 && (
+          <AttachmentList
+            attachments={message.attachments}
+            localUrls={message.localAttachmentUrls}
+            imageTexts={imageTexts}
+            onReadText={onReadAttachmentText}
+          />
+        )}
+
         {message.isTranslating ? (
           <div className="flex space-x-1 py-1">
             <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce"></div>
@@ -43,7 +275,21 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isOwn, targetLanguage
             <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
           </div>
         ) : (
-          <p className="text-sm leading-relaxed whitespace-pre-wrap">{displayContent}</p>
+          displayContent && (
+            <>
+              <div className={isBlurred ? 'blur-sm select-none pointer-events-none' : ''} aria-hidden={isBlurred}>
+                <MarkdownText text={displayContent} mentions={message.mentions} viewerEmail={currentUserEmail} highlight={highlight} />
+              </div>
+              {isBlurred && (
+                <button
+                  onClick={() => setIsRevealed(true)}
+                  className="mt-1 text-[9px] font-bold underline opacity-80 hover:opacity-100 transition-opacity"
+                >
+                  Hidden by the content filter ({filteredAs!.join(', ')}). Show anyway
+                </button>
+              )}
+            </>
+          )
         )}
 
         {isTranslated && !message.isTranslating && (
@@ -60,6 +306,38 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isOwn, targetLanguage
           </div>
         )}
         
+        {message.translationFailed && !message.isTranslating && (
+          <div className="mt-1 pt-1 border-t border-gray-100 flex items-center justify-between space-x-3">
+            <span className="text-[9px] italic text-red-500">
+              Translation to {targetLangName} failed
+            </span>
+            {onRetryTranslation && (
+              <button 
+                onClick={onRetryTranslation}
+                className="text-[9px] font-bold underline opacity-80 hover:opacity-100 transition-opacity"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+
+        {message.translationDeferred && !message.isTranslating && (
+          <div className="mt-1 pt-1 border-t border-gray-100 flex items-center justify-between space-x-3">
+            <span className="text-[9px] italic opacity-70">
+              Written in {senderLang}
+            </span>
+            {onRetryTranslation && (
+              <button
+                onClick={onRetryTranslation}
+                className="text-[9px] font-bold underline opacity-80 hover:opacity-100 transition-opacity"
+              >
+                Translate to {targetLangName}
+              </button>
+            )}
+          </div>
+        )}
+
         {showOriginal && (
           <div className="mt-1 pt-1 border-t border-gray-100 flex items-center justify-between">
             <span className="text-[9px] italic opacity-70">
@@ -74,6 +352,61 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isOwn, targetLanguage
           </div>
         )}
       </div>
+
+      {isPickingReaction && onReact && (
+        <div className="mt-1 flex space-x-1 px-2 py-1 bg-white rounded-full border border-gray-100 shadow-sm">
+          {REACTION_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              onClick={() => { onReact(emoji); setIsPickingReaction(false); }}
+              className="px-1 text-base hover:scale-125 transition-transform"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {(reactionGroups.length > 0 || replyCount > 0) && (
+        <div className="mt-1 flex flex-wrap items-center gap-1 px-1">
+          {reactionGroups.map(group => (
+            <button
+              key={group.emoji}
+              onClick={() => onReact?.(group.emoji)}
+              disabled={!onReact}
+              title={group.usernames.join(', ')}
+              className={`px-2 py-0.5 rounded-full border text-xs font-bold transition-colors ${
+                group.isMine ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'bg-white border-gray-200 text-gray-600 hover:border-indigo-300'
+              }`}
+            >
+              {group.emoji} {group.usernames.length}
+            </button>
+          ))}
+          {replyCount > 0 && onOpenThread && (
+            <button onClick={onOpenThread} className="px-2 text-[10px] font-black text-indigo-600 hover:text-indigo-800">
+              {replyCount === 1 ? '1 reply' : `${replyCount} replies`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {message.deliveryState === 'sent' && (
+        <span className="mt-1 px-1 text-[10px] text-gray-400">✓ Sent</span>
+      )}
+      {message.deliveryState === 'pending' && (
+        <span className="mt-1 px-1 text-[10px] text-gray-400 italic">Sending…</span>
+      )}
+      {message.deliveryState === 'failed' && (
+        <div className="mt-1 px-1 flex items-center space-x-2 text-[10px]">
+          <span className="font-bold text-red-500">Not sent</span>
+          {onRetrySend && (
+            <button onClick={onRetrySend} className="font-bold underline text-gray-500 hover:text-indigo-600">Retry</button>
+          )}
+          {onDiscard && (
+            <button onClick={onDiscard} className="font-bold underline text-gray-400 hover:text-red-600">Discard</button>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,35 @@
+import React from 'react';
+import { formatFileSize } from '../services/mediaService';
+
+interface DraftAttachmentsProps {
+  files: File[];
+  onRemove: (index: number) => void;
+}
+
+const DraftAttachments: React.FC<DraftAttachmentsProps> = ({ files, onRemove }) => {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {files.map((file, index) => (
+        <span
+          key={`${file.name}-${index}`}
+          className="flex items-center space-x-2 pl-3 pr-1 py-1 rounded-full bg-indigo-50 border border-indigo-100 text-xs text-indigo-700"
+        >
+          <span className="truncate max-w-[160px]">{file.name}</span>
+          <span className="text-[10px] text-indigo-400">{formatFileSize(file.size)}</span>
+          <button
+            type="button"
+            onClick={() => onRemove(index)}
+            className="w-5 h-5 rounded-full hover:bg-indigo-100 flex items-center justify-center"
+            aria-label={`Remove ${file.name}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default DraftAttachments;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Friendship } from '../types';
+import { friendOf } from '../services/friendService';
+
+interface FriendsPanelProps {
+  currentEmail: string;
+  friendships: Friendship[];
+  isGuest?: boolean;
+  onSendRequest: (identifier: string) => Promise<void>;
+  onAccept: (friendship: Friendship) => void;
+  onRemove: (friendship: Friendship) => void;
+  onOpenDirect: (friendship: Friendship) => void;
+}
+
+const FriendsPanel: React.FC<FriendsPanelProps> = ({ currentEmail, friendships, isGuest, onSendRequest, onAccept, onRemove, onOpenDirect }) => {
+  const [identifier, setIdentifier] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [requestError, setRequestError] = useState<string | null>(null);
+
+  const friends = friendships.filter(f => f.status === 'accepted');
+  const incoming = friendships.filter(f => f.status === 'pending' && f.addresseeEmail === currentEmail);
+  const outgoing = friendships.filter(f => f.status === 'pending' && f.requesterEmail === currentEmail);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!identifier.trim()) return;
+    setIsSending(true);
+    setRequestError(null);
+    try {
+      await onSendRequest(identifier);
+      setIdentifier('');
+    } catch (err: any) {
+      setRequestError(err.message || "Could not send request");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  if (isGuest) {
+    return (
+      <div className="px-4 py-6 border-t">
+        <p className="text-[10px] font-black uppercase tracking-widest text-gray-400 mb-2">Friends</p>
+        <p className="text-xs font-bold text-gray-400">Create an account to add friends and send direct messages.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 py-6 border-t space-y-5 overflow-y-auto">
+      <form onSubmit={submit} className="space-y-2">
+        <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Add Friend</p>
+        <div className="flex space-x-1">
+          <input
+            value={identifier}
+            onChange={(e) => setIdentifier(e.target.value)}
+            placeholder="Email or username"
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg border-2 border-gray-100 bg-gray-50 text-xs font-bold text-indigo-950 placeholder-gray-400 focus:border-indigo-500 focus:bg-white outline-none transition-all"
+          />
+          <button type="submit" disabled={isSending || !identifier.trim()} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-xs font-black disabled:opacity-50 hover:bg-indigo-700 transition-colors">
+            +
+          </button>
+        </div>
+        {requestError && <p className="text-[10px] font-bold text-red-600">{requestError}</p>}
+      </form>
+
+      {incoming.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Requests</p>
+          {incoming.map(f => (
+            <div key={f.id} className="flex items-center justify-between p-2 bg-indigo-50 rounded-lg">
+              <span className="text-xs font-bold text-indigo-950 truncate">{f.requesterUsername}</span>
+              <div className="flex space-x-2 shrink-0">
+                <button onClick={() => onAccept(f)} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800">Accept</button>
+                <button onClick={() => onRemove(f)} className="text-[10px] font-bold text-gray-400 hover:text-red-600">Decline</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Friends</p>
+        {friends.length === 0 && <p className="text-xs font-bold text-gray-300 italic">No friends yet.</p>}
+        {friends.map(f => {
+          const friend = friendOf(f, currentEmail);
+          return (
+            <div key={f.id} className="flex items-center justify-between p-2 rounded-lg hover:bg-gray-50 group">
+              <button onClick={() => onOpenDirect(f)} className="text-xs font-bold text-indigo-950 truncate text-left hover:text-indigo-600 transition-colors" title={`Message ${friend.username}`}>
+                {friend.username}
+              </button>
+              <button
+                onClick={() => { if (window.confirm(`Remove ${friend.username} from your friends?`)) onRemove(f); }}
+                className="hidden group-hover:block text-[10px] font-bold text-gray-400 hover:text-red-600"
+              >
+                Remove
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {outgoing.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Pending</p>
+          {outgoing.map(f => (
+            <div key={f.id} className="flex items-center justify-between p-2">
+              <span className="text-xs font-bold text-gray-400 truncate">{f.addresseeUsername}</span>
+              <button onClick={() => onRemove(f)} className="text-[10px] font-bold text-gray-400 hover:text-red-600">Cancel</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FriendsPanel;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { GlossaryEntry } from '../types';
+import { SUPPORTED_LANGUAGES } from '../constants';
+
+export type NewGlossaryEntry = Pick<GlossaryEntry, 'term' | 'translation' | 'targetLanguage'>;
+
+interface GlossaryEditorProps {
+  entries: GlossaryEntry[];
+  canEdit: boolean;
+  defaultLanguage: string;
+  onAdd: (entry: NewGlossaryEntry) => Promise<void>;
+  onRemove: (entry: GlossaryEntry) => void;
+}
+
+const languageName = (code?: string) =>
+  SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code;
+
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ entries, canEdit, defaultLanguage, onAdd, onRemove }) => {
+  const [term, setTerm] = useState('');
+  const [translation, setTranslation] = useState('');
+  const [targetLanguage, setTargetLanguage] = useState(defaultLanguage);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!term.trim()) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await onAdd({ term, translation: translation.trim() || undefined, targetLanguage: translation.trim() ? targetLanguage : undefined });
+      setTerm('');
+      setTranslation('');
+    } catch (err: any) {
+      setSaveError(err.message || 'Could not save the term');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {entries.length === 0 && <p className="text-xs font-bold text-gray-300">No terms yet.</p>}
+      {entries.map(entry => (
+        <div key={entry.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
+          <p className="text-xs text-indigo-950 truncate">
+            <span className="font-black">{entry.term}</span>
+            {entry.translation
+              ? <span className="text-gray-500"> → {entry.translation} <span className="text-gray-400">({languageName(entry.targetLanguage)})</span></span>
+              : <span className="text-gray-400 italic"> · never translated</span>}
+          </p>
+          {canEdit && (
+            <button onClick={() => onRemove(entry)} className="ml-2 shrink-0 text-[10px] font-bold text-gray-400 hover:text-red-600">Remove</button>
+          )}
+        </div>
+      ))}
+
+      {canEdit && (
+        <form onSubmit={submit} className="space-y-2 pt-2">
+          <input
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+            placeholder="Term, e.g. a product name"
+            maxLength={100}
+            className="w-full px-3 py-2 rounded-lg border-2 border-gray-100 bg-gray-50 text-xs font-bold text-indigo-950 placeholder-gray-400 focus:border-indigo-500 focus:bg-white outline-none transition-all"
+          />
+          <div className="flex space-x-1">
+            <input
+              value={translation}
+              onChange={(e) => setTranslation(e.target.value)}
+              placeholder="Translation (empty = keep as is)"
+              className="flex-1 min-w-0 px-3 py-2 rounded-lg border-2 border-gray-100 bg-gray-50 text-xs font-bold text-indigo-950 placeholder-gray-400 focus:border-indigo-500 focus:bg-white outline-none transition-all"
+            />
+            {translation.trim() && (
+              <select
+                value={targetLanguage}
+                onChange={(e) => setTargetLanguage(e.target.value)}
+                className="px-2 py-2 rounded-lg border-2 border-gray-100 bg-gray-50 text-xs font-bold text-indigo-950 focus:border-indigo-500 outline-none"
+              >
+                {SUPPORTED_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+              </select>
+            )}
+          </div>
+          {saveError && <p className="text-[10px] font-bold text-red-600">{saveError}</p>}
+          <button type="submit" disabled={isSaving || !term.trim()} className="w-full py-2 bg-indigo-600 text-white rounded-lg text-xs font-black disabled:opacity-50 hover:bg-indigo-700 transition-colors">
+            Add Term
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryEditor;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { highlightSegments } from '../services/search';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => (
+  <>
+    {highlightSegments(text, terms).map((segment, i) => segment.match
+      ? <mark key={i} className="bg-amber-200 text-inherit rounded px-0.5">{segment.text}</mark>
+      : <React.Fragment key={i}>{segment.text}</React.Fragment>)}
+  </>
+);
+
+export default HighlightedText;
@@ -0,0 +1,159 @@
+import React from 'react';
+import { MessageMention } from '../types';
+import { mentionHandle } from '../services/mentions';
+import HighlightedText from './HighlightedText';
+
+interface MarkdownTextProps {
+  text: string;
+  mentions?: MessageMention[];
+  /** Mentions of this reader are highlighted. */
+  viewerEmail?: string;
+  /** Search terms to mark in the text. */
+  highlight?: string[];
+}
+
+interface InlineContext {
+  mentions: MessageMention[];
+  viewerEmail?: string;
+  highlight: string[];
+}
+
+type Block =
+  | { type: 'code'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'paragraph'; lines: string[] };
+
+const FENCE = /^\s*```[\w-]*\s*$/;
+const LIST_ITEM = /^\s*([-*]|\d+\.)\s+(.*)$/;
+
+// Groups: 1 code, 2-3 link, 4 **bold**, 5 __bold__, 6-7 italics, 8 bare URL, 9 mention
+const INLINE = /`([^`\n]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|(?<![\p{L}\p{N}*_])([*_])(?!\s)(.+?)(?<!\s)\6(?![\p{L}\p{N}])|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])|(?<![\p{L}\p{N}_])(@[\p{L}\p{N}_.-]*[\p{L}\p{N}_])/gu;
+
+const SAFE_URL = /^(https?:|mailto:)/i;
+
+const parseBlocks = (text: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const end = lines.findIndex((l, j) => j > i && FENCE.test(l));
+      // An unclosed fence is ordinary text
+      if (end !== -1) {
+        blocks.push({ type: 'code', text: lines.slice(i + 1, end).join('\n') });
+        i = end;
+        continue;
+      }
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const last = blocks[blocks.length - 1];
+      if (last?.type === 'list' && last.ordered === ordered) last.items.push(item[2]);
+      else blocks.push({ type: 'list', ordered, items: [item[2]] });
+      continue;
+    }
+
+    if (!line.trim()) {
+      blocks.push({ type: 'paragraph', lines: [] });
+      continue;
+    }
+
+    const last = blocks[blocks.length - 1];
+    if (last?.type === 'paragraph' && last.lines.length > 0) last.lines.push(line);
+    else blocks.push({ type: 'paragraph', lines: [line] });
+  }
+
+  return blocks.filter(b => b.type !== 'paragraph' || b.lines.length > 0);
+};
+
+const plain = (text: string, context: InlineContext, key: string): React.ReactNode =>
+  context.highlight.length ? <HighlightedText key={key} text={text} terms={context.highlight} /> : text;
+
+const renderInline = (text: string, context: InlineContext, keyPrefix = ''): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index!;
+    const key = `${keyPrefix}${index}`;
+    if (index > lastIndex) nodes.push(plain(text.slice(lastIndex, index), context, `${key}-before`));
+    const [, code, linkText, href, bold, boldAlt, , italic, url, mention] = match;
+
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-black/10 font-mono text-[0.85em]">{code}</code>);
+    } else if (linkText !== undefined) {
+      nodes.push(SAFE_URL.test(href)
+        ? <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="underline font-semibold">{renderInline(linkText, context, `${key}-`)}</a>
+        : <span key={key}>{renderInline(linkText, context, `${key}-`)}</span>);
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold ?? boldAlt, context, `${key}-`)}</strong>);
+    } else if (italic !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italic, context, `${key}-`)}</em>);
+    } else if (url !== undefined) {
+      nodes.push(<a key={key} href={url} target="_blank" rel="noopener noreferrer" className="underline break-all">{url}</a>);
+    } else if (mention !== undefined) {
+      // Only people picked when writing are mentions; other @words stay text
+      const person = context.mentions.find(m => mentionHandle(m.username).toLowerCase() === mention.slice(1).toLowerCase());
+      nodes.push(person ? (
+        <span
+          key={key}
+          title={person.username}
+          className={`font-bold rounded px-0.5 ${person.email === context.viewerEmail ? 'bg-amber-200 text-amber-900' : 'bg-black/10'}`}
+        >
+          {mention}
+        </span>
+      ) : mention);
+    }
+
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) nodes.push(plain(text.slice(lastIndex), context, `${keyPrefix}end`));
+  return nodes;
+};
+
+/**
+ * Renders the Markdown subset messages support: bold, italics, inline code,
+ * code blocks, links, lists and mentions. Builds React elements only, so
+ * message text is never interpreted as HTML.
+ */
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, mentions = [], viewerEmail, highlight = [] }) => {
+  const context = { mentions, viewerEmail, highlight };
+  return (
+    <div className="text-sm leading-relaxed space-y-1.5 break-words">
+      {parseBlocks(text).map((block, i) => {
+        if (block.type === 'code') {
+          return (
+            <pre key={i} className="px-3 py-2 rounded-lg bg-black/10 font-mono text-xs overflow-x-auto whitespace-pre">
+              <code>{block.text}</code>
+            </pre>
+          );
+        }
+        if (block.type === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={i} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => <li key={j}>{renderInline(item, context, `${i}-${j}-`)}</li>)}
+            </List>
+          );
+        }
+        return (
+          <p key={i}>
+            {block.lines.map((line, j) => (
+              <React.Fragment key={j}>
+                {j > 0 && <br />}
+                {renderInline(line, context, `${i}-${j}-`)}
+              </React.Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MarkdownText;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { MessageMention } from '../types';
+import { mentionHandle } from '../services/mentions';
+
+interface MentionSuggestionsProps {
+  candidates: MessageMention[];
+  activeIndex: number;
+  onPick: (person: MessageMention) => void;
+}
+
+const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({ candidates, activeIndex, onPick }) => {
+  if (candidates.length === 0) return null;
+
+  return (
+    <ul className="absolute bottom-full left-0 mb-2 w-64 bg-white rounded-2xl shadow-xl border border-gray-100 py-2 z-30" role="listbox">
+      {candidates.map((person, i) => (
+        <li key={person.email} role="option" aria-selected={i === activeIndex}>
+          <button
+            type="button"
+            // Keep focus in the composer so the caret position survives
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onPick(person)}
+            className={`w-full px-4 py-2 flex items-center space-x-3 text-left transition-colors ${i === activeIndex ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+          >
+            <span className="w-7 h-7 rounded-full bg-indigo-100 text-indigo-600 text-xs font-black flex items-center justify-center">
+              {person.username.charAt(0).toUpperCase()}
+            </span>
+            <span className="min-w-0">
+              <span className="block text-sm font-bold text-indigo-950 truncate">{person.username}</span>
+              <span className="block text-[10px] text-gray-400 truncate">@{mentionHandle(person.username)}</span>
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default MentionSuggestions;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { ChatRoom, TranslatedMessage } from '../types';
+import { plainText } from '../services/markdown';
+
+interface MentionsInboxProps {
+  mentions: TranslatedMessage[];
+  isLoading: boolean;
+  /** Mentions newer than this are marked as new. */
+  seenAt: number;
+  roomFor: (roomId: string, sender: string) => ChatRoom;
+  /** Whether the room's content filter hides the message from this reader. */
+  isFiltered?: (message: TranslatedMessage) => boolean;
+  onOpen: (message: TranslatedMessage) => void;
+}
+
+const MentionsInbox: React.FC<MentionsInboxProps> = ({ mentions, isLoading, seenAt, roomFor, isFiltered, onOpen }) => {
+  if (isLoading && mentions.length === 0) {
+    return <p className="text-sm font-bold text-gray-400">Loading mentions…</p>;
+  }
+
+  if (mentions.length === 0) {
+    return (
+      <div className="p-10 bg-gray-50 rounded-3xl border-2 border-gray-100 text-center">
+        <p className="font-black text-indigo-950">No mentions yet</p>
+        <p className="text-xs text-gray-500 mt-1">When someone writes @ and your name, the message shows up here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-3">
+      <h3 className="text-xs font-black uppercase text-gray-400 tracking-widest">Mentions</h3>
+      {mentions.map(msg => {
+        const room = roomFor(msg.roomId!, msg.sender);
+        const isNew = msg.timestamp > seenAt;
+        return (
+          <button
+            key={msg.id}
+            onClick={() => onOpen(msg)}
+            className={`w-full p-4 rounded-2xl border-2 text-left hover:border-indigo-500 hover:shadow-md transition-all ${isNew ? 'bg-amber-50 border-amber-200' : 'bg-white border-gray-100'}`}
+          >
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-black text-indigo-950 truncate">
+                {msg.sender} <span className="font-bold text-gray-400">in {room.isDirect ? 'a direct message' : room.name}</span>
+              </span>
+              <span className="text-[10px] font-bold text-gray-400 shrink-0 ml-2">
+                {new Date(msg.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+              </span>
+            </div>
+            <p className="text-sm text-gray-700 mt-1 line-clamp-3">
+              {isFiltered?.(msg)
+                ? <span className="italic text-gray-400">Hidden by the content filter</span>
+                : msg.isTranslating ? '…' : plainText(msg.translatedText || msg.text)}
+            </p>
+          </button>
+        );
+      })}
+    </section>
+  );
+};
+
+export default MentionsInbox;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { MUTE_DURATIONS } from '../constants';
+
+export type ModerationAction =
+  | { type: 'mute'; durationMs: number | null }
+  | { type: 'kick' }
+  | { type: 'ban' };
+
+interface ModerationMenuProps {
+  username: string;
+  onAction: (action: ModerationAction) => void;
+  onClose: () => void;
+}
+
+const ModerationMenu: React.FC<ModerationMenuProps> = ({ username, onAction, onClose }) => {
+  const act = (action: ModerationAction, confirmation: string) => {
+    if (window.confirm(confirmation)) onAction(action);
+    onClose();
+  };
+
+  return (
+    <div className="absolute top-full left-0 z-30 w-48 bg-white rounded-xl shadow-xl border border-gray-100 py-1 text-xs font-bold text-gray-600">
+      <p className="px-3 py-1 text-[9px] font-black uppercase tracking-widest text-gray-400">Mute {username}</p>
+      {MUTE_DURATIONS.map(d => (
+        <button
+          key={d.label}
+          onClick={() => act({ type: 'mute', durationMs: d.ms }, `Mute ${username} (${d.label.toLowerCase()})?`)}
+          className="w-full px-3 py-1.5 text-left hover:bg-gray-50"
+        >
+          {d.label}
+        </button>
+      ))}
+      <div className="my-1 border-t border-gray-100" />
+      <button
+        onClick={() => act({ type: 'kick' }, `Remove ${username} from this room? They can join again.`)}
+        className="w-full px-3 py-1.5 text-left hover:bg-gray-50"
+      >
+        Kick from room
+      </button>
+      <button
+        onClick={() => act({ type: 'ban' }, `Ban ${username} from this room?`)}
+        className="w-full px-3 py-1.5 text-left text-red-600 hover:bg-red-50"
+      >
+        Ban from room
+      </button>
+      <button onClick={onClose} className="w-full px-3 py-1.5 text-left text-gray-400 hover:bg-gray-50">Cancel</button>
+    </div>
+  );
+};
+
+export default ModerationMenu;
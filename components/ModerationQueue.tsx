@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { MessageMention, MessageReport, RoomRestriction } from '../types';
+import { plainText } from '../services/markdown';
+
+interface ModerationQueueProps {
+  reports: MessageReport[];
+  restrictions: RoomRestriction[];
+  moderators: string[];
+  isOwner: boolean;
+  /** People who can be made moderators. */
+  people: MessageMention[];
+  onRemoveMessage: (report: MessageReport) => void;
+  onDismiss: (report: MessageReport) => void;
+  onLift: (restriction: RoomRestriction) => void;
+  onSetModerator: (email: string, isModerator: boolean) => void;
+}
+
+const formatUntil = (expiresAt?: number) =>
+  expiresAt ? `until ${new Date(expiresAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}` : 'until lifted';
+
+const sectionTitle = "text-[10px] font-black uppercase tracking-widest text-gray-400";
+
+const ModerationQueue: React.FC<ModerationQueueProps> = ({
+  reports, restrictions, moderators, isOwner, people, onRemoveMessage, onDismiss, onLift, onSetModerator
+}) => {
+  const [newModerator, setNewModerator] = useState('');
+
+  // Several people may report the same message; it is handled once
+  const byMessage = new Map<string, MessageReport[]>();
+  reports.forEach(r => byMessage.set(r.messageId, [...(byMessage.get(r.messageId) || []), r]));
+  const candidates = people.filter(p => !moderators.includes(p.email));
+
+  return (
+    <div className="space-y-6 pt-6 border-t border-gray-100">
+      <div className="space-y-2">
+        <p className={sectionTitle}>Reported messages</p>
+        {byMessage.size === 0 && <p className="text-xs font-bold text-gray-400">Nothing to review.</p>}
+        {Array.from(byMessage.values()).map(group => {
+          const report = group[0];
+          const message = report.message;
+          return (
+            <div key={report.messageId} className="p-3 rounded-xl border-2 border-red-100 bg-red-50/50 space-y-2">
+              <p className="text-[10px] font-bold text-gray-500">
+                <span className="font-black text-indigo-950">{message?.sender || 'Unknown'}</span>
+                {' · '}{group.length} report{group.length > 1 ? 's' : ''}
+              </p>
+              <p className="text-xs text-gray-700 line-clamp-3">
+                {message?.deletedAt ? <span className="italic">Already deleted</span> : plainText(message?.text || '')}
+              </p>
+              <ul className="text-[10px] text-gray-500 space-y-0.5">
+                {group.filter(r => r.reason).map(r => <li key={r.id}>“{r.reason}”</li>)}
+              </ul>
+              <div className="flex space-x-2">
+                <button onClick={() => onRemoveMessage(report)} className="px-3 py-1 rounded-lg bg-red-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-red-700">
+                  Remove message
+                </button>
+                <button onClick={() => onDismiss(report)} className="px-3 py-1 rounded-lg bg-white border border-gray-200 text-[10px] font-black uppercase tracking-widest text-gray-500 hover:bg-gray-50">
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <p className={sectionTitle}>Muted and banned</p>
+        {restrictions.length === 0 && <p className="text-xs font-bold text-gray-400">No one is muted or banned.</p>}
+        {restrictions.map(r => (
+          <div key={`${r.userEmail}-${r.kind}`} className="flex items-center justify-between text-xs">
+            <span className="min-w-0">
+              <span className="block font-bold text-indigo-950 truncate">{r.userEmail}</span>
+              <span className="block text-[10px] text-gray-400">
+                {r.kind === 'ban' ? 'Banned' : 'Muted'} {formatUntil(r.expiresAt)}{r.reason && ` · ${r.reason}`}
+              </span>
+            </span>
+            <button onClick={() => onLift(r)} className="ml-2 text-[10px] font-black uppercase tracking-widest text-indigo-600 hover:underline">
+              Lift
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {isOwner && (
+        <div className="space-y-2">
+          <p className={sectionTitle}>Moderators</p>
+          {moderators.map(email => (
+            <div key={email} className="flex items-center justify-between text-xs">
+              <span className="font-bold text-indigo-950 truncate">{email}</span>
+              <button onClick={() => onSetModerator(email, false)} className="ml-2 text-[10px] font-black uppercase tracking-widest text-red-500 hover:underline">
+                Remove
+              </button>
+            </div>
+          ))}
+          {candidates.length > 0 && (
+            <div className="flex space-x-2">
+              <select
+                value={newModerator}
+                onChange={(e) => setNewModerator(e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-gray-50 border-2 border-gray-100 text-xs font-bold text-indigo-950 outline-none"
+              >
+                <option value="">Choose a member…</option>
+                {candidates.map(p => <option key={p.email} value={p.email}>{p.username}</option>)}
+              </select>
+              <button
+                onClick={() => { onSetModerator(newModerator, true); setNewModerator(''); }}
+                disabled={!newModerator}
+                className="px-3 py-2 rounded-xl bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-50"
+              >
+                Appoint
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModerationQueue;
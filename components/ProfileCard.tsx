@@ -0,0 +1,34 @@
+import React from 'react';
+import { Profile } from '../types';
+import { SUPPORTED_LANGUAGES } from '../constants';
+import { mentionHandle } from '../services/mentions';
+import Avatar from './Avatar';
+
+interface ProfileCardProps {
+  profile: Profile;
+  onClose: () => void;
+}
+
+/** Shown over a message when its sender's name is clicked. */
+const ProfileCard: React.FC<ProfileCardProps> = ({ profile, onClose }) => {
+  const language = SUPPORTED_LANGUAGES.find(l => l.code === profile.preferredLanguage);
+
+  return (
+    <div className="absolute top-full left-0 z-30 w-64 bg-white rounded-2xl shadow-xl border border-gray-100 p-4 space-y-3" role="dialog" aria-label={`Profile of ${profile.username}`}>
+      <div className="flex items-center space-x-3">
+        <Avatar name={profile.username} url={profile.avatarUrl} className="w-12 h-12 text-lg" />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-black text-indigo-950 truncate">{profile.username}</p>
+          <p className="text-[10px] text-gray-400 truncate">@{mentionHandle(profile.username)}</p>
+        </div>
+        <button onClick={onClose} className="self-start text-gray-300 hover:text-gray-500 font-bold px-1" aria-label="Close">✕</button>
+      </div>
+      <p className="text-[10px] font-black uppercase tracking-widest text-indigo-600">
+        Reads {language?.name || profile.preferredLanguage}
+      </p>
+      {profile.bio && <p className="text-xs text-gray-600 whitespace-pre-wrap break-words">{profile.bio}</p>}
+    </div>
+  );
+};
+
+export default ProfileCard;
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BIO_MAX_LENGTH, USERNAME_MAX_LENGTH, USERNAME_MIN_LENGTH } from '../constants';
+import Avatar from './Avatar';
+
+interface ProfileEditorProps {
+  username: string;
+  bio?: string;
+  avatarUrl?: string;
+  onSave: (updates: { username: string; bio: string }) => Promise<void>;
+  onAvatarChange: (file: File) => Promise<void>;
+}
+
+const ProfileEditor: React.FC<ProfileEditorProps> = ({ username, bio = '', avatarUrl, onSave, onAvatarChange }) => {
+  const [draftName, setDraftName] = useState(username);
+  const [draftBio, setDraftBio] = useState(bio);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Follow changes saved elsewhere, e.g. in another tab
+  useEffect(() => { setDraftName(username); }, [username]);
+  useEffect(() => { setDraftBio(bio); }, [bio]);
+
+  const isChanged = draftName.trim() !== username || draftBio.trim() !== bio;
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setSaveError(err.message || 'Could not save your profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isChanged) run(() => onSave({ username: draftName.trim(), bio: draftBio.trim() }));
+  };
+
+  const pickAvatar = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => onAvatarChange(file));
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="flex items-center space-x-4">
+        <Avatar name={draftName || username} url={avatarUrl} className="w-16 h-16 text-2xl" />
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          disabled={isSaving}
+          className="px-4 py-2 rounded-xl border-2 border-gray-200 bg-white text-indigo-950 font-black text-[10px] uppercase tracking-widest hover:border-indigo-500 transition-all disabled:opacity-50"
+        >
+          Change Picture
+        </button>
+        <input ref={fileInput} type="file" accept="image/*" onChange={pickAvatar} className="hidden" />
+      </div>
+      <input
+        value={draftName}
+        onChange={(e) => setDraftName(e.target.value)}
+        minLength={USERNAME_MIN_LENGTH}
+        maxLength={USERNAME_MAX_LENGTH}
+        placeholder="Username"
+        className="w-full px-6 py-3 bg-gray-50 rounded-xl text-indigo-950 font-bold placeholder-gray-400 border-2 border-gray-100 focus:border-indigo-500 focus:bg-white outline-none transition-all"
+        required
+      />
+      <textarea
+        value={draftBio}
+        onChange={(e) => setDraftBio(e.target.value)}
+        maxLength={BIO_MAX_LENGTH}
+        rows={3}
+        placeholder="A few words about you"
+        className="w-full px-6 py-3 bg-gray-50 rounded-xl text-indigo-950 font-medium placeholder-gray-400 border-2 border-gray-100 focus:border-indigo-500 focus:bg-white outline-none transition-all resize-none"
+      />
+      {saveError && <p className="text-xs font-bold text-red-600">{saveError}</p>}
+      <button
+        type="submit"
+        disabled={!isChanged || isSaving}
+        className="px-6 py-3 bg-indigo-600 text-white rounded-xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition-all shadow-sm active:scale-95 disabled:opacity-50"
+      >
+        Save Profile
+      </button>
+    </form>
+  );
+};
+
+export default ProfileEditor;
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { ChatRoom, NewRoom, RoomVisibility } from '../types';
+import { RoomUnreadState } from '../services/unreadService';
+import { SUPPORTED_LANGUAGES } from '../constants';
+import LanguageSelector from './LanguageSelector';
+
+interface RoomDirectoryProps {
+  myRooms: ChatRoom[];
+  publicRooms: ChatRoom[];
+  search: string;
+  canCreate: boolean;
+  defaultLanguage: string;
+  unreadCounts: Record<string, RoomUnreadState>;
+  onSearchChange: (search: string) => void;
+  onEnterRoom: (room: ChatRoom) => void;
+  onCreateRoom: (room: NewRoom) => Promise<void>;
+  onJoinByCode: (code: string) => Promise<void>;
+}
+
+const VISIBILITY_LABELS: Record<RoomVisibility, string> = {
+  public: 'Public',
+  private: 'Private',
+  invite_only: 'Invite only',
+};
+
+const LOBBY: ChatRoom = { id: 'LOBBY', name: 'Global Lobby' };
+
+const formatActivity = (timestamp?: number) => {
+  if (!timestamp) return '';
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const UnreadBadge: React.FC<{ state?: RoomUnreadState }> = ({ state }) => {
+  if (!state?.unread) return null;
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-[10px] font-black ${state.muted ? 'bg-gray-200 text-gray-500' : 'bg-indigo-600 text-white'}`}>
+      {state.unread > 99 ? '99+' : state.unread}
+    </span>
+  );
+};
+
+const RoomRow: React.FC<{ room: ChatRoom; unread?: RoomUnreadState; onEnter: () => void }> = ({ room, unread, onEnter }) => {
+  const language = SUPPORTED_LANGUAGES.find(l => l.code === room.defaultLanguage);
+  return (
+    <button onClick={onEnter} className="w-full p-4 bg-white rounded-2xl border-2 border-gray-100 text-left hover:border-indigo-500 hover:shadow-md transition-all">
+      <div className="flex items-center justify-between">
+        <h4 className="font-black text-indigo-950 truncate">{room.name}</h4>
+        <span className="flex items-center space-x-2 shrink-0 ml-2">
+          <span className="text-[10px] font-bold text-gray-400">{formatActivity(room.lastActivityAt)}</span>
+          <UnreadBadge state={unread} />
+        </span>
+      </div>
+      {room.description && <p className="text-xs text-gray-500 mt-1 line-clamp-2">{room.description}</p>}
+      <div className="flex items-center space-x-2 mt-2">
+        {room.visibility && (
+          <span className="px-2 py-0.5 rounded-full bg-gray-100 text-[9px] font-black uppercase tracking-widest text-gray-500">
+            {VISIBILITY_LABELS[room.visibility]}
+          </span>
+        )}
+        {language && (
+          <span className="px-2 py-0.5 rounded-full bg-indigo-50 text-[9px] font-black uppercase tracking-widest text-indigo-600">
+            {language.name}
+          </span>
+        )}
+      </div>
+    </button>
+  );
+};
+
+const RoomDirectory: React.FC<RoomDirectoryProps> = ({
+  myRooms, publicRooms, search, canCreate, defaultLanguage, unreadCounts,
+  onSearchChange, onEnterRoom, onCreateRoom, onJoinByCode
+}) => {
+  const [joinCode, setJoinCode] = useState('');
+  const [joinError, setJoinError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NewRoom>({ name: '', description: '', defaultLanguage, visibility: 'public' });
+
+  const lobby = publicRooms.find(r => r.id === LOBBY.id) || LOBBY;
+
+  const submitJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!joinCode.trim()) return;
+    setJoinError(null);
+    try {
+      await onJoinByCode(joinCode.trim());
+      setJoinCode('');
+    } catch (err: any) {
+      setJoinError(err.message || 'Could not join room');
+    }
+  };
+
+  const submitCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    setCreateError(null);
+    try {
+      await onCreateRoom(draft);
+      setDraft({ name: '', description: '', defaultLanguage, visibility: 'public' });
+      setIsCreating(false);
+    } catch (err: any) {
+      setCreateError(err.message || 'Could not create room');
+    }
+  };
+
+  return (
+    <div className="space-y-10">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <button onClick={() => onEnterRoom(lobby)} className="p-10 bg-indigo-600 rounded-3xl text-left hover:scale-[1.01] hover:shadow-2xl transition-all group relative overflow-hidden">
+          <div className="absolute top-0 right-0 p-4 opacity-10 group-hover:scale-110 transition-transform">
+            <svg className="w-24 h-24" fill="currentColor" viewBox="0 0 24 24"><path d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"/></svg>
+          </div>
+          <h3 className="text-2xl font-black text-white group-hover:translate-x-1 transition-transform relative z-10 flex items-center space-x-3">
+            <span>{lobby.name}</span>
+            {!!unreadCounts[lobby.id]?.unread && (
+              <span className="px-2 py-0.5 rounded-full bg-white text-indigo-600 text-xs font-black">{unreadCounts[lobby.id].unread}</span>
+            )}
+          </h3>
+          <p className="text-indigo-100 mt-2 text-sm font-medium relative z-10">{lobby.description || 'Instant translation with the world.'}</p>
+        </button>
+        <div className="p-10 bg-gray-50 rounded-3xl border-2 border-gray-100">
+          <h3 className="text-2xl font-black text-indigo-950 mb-4 tracking-tight">Private Access</h3>
+          <form onSubmit={submitJoin} className="flex space-x-2">
+            <input value={joinCode} onChange={(e) => setJoinCode(e.target.value)} placeholder="ROOM-ID or invite link" className="flex-1 min-w-0 px-4 py-3 rounded-xl border-2 border-gray-200 font-black text-indigo-950 placeholder-gray-400 focus:ring-4 focus:ring-indigo-100 focus:border-indigo-500 outline-none transition-all" />
+            <button type="submit" className="px-6 py-3 bg-gray-900 text-white rounded-xl font-bold hover:bg-black transition-colors shadow-md active:scale-95">Go</button>
+          </form>
+          {joinError && <p className="mt-2 text-xs font-bold text-red-600">{joinError}</p>}
+        </div>
+      </div>
+
+      {myRooms.length > 0 && (
+        <section className="space-y-4">
+          <h3 className="text-xs font-black uppercase text-gray-400 tracking-widest">My Rooms</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {myRooms.map(room => <RoomRow key={room.id} room={room} unread={unreadCounts[room.id]} onEnter={() => onEnterRoom(room)} />)}
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-black uppercase text-gray-400 tracking-widest">Public Rooms</h3>
+          {canCreate && (
+            <button onClick={() => setIsCreating(!isCreating)} className="text-xs font-black text-indigo-600 hover:text-indigo-800">
+              {isCreating ? 'Cancel' : '+ Create Room'}
+            </button>
+          )}
+        </div>
+
+        {isCreating && (
+          <form onSubmit={submitCreate} className="p-6 bg-gray-50 rounded-3xl border-2 border-gray-100 space-y-3">
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="Room name" maxLength={60} className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 font-bold text-indigo-950 placeholder-gray-400 focus:border-indigo-500 outline-none" required />
+            <textarea value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} placeholder="What is this room about?" maxLength={280} rows={2} className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 font-medium text-indigo-950 placeholder-gray-400 focus:border-indigo-500 outline-none resize-none" />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <LanguageSelector value={draft.defaultLanguage} onChange={(defaultLanguage) => setDraft({ ...draft, defaultLanguage })} />
+              <select value={draft.visibility} onChange={(e) => setDraft({ ...draft, visibility: e.target.value as RoomVisibility })} className="block w-full px-4 py-3 text-indigo-950 font-black bg-white border-2 border-gray-200 rounded-xl focus:border-indigo-500 focus:outline-none">
+                {(Object.keys(VISIBILITY_LABELS) as RoomVisibility[]).map(v => <option key={v} value={v}>{VISIBILITY_LABELS[v]}</option>)}
+              </select>
+            </div>
+            {createError && <p className="text-xs font-bold text-red-600">{createError}</p>}
+            <button type="submit" disabled={!draft.name.trim()} className="w-full py-3 bg-indigo-600 text-white font-black rounded-xl hover:bg-indigo-700 disabled:opacity-50 transition-all active:scale-95">Create</button>
+          </form>
+        )}
+
+        <input value={search} onChange={(e) => onSearchChange(e.target.value)} placeholder="Search public rooms..." className="w-full px-4 py-3 rounded-xl border-2 border-gray-100 bg-gray-50 font-bold text-indigo-950 placeholder-gray-400 focus:border-indigo-500 focus:bg-white outline-none transition-all" />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {publicRooms.filter(r => r.id !== LOBBY.id).map(room => <RoomRow key={room.id} room={room} unread={unreadCounts[room.id]} onEnter={() => onEnterRoom(room)} />)}
+        </div>
+        {publicRooms.length === 0 && <p className="text-sm font-bold text-gray-300">No public rooms found.</p>}
+      </section>
+    </div>
+  );
+};
+
+export default RoomDirectory;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { PresenceMember } from '../types';
+
+interface RoomPresenceProps {
+  members: PresenceMember[];
+  currentEmail: string;
+}
+
+const MAX_VISIBLE = 5;
+
+const RoomPresence: React.FC<RoomPresenceProps> = ({ members, currentEmail }) => {
+  const visible = members.slice(0, MAX_VISIBLE);
+  const hidden = members.slice(MAX_VISIBLE);
+
+  return (
+    <div className="flex items-center space-x-2 mt-1">
+      <span className="flex items-center text-[9px] font-black text-indigo-600 uppercase tracking-widest">
+        <span className="w-1.5 h-1.5 bg-green-500 rounded-full mr-1.5"></span>
+        {members.length} online
+      </span>
+      <div className="hidden md:flex items-center space-x-1">
+        {visible.map(member => (
+          <span
+            key={member.email}
+            title={`${member.username} reads ${member.language.toUpperCase()}`}
+            className={`px-2 py-0.5 rounded-full text-[9px] font-bold ${member.email === currentEmail ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-950'}`}
+          >
+            {member.username}
+            <span className="ml-1 opacity-60 uppercase">{member.language}</span>
+          </span>
+        ))}
+        {hidden.length > 0 && (
+          <span
+            title={hidden.map(m => `${m.username} (${m.language.toUpperCase()})`).join(', ')}
+            className="px-2 py-0.5 rounded-full text-[9px] font-bold bg-gray-100 text-gray-500"
+          >
+            +{hidden.length}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoomPresence;
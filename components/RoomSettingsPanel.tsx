@@ -0,0 +1,97 @@
+import React from 'react';
+import { ChatRoom, ContentPolicy, GlossaryEntry } from '../types';
+import { CONTENT_POLICIES, SLOW_MODE_OPTIONS } from '../constants';
+import GlossaryEditor, { NewGlossaryEntry } from './GlossaryEditor';
+
+interface RoomSettingsPanelProps {
+  room: ChatRoom;
+  isAdmin: boolean;
+  glossary: GlossaryEntry[];
+  defaultLanguage: string;
+  onAddGlossaryEntry: (entry: NewGlossaryEntry) => Promise<void>;
+  onRemoveGlossaryEntry: (entry: GlossaryEntry) => void;
+  onContentPolicyChange: (policy: ContentPolicy) => void;
+  onSlowModeChange: (seconds: number) => void;
+  onClose: () => void;
+  /** Extra sections, such as moderation tools. */
+  children?: React.ReactNode;
+}
+
+const RoomSettingsPanel: React.FC<RoomSettingsPanelProps> = ({
+  room, isAdmin, glossary, defaultLanguage, onAddGlossaryEntry, onRemoveGlossaryEntry, onContentPolicyChange, onSlowModeChange, onClose, children
+}) => {
+  return (
+    <aside className="absolute inset-y-0 right-0 w-full md:w-96 bg-white border-l shadow-2xl flex flex-col z-20">
+      <div className="px-6 py-4 border-b flex items-center justify-between">
+        <h3 className="text-xs font-black uppercase tracking-widest text-indigo-950 truncate">{room.name} · Settings</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 font-bold px-1">✕</button>
+      </div>
+      <div className="flex-1 overflow-y-auto px-6 py-6 space-y-4">
+        <div>
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Glossary</p>
+          <p className="text-xs font-medium text-gray-400 mt-1">
+            Terms listed here are translated the same way for everyone in the room, or left untouched.
+          </p>
+        </div>
+        {room.isDirect ? (
+          <p className="text-xs font-bold text-gray-400">Direct messages use your personal glossary from Settings.</p>
+        ) : (
+          <GlossaryEditor
+            entries={glossary}
+            canEdit={isAdmin}
+            defaultLanguage={defaultLanguage}
+            onAdd={onAddGlossaryEntry}
+            onRemove={onRemoveGlossaryEntry}
+          />
+        )}
+        {!room.isDirect && (
+          <div className="space-y-2 pt-6 border-t border-gray-100">
+            <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Content filter</p>
+            <p className="text-xs font-medium text-gray-400">
+              Checks messages and their translations for offensive language in every language.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              {CONTENT_POLICIES.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => onContentPolicyChange(option.value)}
+                  disabled={!isAdmin}
+                  title={option.description}
+                  className={`px-3 py-2 rounded-xl border-2 text-[10px] font-black uppercase tracking-widest transition-all disabled:cursor-default ${(room.contentPolicy || 'off') === option.value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-950 border-gray-200 enabled:hover:border-indigo-500 disabled:opacity-50'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] font-bold text-gray-400">
+              {CONTENT_POLICIES.find(p => p.value === (room.contentPolicy || 'off'))?.description}
+            </p>
+          </div>
+        )}
+        {!room.isDirect && (
+          <div className="space-y-2 pt-6 border-t border-gray-100">
+            <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Slow mode</p>
+            <p className="text-xs font-medium text-gray-400">
+              How long members wait between messages. Moderators are not affected.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {SLOW_MODE_OPTIONS.map(option => (
+                <button
+                  key={option.seconds}
+                  onClick={() => onSlowModeChange(option.seconds)}
+                  disabled={!isAdmin}
+                  className={`px-3 py-2 rounded-xl border-2 text-[10px] font-black uppercase tracking-widest transition-all disabled:cursor-default ${(room.slowModeSeconds || 0) === option.seconds ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-indigo-950 border-gray-200 enabled:hover:border-indigo-500 disabled:opacity-50'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {children}
+      </div>
+    </aside>
+  );
+};
+
+export default RoomSettingsPanel;
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { ChatRoom, Message, MessageMention, SearchResult } from '../types';
+import { SEARCH_DEBOUNCE_MS, SUPPORTED_LANGUAGES } from '../constants';
+import { chatSync } from '../services/chatSync';
+import { messageLanguage } from '../services/languageDetection';
+import { plainText } from '../services/markdown';
+import { searchTerms } from '../services/search';
+import HighlightedText from './HighlightedText';
+
+interface SearchPanelProps {
+  room: ChatRoom;
+  query: string;
+  /** People to filter by sender; the reader included. */
+  people: MessageMention[];
+  roomFor: (roomId: string, sender: string) => ChatRoom;
+  /** Whether the message's room hides it from this reader with its content filter. */
+  isFiltered?: (message: Message) => boolean;
+  onQueryChange: (query: string) => void;
+  onSelect: (message: Message) => void;
+  onClose: () => void;
+}
+
+const languageName = (code: string) =>
+  SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code;
+
+// Date inputs give local calendar days; the end day is included in full
+const dayStart = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const dayEnd = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() + 24 * 60 * 60 * 1000 : undefined;
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ room, query, people, roomFor, isFiltered, onQueryChange, onSelect, onClose }) => {
+  const [allRooms, setAllRooms] = useState(false);
+  const [senderEmail, setSenderEmail] = useState('');
+  const [language, setLanguage] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const terms = searchTerms(query);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      setSearchError(null);
+      try {
+        const found = await chatSync.searchMessages({
+          query,
+          roomId: allRooms ? undefined : room.id,
+          senderEmail: senderEmail || undefined,
+          language: language || undefined,
+          from: dayStart(fromDate),
+          to: dayEnd(toDate)
+        });
+        if (!cancelled) setResults(found);
+      } catch (err: any) {
+        console.error("Search failed", err);
+        if (!cancelled) setSearchError(err.message || 'Search unavailable');
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, allRooms, room.id, senderEmail, language, fromDate, toDate]);
+
+  const selectClass = "w-full px-3 py-2 rounded-xl bg-gray-50 border-2 border-gray-100 text-xs font-bold text-indigo-950 outline-none focus:border-indigo-500";
+
+  return (
+    <aside className="absolute inset-y-0 right-0 w-full md:w-96 bg-white border-l shadow-2xl flex flex-col z-20">
+      <div className="px-6 py-4 border-b flex items-center justify-between">
+        <h3 className="text-xs font-black uppercase tracking-widest text-indigo-950">Search</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 font-bold px-1">✕</button>
+      </div>
+      <div className="px-6 py-4 border-b space-y-3">
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder="Search messages and translations..."
+          className="w-full px-4 py-3 rounded-xl bg-gray-50 border-2 border-gray-100 text-sm font-bold text-indigo-950 placeholder-gray-400 focus:border-indigo-500 focus:bg-white outline-none transition-all"
+        />
+        <div className="flex rounded-xl bg-gray-50 p-1 text-[10px] font-black uppercase tracking-widest">
+          <button onClick={() => setAllRooms(false)} className={`flex-1 py-1.5 rounded-lg ${!allRooms ? 'bg-white shadow text-indigo-600' : 'text-gray-400'}`}>This room</button>
+          <button onClick={() => setAllRooms(true)} className={`flex-1 py-1.5 rounded-lg ${allRooms ? 'bg-white shadow text-indigo-600' : 'text-gray-400'}`}>All rooms</button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <select value={senderEmail} onChange={(e) => setSenderEmail(e.target.value)} className={selectClass}>
+            <option value="">Anyone</option>
+            {people.map(p => <option key={p.email} value={p.email}>{p.username}</option>)}
+          </select>
+          <select value={language} onChange={(e) => setLanguage(e.target.value)} className={selectClass}>
+            <option value="">Any language</option>
+            {SUPPORTED_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+          </select>
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} title="From" className={selectClass} />
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} title="Until" className={selectClass} />
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-2 bg-gray-50/50">
+        {isSearching && <p className="text-center text-[10px] font-black text-gray-300 animate-pulse tracking-[0.2em]">SEARCHING...</p>}
+        {searchError && <p className="text-xs font-bold text-red-600 px-2">{searchError}</p>}
+        {!isSearching && !searchError && query.trim() && results.length === 0 && (
+          <p className="text-center text-xs font-bold text-gray-400 py-6">No messages found.</p>
+        )}
+        {results.map(({ message, translation }) => {
+          const resultRoom = message.roomId && message.roomId !== room.id ? roomFor(message.roomId, message.sender) : null;
+          return (
+            <button
+              key={message.id}
+              onClick={() => onSelect(message)}
+              className="w-full p-3 bg-white rounded-xl border-2 border-gray-100 text-left hover:border-indigo-500 transition-all"
+            >
+              <div className="flex items-center justify-between text-[10px] font-bold text-gray-400">
+                <span className="truncate">
+                  <span className="font-black text-indigo-950">{message.sender}</span>
+                  {resultRoom && ` in ${resultRoom.isDirect ? 'a direct message' : resultRoom.name}`}
+                  {` · ${languageName(messageLanguage(message))}`}
+                </span>
+                <span className="shrink-0 ml-2">{new Date(message.timestamp).toLocaleDateString()}</span>
+              </div>
+              {isFiltered?.(message) ? (
+                <p className="text-xs italic text-gray-400 mt-1">Hidden by the content filter</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-700 mt-1 line-clamp-3">
+                    <HighlightedText text={plainText(message.text)} terms={terms} />
+                  </p>
+                  {translation && (
+                    <p className="text-xs text-gray-500 mt-1 pt-1 border-t border-gray-100 line-clamp-3">
+                      <span className="text-[9px] font-black uppercase tracking-widest text-indigo-400 mr-1">{languageName(translation.language)}</span>
+                      <HighlightedText text={plainText(translation.text)} terms={terms} />
+                    </p>
+                  )}
+                </>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { MessageTone, TranslationOptions } from '../types';
+import { PREVIEW_DEBOUNCE_MS, SUPPORTED_LANGUAGES } from '../constants';
+import { previewTranslation, PreviewTranslation } from '../services/translationService';
+
+interface TranslationPreviewProps {
+  text: string;
+  sourceLanguage: string;
+  /** Languages the room's readers use, most common first. */
+  readerLanguages: string[];
+  options: TranslationOptions;
+  tone?: MessageTone;
+  onClose: () => void;
+}
+
+const languageName = (code: string) =>
+  SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code;
+
+const TranslationPreview: React.FC<TranslationPreviewProps> = ({ text, sourceLanguage, readerLanguages, options, tone, onClose }) => {
+  const fallbackTarget = SUPPORTED_LANGUAGES.find(l => l.code !== sourceLanguage)!.code;
+  const [backTarget, setBackTarget] = useState(readerLanguages[0] || fallbackTarget);
+  const [previews, setPreviews] = useState<PreviewTranslation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const languagesKey = [backTarget, ...readerLanguages].join(',');
+
+  // Debounced so a preview is only requested once typing pauses; a newer
+  // draft aborts the request for the previous one
+  useEffect(() => {
+    if (!text.trim()) {
+      setPreviews([]);
+      setIsLoading(false);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setPreviewError(null);
+      try {
+        const result = await previewTranslation(text, sourceLanguage, languagesKey.split(','), backTarget, {
+          options,
+          tone,
+          signal: controller.signal
+        });
+        setPreviews(result);
+      } catch (err: any) {
+        if (err?.name === 'AbortError') return;
+        console.error("Preview translation failed", err);
+        setPreviewError(err.message || 'Preview unavailable');
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [text, sourceLanguage, languagesKey, backTarget, options, tone]);
+
+  const roundTrip = previews.find(p => p.language === backTarget);
+  const others = previews.filter(p => p.language !== backTarget);
+
+  return (
+    <div className="max-w-5xl mx-auto mb-3 p-4 rounded-2xl bg-gray-50 border-2 border-gray-100 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">Preview via</span>
+          <select
+            value={backTarget}
+            onChange={(e) => setBackTarget(e.target.value)}
+            className="px-2 py-1 rounded-lg border-2 border-gray-200 bg-white text-xs font-bold text-indigo-950 focus:border-indigo-500 outline-none"
+          >
+            {SUPPORTED_LANGUAGES.filter(l => l.code !== sourceLanguage).map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+          </select>
+          {isLoading && <span className="text-[10px] font-black text-gray-300 animate-pulse tracking-widest">TRANSLATING…</span>}
+        </div>
+        <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600 font-bold px-1">✕</button>
+      </div>
+
+      {!text.trim() && <p className="text-xs font-bold text-gray-300">Start typing to see how your message will read.</p>}
+      {previewError && <p className="text-xs font-bold text-red-500">{previewError}</p>}
+
+      {text.trim() && roundTrip && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-600"><span className="font-black text-indigo-600">{languageName(roundTrip.language)}: </span>{roundTrip.translatedText}</p>
+          {roundTrip.backTranslation !== undefined && (
+            <p className="text-xs text-gray-500 italic"><span className="font-black not-italic text-gray-400">Back to {languageName(sourceLanguage)}: </span>{roundTrip.backTranslation}</p>
+          )}
+        </div>
+      )}
+      {text.trim() && others.map(p => (
+        <p key={p.language} className="text-xs text-gray-600"><span className="font-black text-indigo-600">{languageName(p.language)}: </span>{p.translatedText}</p>
+      ))}
+    </div>
+  );
+};
+
+export default TranslationPreview;
@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { VoiceClip } from '../types';
+import { mediaService } from '../services/mediaService';
+import { formatDuration } from './VoiceRecorder';
+
+interface VoicePlayerProps {
+  clip: VoiceClip;
+  /** Local recording to play while the upload is still pending. */
+  localUrl?: string;
+}
+
+const VoicePlayer: React.FC<VoicePlayerProps> = ({ clip, localUrl }) => {
+  const [url, setUrl] = useState<string | null>(localUrl || null);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    if (localUrl || !clip.path) return;
+    let cancelled = false;
+    mediaService.getVoiceUrl(clip.path)
+      .then(signed => { if (!cancelled) setUrl(signed); })
+      .catch(err => {
+        console.error("Loading voice message failed", err);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => { cancelled = true; };
+  }, [clip.path, localUrl]);
+
+  return (
+    <div className="flex items-center space-x-2">
+      {url ? (
+        <audio controls preload="metadata" src={url} className="h-8 max-w-[240px]" />
+      ) : (
+        <span className="text-xs italic opacity-70">{loadError ? 'Audio unavailable' : 'Loading audio…'}</span>
+      )}
+      <span className="text-[10px] font-bold opacity-70 tabular-nums">{formatDuration(clip.durationMs)}</span>
+    </div>
+  );
+};
+
+export default VoicePlayer;
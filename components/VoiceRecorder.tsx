@@ -0,0 +1,100 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VOICE_MAX_DURATION_MS } from '../constants';
+
+interface VoiceRecorderProps {
+  disabled?: boolean;
+  onRecorded: (audio: Blob, durationMs: number) => void;
+  onError: (message: string) => void;
+}
+
+export const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ disabled, onRecorded, onError }) => {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const startedAtRef = useRef(0);
+  const discardRef = useRef(false);
+
+  const isSupported = typeof window !== 'undefined' && 'MediaRecorder' in window && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => {
+      const ms = Date.now() - startedAtRef.current;
+      setElapsed(ms);
+      if (ms >= VOICE_MAX_DURATION_MS) recorderRef.current?.stop();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  // Release the microphone if the composer goes away mid-recording
+  useEffect(() => () => {
+    discardRef.current = true;
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, []);
+
+  const start = async () => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+      discardRef.current = false;
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunksRef.current.push(e.data); };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        setIsRecording(false);
+        const durationMs = Math.min(Date.now() - startedAtRef.current, VOICE_MAX_DURATION_MS);
+        if (!discardRef.current && chunksRef.current.length > 0) {
+          onRecorded(new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' }), durationMs);
+        }
+      };
+      recorderRef.current = recorder;
+      startedAtRef.current = Date.now();
+      setElapsed(0);
+      recorder.start();
+      setIsRecording(true);
+    } catch (err: any) {
+      console.error("Recording failed", err);
+      onError(err.name === 'NotAllowedError' ? 'Microphone access was denied' : (err.message || 'Could not start recording'));
+    }
+  };
+
+  const stop = (discard: boolean) => {
+    discardRef.current = discard;
+    recorderRef.current?.stop();
+  };
+
+  if (!isSupported) return null;
+
+  if (isRecording) {
+    return (
+      <div className="flex items-center space-x-2 px-3 rounded-2xl border-2 border-red-200 bg-red-50">
+        <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+        <span className="text-xs font-black text-red-600 tabular-nums">{formatDuration(elapsed)}</span>
+        <button type="button" onClick={() => stop(true)} className="text-[10px] font-bold text-gray-400 hover:text-gray-600">Cancel</button>
+        <button type="button" onClick={() => stop(false)} className="text-[10px] font-black text-red-600 hover:text-red-800">Send</button>
+      </div>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={start}
+      disabled={disabled}
+      title="Record a voice message"
+      className="px-3 rounded-2xl border-2 border-gray-100 bg-gray-50 text-gray-400 hover:text-indigo-600 disabled:opacity-50 transition-all"
+    >
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+      </svg>
+    </button>
+  );
+};
+
+export default VoiceRecorder;
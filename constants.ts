@@ -1,5 +1,5 @@
 
-import { Language } from './types';
+import { ContentPolicy, Formality, Language, MessageTone } from './types';
 
 export const SUPPORTED_LANGUAGES: Language[] = [
   { code: 'en', name: 'English', nativeName: 'English' },
@@ -21,4 +21,115 @@ export const SUPPORTED_LANGUAGES: Language[] = [
 
 export const DEFAULT_LANGUAGE = 'en';
 
+export const FORMALITY_OPTIONS: { value: Formality; label: string; description: string }[] = [
+  { value: 'formal', label: 'Formal', description: 'Polite address such as Sie, vous, usted or keigo' },
+  { value: 'informal', label: 'Informal', description: 'Casual address such as du, tu or plain form' },
+];
+
+// Tone hints a sender can attach to a message
+export const MESSAGE_TONES: { value: MessageTone; label: string; emoji: string }[] = [
+  { value: 'friendly', label: 'Friendly', emoji: '😊' },
+  { value: 'formal', label: 'Formal', emoji: '🎩' },
+  { value: 'playful', label: 'Playful', emoji: '😜' },
+  { value: 'serious', label: 'Serious', emoji: '😐' },
+  { value: 'sarcastic', label: 'Sarcastic', emoji: '🙃' },
+];
+
+export const HISTORY_PAGE_SIZE = 50;
+export const SEARCH_RESULT_LIMIT = 50;
+export const SEARCH_DEBOUNCE_MS = 400;
+
+// Outbox: automatic resend attempts before a message is marked failed
+export const OUTBOX_MAX_AUTO_RETRIES = 5;
+export const OUTBOX_RETRY_BASE_MS = 2000;
+export const OUTBOX_RETRY_MAX_MS = 60000;
+// Sending the same text again within this window is refused, here and by the database
+export const DUPLICATE_MESSAGE_WINDOW_MS = 30000;
+
+// Slow mode: how long members wait between messages; moderators are exempt
+export const SLOW_MODE_OPTIONS: { label: string; seconds: number }[] = [
+  { label: 'Off', seconds: 0 },
+  { label: '10s', seconds: 10 },
+  { label: '30s', seconds: 30 },
+  { label: '1m', seconds: 60 },
+  { label: '5m', seconds: 300 },
+];
+
+// Typing indicators: send at most one event per throttle window, and hide
+// an indicator when no event has arrived for the timeout
+export const TYPING_THROTTLE_MS = 2000;
+export const TYPING_INDICATOR_TIMEOUT_MS = 5000;
+
+// Quick picks offered in the reaction menu under each message
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// How long a moderator can mute someone for; null lasts until lifted
+export const MUTE_DURATIONS: { label: string; ms: number | null }[] = [
+  { label: '10 minutes', ms: 10 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+  { label: 'Until lifted', ms: null },
+];
+
 export const GEMINI_MODEL = 'gemini-3-flash-preview';
+
+// Which TranslationProvider to use when TRANSLATION_PROVIDER is not set.
+export const DEFAULT_TRANSLATION_PROVIDER = 'gemini';
+
+// ISO 639-2 code for "undetermined", returned when detection is not possible.
+export const UNKNOWN_LANGUAGE = 'und';
+
+// Translation queue tuning
+export const TRANSLATION_CONCURRENCY = 2;
+export const TRANSLATION_BATCH_SIZE = 8;
+export const TRANSLATION_MAX_RETRIES = 3;
+export const TRANSLATION_RETRY_BASE_MS = 1000;
+
+// Characters this device may send to the translation provider per rolling
+// window without being asked; beyond it messages are translated on tap
+export const TRANSLATION_BUDGET_CHARS = 50000;
+export const TRANSLATION_BUDGET_WINDOW_MS = 60 * 60 * 1000;
+
+// How long sending waits on the provider's language detection before using the local heuristic
+export const LANGUAGE_DETECTION_TIMEOUT_MS = 1500;
+
+// Voice messages: storage bucket and longest recording
+export const VOICE_BUCKET = 'voice-messages';
+export const VOICE_MAX_DURATION_MS = 120000;
+
+// Attachments: storage bucket and limits per file and per message
+export const ATTACHMENT_BUCKET = 'attachments';
+export const ATTACHMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const ATTACHMENT_MAX_FILES = 5;
+// Anything else may be sent; these are refused because they run when opened
+export const ATTACHMENT_BLOCKED_EXTENSIONS = ['exe', 'msi', 'bat', 'cmd', 'com', 'scr', 'ps1', 'vbs', 'jar', 'apk', 'sh'];
+
+// Profiles: public avatar bucket and field limits, matching the profiles table
+export const AVATAR_BUCKET = 'avatars';
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+export const USERNAME_MIN_LENGTH = 2;
+export const USERNAME_MAX_LENGTH = 32;
+export const BIO_MAX_LENGTH = 280;
+
+// Lifetime of signed links to stored media
+export const MEDIA_URL_TTL_SECONDS = 3600;
+
+// Which TranscriptionProvider to use when TRANSCRIPTION_PROVIDER is not set.
+export const DEFAULT_TRANSCRIPTION_PROVIDER = 'gemini';
+
+// Which ContentSafetyProvider to use when CONTENT_SAFETY_PROVIDER is not set.
+export const DEFAULT_CONTENT_SAFETY_PROVIDER = 'local';
+
+export const CONTENT_POLICIES: { value: ContentPolicy; label: string; description: string }[] = [
+  { value: 'off', label: 'Off', description: 'Messages are not checked' },
+  { value: 'block', label: 'Block', description: 'Offensive messages cannot be sent' },
+  { value: 'blur', label: 'Blur', description: 'Offensive text is hidden until clicked' },
+  { value: 'flag', label: 'Flag', description: 'Offensive messages are reported to moderators' },
+];
+
+// Composer preview: wait for a typing pause, then show at most this many reader languages
+export const PREVIEW_DEBOUNCE_MS = 700;
+export const PREVIEW_MAX_LANGUAGES = 3;
+
+export const MENTION_SUGGESTION_LIMIT = 6;
+export const MENTIONS_INBOX_SIZE = 50;
@@ -1,15 +1,150 @@
 
-import { Message } from '../types';
+import { Attachment, ContentPolicy, DeliveryState, HistoryCursor, HistoryPage, Message, MessageMention, MessageReaction, ModerationEvent, PresenceMember, SafetyCategory, SearchFilters, SearchResult } from '../types';
+import {
+  DUPLICATE_MESSAGE_WINDOW_MS,
+  UNKNOWN_LANGUAGE,
+  HISTORY_PAGE_SIZE,
+  SEARCH_RESULT_LIMIT,
+  OUTBOX_MAX_AUTO_RETRIES,
+  OUTBOX_RETRY_BASE_MS,
+  OUTBOX_RETRY_MAX_MS,
+  TYPING_THROTTLE_MS
+} from '../constants';
 import { supabase } from './supabase';
+import { idbDelete, idbGetAll, idbPut, STORES } from './localDb';
+import { detectMessageLanguage } from './translationService';
+import { detectLanguageLocally } from './languageDetection';
+import { checkContent, describeVerdict } from './contentSafety';
+import { profileService, toProfile } from './profileService';
+import { mediaService } from './mediaService';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
 type MessageHandler = (message: any) => void;
+type DeleteHandler = (messageId: string) => void;
+type PresenceHandler = (members: PresenceMember[]) => void;
+type TypingHandler = (typist: { email: string; username: string }) => void;
+type DeliveryHandler = (messageId: string, state: DeliveryState, error?: string) => void;
+type ReactionHandler = (messageId: string, reaction: MessageReaction, added: boolean) => void;
+type AttachmentHandler = (messageId: string, attachment: Attachment) => void;
+
+// A known language (e.g. from transcription) may be passed; otherwise it is detected on delivery
+export type OutgoingMessage = Omit<Message, 'timestamp' | 'editedAt' | 'deletedAt' | 'reactions'>;
+
+// Embedded with history so the sender's profile, reactions and attachments arrive in the same request as the messages
+const MESSAGE_COLUMNS = '*, sender:profiles(*), message_reactions(emoji, user_email, username), message_attachments(*)';
+
+/** A message persisted on the device until the server has accepted it. */
+export interface OutboxEntry extends OutgoingMessage {
+  roomId: string;
+  createdAt: number;
+  attempts: number;
+  state: 'pending' | 'failed';
+  lastError?: string;
+}
+
+// Connection problems are worth retrying; rejections by the database are not
+const isTransientError = (error: any) =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) ||
+  !error?.code ||
+  String(error.code).startsWith('08');
+
+// The database's flood protection says how many seconds to wait before sending again
+const rateLimitDelay = (error: any): number | null =>
+  error?.code === 'JR429' ? (Number(error.hint) || 10) * 1000 : null;
+
+const toReaction = (row: any): MessageReaction => ({
+  emoji: row.emoji,
+  userEmail: row.user_email,
+  username: row.username
+});
+
+const toAttachment = (row: any): Attachment => ({
+  id: row.id,
+  path: row.path,
+  fileName: row.file_name,
+  mimeType: row.mime_type,
+  sizeBytes: Number(row.size_bytes) || 0,
+  width: row.width || undefined,
+  height: row.height || undefined,
+  extractedText: row.extracted_text ?? undefined,
+  extractedLanguage: row.extracted_language || undefined
+});
+
+// The name and language come from the sender's profile: embedded in history,
+// from the profile cache for realtime rows. Messages from before profiles
+// existed fall back to the sender's address.
+const toMessage = (dbMsg: any): Message => {
+  let profile = dbMsg.sender_id ? profileService.cached(dbMsg.sender_id) : undefined;
+  if (dbMsg.sender) {
+    profile = toProfile(dbMsg.sender);
+    profileService.remember(profile);
+  }
+  return {
+    id: dbMsg.id,
+    roomId: dbMsg.room_id,
+    senderId: dbMsg.sender_id || undefined,
+    sender: profile?.username || String(dbMsg.sender_email).split('@')[0],
+    senderEmail: dbMsg.sender_email,
+    senderLanguage: profile?.preferredLanguage || dbMsg.detected_language || UNKNOWN_LANGUAGE,
+    detectedLanguage: dbMsg.detected_language || undefined,
+    text: dbMsg.text,
+    timestamp: new Date(dbMsg.created_at).getTime(),
+    editedAt: dbMsg.edited_at ? new Date(dbMsg.edited_at).getTime() : undefined,
+    deletedAt: dbMsg.deleted_at ? new Date(dbMsg.deleted_at).getTime() : undefined,
+    replyToId: dbMsg.reply_to_id || undefined,
+    tone: dbMsg.tone || undefined,
+    voice: dbMsg.voice_path
+      ? { path: dbMsg.voice_path, durationMs: dbMsg.voice_duration_ms || 0, mimeType: dbMsg.voice_mime_type || 'audio/webm' }
+      : undefined,
+    mentions: Array.isArray(dbMsg.mentions) && dbMsg.mentions.length
+      ? dbMsg.mentions.map((m: any): MessageMention => ({ email: m.email, username: m.username }))
+      : undefined,
+    contentFlags: dbMsg.content_flags?.length ? dbMsg.content_flags : undefined,
+    // Realtime rows carry no reactions or attachments; leave the keys out so merging keeps what is known
+    ...(dbMsg.message_reactions ? { reactions: dbMsg.message_reactions.map(toReaction) } : {}),
+    ...(dbMsg.message_attachments?.length ? { attachments: dbMsg.message_attachments.map(toAttachment) } : {})
+  };
+};
+
+// Realtime rows arrive without the join; make sure the sender's profile is cached first
+const toMessageWithSender = async (dbMsg: any): Promise<Message> => {
+  if (dbMsg.sender_id) {
+    try {
+      await profileService.get(dbMsg.sender_id);
+    } catch (e) {
+      console.debug("Loading the sender's profile failed", e);
+    }
+  }
+  return toMessage(dbMsg);
+};
 
 class ChatSync {
   private roomChannel: RealtimeChannel | null = null;
   private systemChannel: RealtimeChannel | null = null;
+  private inboxChannel: RealtimeChannel | null = null;
+  private watchedRooms = '';
+  private activityHandlers: Set<MessageHandler> = new Set();
   private handlers: Set<MessageHandler> = new Set();
+  private updateHandlers: Set<MessageHandler> = new Set();
+  private deleteHandlers: Set<DeleteHandler> = new Set();
   private systemHandlers: Set<MessageHandler> = new Set();
+  private presenceHandlers: Set<PresenceHandler> = new Set();
+  private typingHandlers: Set<TypingHandler> = new Set();
+  private reactionHandlers: Set<ReactionHandler> = new Set();
+  private glossaryHandlers: Set<() => void> = new Set();
+  private roomSettingsHandlers: Set<() => void> = new Set();
+  private attachmentHandlers: Set<AttachmentHandler> = new Set();
+  private moderationHandlers: Set<(event: ModerationEvent) => void> = new Set();
+  private member: PresenceMember | null = null;
+  private lastTypingSentAt = 0;
+  private deliveryHandlers: Set<DeliveryHandler> = new Set();
+  private delivering = new Set<string>();
+  private lastSent = new Map<string, { text: string; at: number }>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Mirror of the persisted outbox for browsers where IndexedDB is unavailable
+  private outbox = new Map<string, OutboxEntry>();
+  // Whose outbox entries are shown and sent; other accounts' entries wait for them
+  private outboxOwner: { id?: string; email: string } | null = null;
 
   constructor() {
     // Global system channel for ephemeral friend requests/alerts
@@ -18,15 +153,95 @@ class ChatSync {
         this.systemHandlers.forEach(handler => handler(payload.payload));
       })
       .subscribe();
+
+    // Resend whatever the signed-in user left in the outbox whenever we come back online
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.flushOutbox());
+    }
   }
 
-  async connect(roomId: string) {
+  /**
+   * Sets whose outbox is active and resends their unsent messages. Entries
+   * written by anyone else on this browser stay parked until they sign in
+   * again, so they are never posted under another identity. Pass null on
+   * sign-out.
+   */
+  setOutboxOwner(owner: { id?: string; email: string } | null) {
+    this.outboxOwner = owner;
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    if (owner) this.flushOutbox();
+  }
+
+  // Entries from before user ids were recorded fall back to the sender's address
+  private ownsEntry(entry: OutboxEntry) {
+    const owner = this.outboxOwner;
+    if (!owner) return false;
+    return entry.senderId ? entry.senderId === owner.id : entry.senderEmail === owner.email;
+  }
+
+  /**
+   * Joins a room's realtime channel. When `member` is given the user is
+   * announced via presence so others see them online.
+   */
+  async connect(roomId: string, member?: PresenceMember) {
     if (this.roomChannel) {
-      await this.roomChannel.unsubscribe();
+      await this.leave(this.roomChannel);
     }
+    this.member = member || null;
+    this.lastTypingSentAt = 0;
 
     // Subscribe to new rows in the 'messages' table for this specific room
-    this.roomChannel = supabase.channel(`room_db_${roomId}`)
+    const channel = supabase.channel(`room_db_${roomId}`, {
+      config: { presence: { key: member?.email || '' } }
+    });
+    this.roomChannel = channel
+      .on(
+        'presence',
+        { event: 'sync' },
+        () => {
+          // Several tabs of one user share a key; show them once
+          const state = channel.presenceState<PresenceMember>();
+          const members = Object.values(state)
+            .map(metas => metas[0])
+            .filter(Boolean)
+            .map(({ email, username, language, onlineAt }) => ({ email, username, language, onlineAt }))
+            .sort((a, b) => a.onlineAt - b.onlineAt);
+          this.presenceHandlers.forEach(handler => handler(members));
+        }
+      )
+      .on(
+        'broadcast',
+        { event: 'typing' },
+        ({ payload }) => {
+          if (payload?.email && payload.email !== this.member?.email) {
+            this.typingHandlers.forEach(handler => handler(payload));
+          }
+        }
+      )
+      // Someone changed the room glossary; readers reload it and retranslate
+      .on(
+        'broadcast',
+        { event: 'glossary' },
+        () => {
+          this.glossaryHandlers.forEach(handler => handler());
+        }
+      )
+      // The owner changed a room setting such as the content policy; members reload the room
+      .on(
+        'broadcast',
+        { event: 'room_settings' },
+        () => {
+          this.roomSettingsHandlers.forEach(handler => handler());
+        }
+      )
+      .on(
+        'broadcast',
+        { event: 'moderation' },
+        ({ payload }) => {
+          this.moderationHandlers.forEach(handler => handler(payload as ModerationEvent));
+        }
+      )
       .on(
         'postgres_changes',
         {
@@ -35,32 +250,215 @@ class ChatSync {
           table: 'messages',
           filter: `room_id=eq.${roomId}`
         },
-        (payload) => {
-          const dbMsg = payload.new;
-          const message: Message = {
-            id: dbMsg.id,
-            sender: dbMsg.sender_username,
-            senderEmail: dbMsg.sender_email,
-            senderLanguage: dbMsg.sender_language,
-            text: dbMsg.text,
-            timestamp: new Date(dbMsg.created_at).getTime()
-          };
+        async (payload) => {
+          const message = await toMessageWithSender(payload.new);
           this.handlers.forEach(handler => handler(message));
         }
       )
-      .subscribe((status) => {
+      // Edits and soft deletes arrive as updates to the row
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `room_id=eq.${roomId}`
+        },
+        async (payload) => {
+          const message = await toMessageWithSender(payload.new);
+          this.updateHandlers.forEach(handler => handler(message));
+        }
+      )
+      // Realtime cannot filter DELETE events, so hard deletes from any room
+      // come through here and listeners ignore ids they do not know
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages'
+        },
+        (payload) => {
+          const messageId = payload.old?.id;
+          if (messageId) this.deleteHandlers.forEach(handler => handler(messageId));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `room_id=eq.${roomId}`
+        },
+        (payload) => {
+          this.reactionHandlers.forEach(handler => handler(payload.new.message_id, toReaction(payload.new), true));
+        }
+      )
+      // Attachment rows are written right after their message
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_attachments',
+          filter: `room_id=eq.${roomId}`
+        },
+        (payload) => {
+          this.attachmentHandlers.forEach(handler => handler(payload.new.message_id, toAttachment(payload.new)));
+        }
+      )
+      // Unfiltered for the same reason as message deletes
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions'
+        },
+        (payload) => {
+          if (payload.old?.message_id) {
+            this.reactionHandlers.forEach(handler => handler(payload.old.message_id, toReaction(payload.old), false));
+          }
+        }
+      )
+      .subscribe(async (status) => {
         if (status === 'SUBSCRIBED') {
           console.debug(`Successfully connected to room: ${roomId}`);
+          if (this.member) await channel.track(this.member);
         }
       });
   }
 
+  private async leave(channel: RealtimeChannel) {
+    try {
+      await channel.untrack();
+    } finally {
+      await channel.unsubscribe();
+    }
+  }
+
   disconnect() {
     if (this.roomChannel) {
-      this.roomChannel.unsubscribe();
+      this.leave(this.roomChannel);
       this.roomChannel = null;
     }
+    this.member = null;
     this.handlers.clear();
+    this.updateHandlers.clear();
+    this.deleteHandlers.clear();
+    this.presenceHandlers.clear();
+    this.typingHandlers.clear();
+    this.reactionHandlers.clear();
+    this.glossaryHandlers.clear();
+    this.roomSettingsHandlers.clear();
+    this.attachmentHandlers.clear();
+    this.moderationHandlers.clear();
+  }
+
+  /**
+   * Listens for new messages in every given room, independently of the room
+   * currently open, so unread counts and notifications keep working.
+   * Unlike the room channel this survives `disconnect`.
+   */
+  async watchRooms(roomIds: string[]) {
+    const key = [...new Set(roomIds)].sort().join(',');
+    if (key === this.watchedRooms) return;
+    this.watchedRooms = key;
+
+    if (this.inboxChannel) {
+      await this.inboxChannel.unsubscribe();
+      this.inboxChannel = null;
+    }
+    if (!key) return;
+
+    this.inboxChannel = supabase.channel(`inbox_${Date.now()}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `room_id=in.(${key})`
+        },
+        async (payload) => {
+          const message = await toMessageWithSender(payload.new);
+          this.activityHandlers.forEach(handler => handler(message));
+        }
+      )
+      .subscribe();
+  }
+
+  onRoomActivity(handler: MessageHandler) {
+    this.activityHandlers.add(handler);
+    return () => { this.activityHandlers.delete(handler); };
+  }
+
+  onPresence(handler: PresenceHandler) {
+    this.presenceHandlers.add(handler);
+    return () => { this.presenceHandlers.delete(handler); };
+  }
+
+  onTyping(handler: TypingHandler) {
+    this.typingHandlers.add(handler);
+    return () => { this.typingHandlers.delete(handler); };
+  }
+
+  /** Tells the room we are typing; throttled so every keystroke is not broadcast. */
+  sendTyping() {
+    const now = Date.now();
+    if (!this.roomChannel || !this.member || now - this.lastTypingSentAt < TYPING_THROTTLE_MS) return;
+    this.lastTypingSentAt = now;
+    this.roomChannel.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { email: this.member.email, username: this.member.username },
+    });
+  }
+
+  onAttachment(handler: AttachmentHandler) {
+    this.attachmentHandlers.add(handler);
+    return () => { this.attachmentHandlers.delete(handler); };
+  }
+
+  /** Stores text read from an image so later readers do not run OCR again. */
+  async saveExtractedText(attachmentId: string, text: string, language?: string) {
+    // Only the first reader's text is kept
+    const { error } = await supabase.rpc('save_extracted_text', {
+      target_attachment: attachmentId,
+      text_read: text,
+      text_language: language || null
+    });
+
+    if (error) console.debug("Saving extracted text failed", error);
+  }
+
+  onGlossaryChange(handler: () => void) {
+    this.glossaryHandlers.add(handler);
+    return () => { this.glossaryHandlers.delete(handler); };
+  }
+
+  sendGlossaryChanged() {
+    this.roomChannel?.send({ type: 'broadcast', event: 'glossary', payload: {} });
+  }
+
+  onRoomSettingsChange(handler: () => void) {
+    this.roomSettingsHandlers.add(handler);
+    return () => { this.roomSettingsHandlers.delete(handler); };
+  }
+
+  sendRoomSettingsChanged() {
+    this.roomChannel?.send({ type: 'broadcast', event: 'room_settings', payload: {} });
+  }
+
+  onModeration(handler: (event: ModerationEvent) => void) {
+    this.moderationHandlers.add(handler);
+    return () => { this.moderationHandlers.delete(handler); };
+  }
+
+  /** Tells everyone in the room about a moderation action so they need not wait for a reload. */
+  sendModerationEvent(event: ModerationEvent) {
+    this.roomChannel?.send({ type: 'broadcast', event: 'moderation', payload: event });
   }
 
   onMessage(handler: MessageHandler) {
@@ -68,26 +466,292 @@ class ChatSync {
     return () => { this.handlers.delete(handler); };
   }
 
+  onMessageUpdate(handler: MessageHandler) {
+    this.updateHandlers.add(handler);
+    return () => { this.updateHandlers.delete(handler); };
+  }
+
+  onMessageDelete(handler: DeleteHandler) {
+    this.deleteHandlers.add(handler);
+    return () => { this.deleteHandlers.delete(handler); };
+  }
+
+  onReaction(handler: ReactionHandler) {
+    this.reactionHandlers.add(handler);
+    return () => { this.reactionHandlers.delete(handler); };
+  }
+
+  async addReaction(messageId: string, roomId: string, reaction: MessageReaction) {
+    const { error } = await supabase
+      .from('message_reactions')
+      .upsert([{
+        message_id: messageId,
+        room_id: roomId,
+        user_email: reaction.userEmail,
+        username: reaction.username,
+        emoji: reaction.emoji
+      }], { onConflict: 'message_id,user_email,emoji', ignoreDuplicates: true });
+
+    if (error) {
+      console.error("Supabase Error:", error);
+      throw error;
+    }
+  }
+
+  async removeReaction(messageId: string, reaction: MessageReaction) {
+    const { error } = await supabase
+      .from('message_reactions')
+      .delete()
+      .eq('message_id', messageId)
+      .eq('user_email', reaction.userEmail)
+      .eq('emoji', reaction.emoji);
+
+    if (error) {
+      console.error("Supabase Error:", error);
+      throw error;
+    }
+  }
+
   onSystemEvent(handler: MessageHandler) {
     this.systemHandlers.add(handler);
     return () => { this.systemHandlers.delete(handler); };
   }
 
-  async sendMessage(roomId: string, message: Omit<Message, 'id' | 'timestamp'>) {
-    const { error } = await supabase
+  createMessageId(): string {
+    return crypto.randomUUID();
+  }
+
+  onDeliveryChange(handler: DeliveryHandler) {
+    this.deliveryHandlers.add(handler);
+    return () => { this.deliveryHandlers.delete(handler); };
+  }
+
+  private emitDelivery(messageId: string, state: DeliveryState, error?: string) {
+    this.deliveryHandlers.forEach(handler => handler(messageId, state, error));
+  }
+
+  /**
+   * Runs text through the content filter under the room's policy: throws when
+   * the policy blocks it, otherwise returns what was found so readers can
+   * blur it and "flag" rooms can report it.
+   */
+  private async screen(text: string, language: string | undefined, policy: ContentPolicy): Promise<SafetyCategory[]> {
+    if (policy === 'off') return [];
+    const verdict = await checkContent(text, language || detectLanguageLocally(text));
+    if (verdict.flagged && policy === 'block') {
+      throw new Error(`Blocked by this room's content filter (${describeVerdict(verdict)})`);
+    }
+    return verdict.categories;
+  }
+
+  /**
+   * Stores the message in the outbox and tries to deliver it. The id is
+   * generated by the client, so resending after a lost response cannot
+   * create a duplicate row. Resolves with the resulting delivery state;
+   * pending messages keep retrying in the background. Text the room's
+   * content policy blocks is rejected before it reaches the outbox.
+   */
+  async sendMessage(roomId: string, message: OutgoingMessage, policy: ContentPolicy = 'off'): Promise<DeliveryState> {
+    this.rejectDuplicate(roomId, message);
+    const contentFlags = await this.screen(message.text, message.detectedLanguage, policy);
+    this.lastSent.set(roomId, { text: message.text.trim(), at: Date.now() });
+    const entry: OutboxEntry = {
+      ...message,
+      contentFlags: contentFlags.length ? contentFlags : undefined,
+      roomId,
+      createdAt: Date.now(),
+      attempts: 0,
+      state: 'pending'
+    };
+    await this.saveOutboxEntry(entry);
+    return this.deliver(entry);
+  }
+
+  /** Refuses text-only messages that repeat the last one sent to the room moments ago. */
+  private rejectDuplicate(roomId: string, message: OutgoingMessage) {
+    if (message.voice || message.attachments?.length || !message.text.trim()) return;
+    const last = this.lastSent.get(roomId);
+    if (last && last.text === message.text.trim() && Date.now() - last.at < DUPLICATE_MESSAGE_WINDOW_MS) {
+      throw new Error("You just sent the same message");
+    }
+  }
+
+  async retryMessage(messageId: string): Promise<DeliveryState> {
+    const entry = (await this.getOutbox()).find(e => e.id === messageId);
+    if (!entry) return 'sent';
+    return this.deliver({ ...entry, attempts: 0, state: 'pending', lastError: undefined });
+  }
+
+  async discardMessage(messageId: string) {
+    clearTimeout(this.retryTimers.get(messageId));
+    this.retryTimers.delete(messageId);
+    await this.removeOutboxEntry(messageId);
+  }
+
+  /** The signed-in user's unsent messages, oldest first. */
+  async getOutbox(roomId?: string): Promise<OutboxEntry[]> {
+    let entries: OutboxEntry[];
+    try {
+      entries = await idbGetAll<OutboxEntry>(STORES.outbox);
+    } catch (e) {
+      console.debug("Outbox unavailable", e);
+      entries = Array.from(this.outbox.values());
+    }
+    return entries
+      .filter(e => this.ownsEntry(e) && (!roomId || e.roomId === roomId))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async flushOutbox() {
+    const entries = await this.getOutbox();
+    for (const entry of entries) {
+      if (entry.state === 'pending') await this.deliver(entry);
+    }
+  }
+
+  private async saveOutboxEntry(entry: OutboxEntry) {
+    this.outbox.set(entry.id, entry);
+    try {
+      await idbPut(STORES.outbox, entry);
+    } catch (e) {
+      // Without IndexedDB the message is still sent, just not kept across reloads
+      console.debug("Outbox write failed", e);
+    }
+  }
+
+  private async removeOutboxEntry(messageId: string) {
+    this.outbox.delete(messageId);
+    try {
+      await idbDelete(STORES.outbox, messageId);
+    } catch (e) {
+      console.debug("Outbox delete failed", e);
+    }
+  }
+
+  private async deliver(entry: OutboxEntry): Promise<DeliveryState> {
+    // Parked until its sender signs in again
+    if (!this.ownsEntry(entry)) return 'pending';
+    if (this.delivering.has(entry.id)) return 'pending';
+    this.delivering.add(entry.id);
+    clearTimeout(this.retryTimers.get(entry.id));
+    this.retryTimers.delete(entry.id);
+    this.emitDelivery(entry.id, 'pending');
+
+    try {
+      if (!entry.detectedLanguage) {
+        // The profile language is only a hint; bilingual users write in several
+        entry.detectedLanguage = await detectMessageLanguage(entry.text, entry.senderLanguage);
+      }
+
+      const { error } = await supabase
+        .from('messages')
+        .upsert([{
+          id: entry.id,
+          room_id: entry.roomId,
+          // The database fills in the sender from the session
+          detected_language: entry.detectedLanguage,
+          text: entry.text,
+          reply_to_id: entry.replyToId || null,
+          tone: entry.tone || null,
+          voice_path: entry.voice?.path || null,
+          voice_duration_ms: entry.voice?.durationMs ?? null,
+          voice_mime_type: entry.voice?.mimeType || null,
+          mentions: entry.mentions || [],
+          content_flags: entry.contentFlags || []
+        }], { onConflict: 'id', ignoreDuplicates: true });
+
+      if (error) throw error;
+
+      if (entry.attachments?.length) {
+        const { error: attachmentError } = await supabase
+          .from('message_attachments')
+          .upsert(entry.attachments.map(a => ({
+            id: a.id,
+            message_id: entry.id,
+            room_id: entry.roomId,
+            path: a.path,
+            file_name: a.fileName,
+            mime_type: a.mimeType,
+            size_bytes: a.sizeBytes,
+            width: a.width ?? null,
+            height: a.height ?? null
+          })), { onConflict: 'id', ignoreDuplicates: true });
+
+        if (attachmentError) throw attachmentError;
+      }
+
+      await this.removeOutboxEntry(entry.id);
+      this.emitDelivery(entry.id, 'sent');
+      return 'sent';
+    } catch (error: any) {
+      console.error("Supabase Error:", error);
+      const attempts = entry.attempts + 1;
+      const waitMs = rateLimitDelay(error);
+      const retry = (waitMs !== null || isTransientError(error)) && attempts < OUTBOX_MAX_AUTO_RETRIES;
+      const updated: OutboxEntry = { ...entry, attempts, state: retry ? 'pending' : 'failed', lastError: error?.message };
+      await this.saveOutboxEntry(updated);
+
+      if (retry) {
+        const delay = waitMs ?? Math.min(OUTBOX_RETRY_BASE_MS * 2 ** (attempts - 1), OUTBOX_RETRY_MAX_MS);
+        this.retryTimers.set(entry.id, setTimeout(() => {
+          this.retryTimers.delete(entry.id);
+          this.deliver(updated);
+        }, delay));
+        // Being held back is worth telling the sender about; a flaky connection is not
+        if (waitMs !== null) this.emitDelivery(entry.id, 'pending', error.message);
+        return 'pending';
+      }
+
+      this.emitDelivery(entry.id, 'failed', error?.message);
+      return 'failed';
+    } finally {
+      this.delivering.delete(entry.id);
+    }
+  }
+
+  async editMessage(messageId: string, text: string, fallbackLanguage: string, policy: ContentPolicy = 'off') {
+    const detectedLanguage = await detectMessageLanguage(text, fallbackLanguage);
+    const contentFlags = await this.screen(text, detectedLanguage, policy);
+
+    const { data, error } = await supabase
       .from('messages')
-      .insert([{
-        room_id: roomId,
-        sender_email: message.senderEmail,
-        sender_username: message.sender,
-        sender_language: message.senderLanguage,
-        text: message.text
-      }]);
-    
+      .update({
+        text,
+        detected_language: detectedLanguage,
+        content_flags: contentFlags,
+        edited_at: new Date().toISOString()
+      })
+      .eq('id', messageId)
+      .is('deleted_at', null)
+      .select('id');
+
+    if (error) {
+      console.error("Supabase Error:", error);
+      throw error;
+    }
+    // Row-level security hides rows the user may not change instead of failing
+    if (!data?.length) throw new Error("This message can no longer be edited");
+  }
+
+  /**
+   * Soft delete: the row stays as a tombstone so replies and ordering
+   * survive. The database drops the recording and attachment rows; their
+   * files are removed here.
+   */
+  async deleteMessage(messageId: string) {
+    const [stored] = await this.fetchMessages([messageId]);
+    const { data, error } = await supabase
+      .from('messages')
+      .update({ text: '', deleted_at: new Date().toISOString() })
+      .eq('id', messageId)
+      .select('id');
+
     if (error) {
       console.error("Supabase Error:", error);
       throw error;
     }
+    if (!data?.length) throw new Error("You cannot delete this message");
+    if (stored) await mediaService.removeMessageMedia(stored);
   }
 
   broadcastSystem(event: any) {
@@ -101,26 +765,144 @@ class ChatSync {
   }
 
   async fetchHistory(roomId: string): Promise<Message[]> {
-    const { data, error } = await supabase
+    const page = await this.fetchHistoryPage(roomId);
+    return page.messages;
+  }
+
+  /**
+   * Loads one page of history, newest first. Without a cursor this is the
+   * latest page; pass the previous page's cursor to walk further back, or
+   * `upTo` to end the page at (and including) a given message.
+   * Messages in the page are returned oldest-first for display.
+   */
+  async fetchHistoryPage(
+    roomId: string,
+    before?: HistoryCursor | null,
+    limit = HISTORY_PAGE_SIZE,
+    upTo?: HistoryCursor
+  ): Promise<HistoryPage> {
+    let query = supabase
       .from('messages')
-      .select('*')
-      .eq('room_id', roomId)
-      .order('created_at', { ascending: true })
-      .limit(50);
+      .select(MESSAGE_COLUMNS)
+      .eq('room_id', roomId);
+
+    if (before) {
+      // Keyset on (created_at, id) so rows sharing a timestamp are neither skipped nor repeated
+      query = query.or(`created_at.lt.${before.createdAt},and(created_at.eq.${before.createdAt},id.lt.${before.id})`);
+    } else if (upTo) {
+      query = query.or(`created_at.lt.${upTo.createdAt},and(created_at.eq.${upTo.createdAt},id.lte.${upTo.id})`);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit + 1);
 
     if (error) {
       // Rethrow so the UI can catch PGRST205 (missing table)
       throw error;
     }
 
-    return (data || []).map(dbMsg => ({
-      id: dbMsg.id,
-      sender: dbMsg.sender_username,
-      senderEmail: dbMsg.sender_email,
-      senderLanguage: dbMsg.sender_language,
-      text: dbMsg.text,
-      timestamp: new Date(dbMsg.created_at).getTime()
-    }));
+    const rows = data || [];
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const oldest = pageRows[pageRows.length - 1];
+
+    return {
+      messages: pageRows.reverse().map(toMessage),
+      cursor: oldest ? { createdAt: oldest.created_at, id: oldest.id } : before || null,
+      hasMore
+    };
+  }
+
+  /**
+   * Loads the history page that contains an older message: up to half a page
+   * on each side of it. The cursor continues backwards as usual; `hasNewer`
+   * tells whether the gap to the latest messages still has to be loaded.
+   */
+  async fetchHistoryAround(roomId: string, messageId: string, limit = HISTORY_PAGE_SIZE): Promise<HistoryPage> {
+    const { data: target, error: targetError } = await supabase
+      .from('messages')
+      .select('id, created_at')
+      .eq('id', messageId)
+      .eq('room_id', roomId)
+      .single();
+
+    if (targetError) throw targetError;
+
+    const half = Math.ceil(limit / 2);
+    const [{ data: later, error: laterError }, older] = await Promise.all([
+      supabase
+        .from('messages')
+        .select(MESSAGE_COLUMNS)
+        .eq('room_id', roomId)
+        .or(`created_at.gt.${target.created_at},and(created_at.eq.${target.created_at},id.gt.${target.id})`)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(half + 1),
+      // The page ending just after the target includes the target itself
+      this.fetchHistoryPage(roomId, null, half, { createdAt: target.created_at, id: target.id })
+    ]);
+
+    if (laterError) throw laterError;
+
+    const laterRows = later || [];
+    return {
+      messages: [...older.messages, ...laterRows.slice(0, half).map(toMessage)],
+      cursor: older.cursor,
+      hasMore: older.hasMore,
+      hasNewer: laterRows.length > half
+    };
+  }
+
+  /** Full-text search over message text and shared translations, newest first. */
+  async searchMessages(filters: SearchFilters, limit = SEARCH_RESULT_LIMIT): Promise<SearchResult[]> {
+    const { data, error } = await supabase.rpc('search_messages', {
+      search_query: filters.query,
+      target_room: filters.roomId || null,
+      sender: filters.senderEmail || null,
+      message_language: filters.language || null,
+      created_after: filters.from ? new Date(filters.from).toISOString() : null,
+      created_before: filters.to ? new Date(filters.to).toISOString() : null,
+      result_limit: limit
+    });
+
+    if (error) throw error;
+    const rows: any[] = data || [];
+    const messages = new Map((await this.fetchMessages(rows.map(r => r.message_id))).map(m => [m.id, m]));
+
+    return rows
+      .filter(r => messages.has(r.message_id))
+      .map(r => ({
+        message: messages.get(r.message_id)!,
+        ...(r.translation_language ? { translation: { language: r.translation_language, text: r.translated_text } } : {})
+      }));
+  }
+
+  /** Loads specific messages, e.g. reply parents older than the loaded history. */
+  async fetchMessages(messageIds: string[]): Promise<Message[]> {
+    if (messageIds.length === 0) return [];
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .in('id', messageIds);
+
+    if (error) throw error;
+    return (data || []).map(toMessage);
+  }
+
+  /** Latest messages that mention the user, across all rooms, newest first. */
+  async fetchMentions(email: string, limit: number): Promise<Message[]> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_COLUMNS)
+      .contains('mentions', JSON.stringify([{ email }]))
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toMessage);
   }
 }
 
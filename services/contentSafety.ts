@@ -0,0 +1,53 @@
+import { DEFAULT_CONTENT_SAFETY_PROVIDER } from "../constants";
+import { ContentSafetyProvider, SafetyVerdict } from "../types";
+import { localContentSafetyProvider } from "./localContentSafetyService";
+
+/**
+ * Registry of content filters, mirroring the translation provider registry.
+ * The active one is chosen with CONTENT_SAFETY_PROVIDER and can be swapped
+ * at runtime; the built-in "local" keyword filter needs no network.
+ */
+const providers = new Map<string, ContentSafetyProvider>([
+  [localContentSafetyProvider.id, localContentSafetyProvider],
+]);
+
+let activeProviderId = process.env.CONTENT_SAFETY_PROVIDER || DEFAULT_CONTENT_SAFETY_PROVIDER;
+
+export const registerContentSafetyProvider = (provider: ContentSafetyProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const setContentSafetyProvider = (id: string) => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown content safety provider: ${id}`);
+  }
+  activeProviderId = id;
+};
+
+export const getContentSafetyProvider = (): ContentSafetyProvider => {
+  const provider = providers.get(activeProviderId);
+  if (!provider) {
+    console.warn(`JERI Warning: content safety provider "${activeProviderId}" is not registered, falling back to "${DEFAULT_CONTENT_SAFETY_PROVIDER}".`);
+    return providers.get(DEFAULT_CONTENT_SAFETY_PROVIDER)!;
+  }
+  return provider;
+};
+
+const CLEAN: SafetyVerdict = { flagged: false, categories: [], matches: [] };
+
+/**
+ * Checks text with the active provider. A provider that fails lets the text
+ * through, so an outage never stops people from chatting.
+ */
+export const checkContent = async (text: string, language?: string): Promise<SafetyVerdict> => {
+  if (!text.trim()) return CLEAN;
+  try {
+    return await getContentSafetyProvider().check(text, language);
+  } catch (e) {
+    console.error("Content safety check failed", e);
+    return CLEAN;
+  }
+};
+
+/** Label for a verdict's categories, e.g. "profanity, insult". */
+export const describeVerdict = (verdict: Pick<SafetyVerdict, 'categories'>) => verdict.categories.join(', ');
@@ -0,0 +1,91 @@
+import { Friendship, User } from '../types';
+import { supabase } from './supabase';
+
+const toFriendship = (row: any): Friendship => ({
+  id: row.id,
+  requesterEmail: row.requester_email,
+  requesterUsername: row.requester_username,
+  addresseeEmail: row.addressee_email,
+  addresseeUsername: row.addressee_username,
+  status: row.status,
+  createdAt: new Date(row.created_at).getTime()
+});
+
+/** The other person in a friendship, from `email`'s point of view. */
+export const friendOf = (friendship: Friendship, email: string) =>
+  friendship.requesterEmail === email
+    ? { email: friendship.addresseeEmail, username: friendship.addresseeUsername }
+    : { email: friendship.requesterEmail, username: friendship.requesterUsername };
+
+/**
+ * Room id for a direct conversation. Both sides derive the same id from the
+ * pair of emails, regardless of who opens it.
+ */
+export const directRoomId = async (emailA: string, emailB: string): Promise<string> => {
+  const pair = [emailA.toLowerCase(), emailB.toLowerCase()].sort().join('|');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(pair));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `DM-${hex.slice(0, 16).toUpperCase()}`;
+};
+
+class FriendService {
+  /** A member's profile id and name by email or username; their email is never returned. */
+  async findUser(identifier: string): Promise<{ id: string; username: string } | null> {
+    const { data, error } = await supabase.rpc('find_user', { identifier: identifier.trim() });
+    if (error) throw error;
+    return data?.[0] || null;
+  }
+
+  async listFriendships(): Promise<Friendship[]> {
+    // Row-level security limits this to rows involving the signed-in user
+    const { data, error } = await supabase
+      .from('friendships')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toFriendship);
+  }
+
+  async sendRequest(from: User, identifier: string): Promise<Friendship> {
+    const target = await this.findUser(identifier);
+    if (!target) {
+      throw new Error(`No user found for "${identifier}"`);
+    }
+    if (target.id === from.id) {
+      throw new Error("You cannot add yourself");
+    }
+
+    // The database fills in both addresses from the profile ids
+    const { data, error } = await supabase.rpc('send_friend_request', { target_user: target.id });
+
+    if (error) {
+      // Unique pair index: a request already exists in one direction or the other
+      if (error.code === '23505') throw new Error(`You and ${target.username} are already connected or have a pending request`);
+      throw error;
+    }
+    if (!data?.[0]) throw new Error(`No user found for "${identifier}"`);
+    return toFriendship(data[0]);
+  }
+
+  async accept(friendshipId: string): Promise<void> {
+    const { error } = await supabase
+      .from('friendships')
+      .update({ status: 'accepted', responded_at: new Date().toISOString() })
+      .eq('id', friendshipId);
+
+    if (error) throw error;
+  }
+
+  /** Declines, cancels or unfriends; the pair can send a new request afterwards. */
+  async remove(friendshipId: string): Promise<void> {
+    const { error } = await supabase
+      .from('friendships')
+      .delete()
+      .eq('id', friendshipId);
+
+    if (error) throw error;
+  }
+}
+
+export const friendService = new FriendService();
@@ -1,33 +1,71 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { GEMINI_MODEL, SUPPORTED_LANGUAGES, UNKNOWN_LANGUAGE } from "../constants";
+import { LanguagePair, Transcript, TranscriptionProvider, TranslationHints, TranslationProvider, TranslationRequest } from "../types";
 
-import { GoogleGenAI } from "@google/genai";
-import { GEMINI_MODEL } from "../constants";
+const languageName = (code: string) =>
+  SUPPORTED_LANGUAGES.find(l => l.code === code)?.name || code;
 
-export const translateText = async (
-  text: string,
-  targetLanguage: string,
-  sourceLanguage?: string
-): Promise<string> => {
+// Extra prompt guidelines for the reader's register and the sender's tone
+const styleGuidelines = ({ formality, tone }: TranslationHints = {}) => {
+  const lines: string[] = [];
+  if (formality === 'formal') {
+    lines.push('- Address the reader formally where the language distinguishes it (e.g. Sie in German, vous in French, usted in Spanish, keigo in Japanese).');
+  }
+  if (formality === 'informal') {
+    lines.push('- Address the reader informally where the language distinguishes it (e.g. du in German, tu in French and Spanish, plain form in Japanese).');
+  }
+  if (tone) {
+    lines.push(`- The sender wants this message to come across as ${tone}; keep that tone.`);
+  }
+  return lines.join('\n      ');
+};
+
+// One client shared by the translation and transcription providers
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
   if (!process.env.API_KEY) {
     throw new Error("API key is missing");
   }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+class GeminiTranslationProvider implements TranslationProvider {
+  readonly id = 'gemini';
+
+  async translate(text: string, targetLanguage: string, sourceLanguage?: string, hints?: TranslationHints): Promise<string> {
+    const ai = getClient();
+    const targetName = languageName(targetLanguage);
+    const sourceName = sourceLanguage ? languageName(sourceLanguage) : undefined;
+
+    const prompt = `
+      You are a professional translator. Translate the following text into ${targetName}.
+      ${sourceName ? `The source language is ${sourceName}.` : "Detect the source language automatically."}
+
+      Guidelines:
+      - Maintain the original tone and intent (formal, informal, slang, etc.).
+      - Preserve any emojis.
+      - Keep placeholders such as ⟦0⟧ exactly as written; they stand for protected terms, code, links or mentions.
+      - Keep Markdown formatting (**bold**, *italics*, [link text](...), list markers, line breaks) around the translated words.
+      - If the text is already in ${targetName}, return the original text.
+      - Return ONLY the translated text. Do not include any explanations or metadata.
+      ${styleGuidelines(hints)}
+
+      Text to translate:
+      "${text}"
+    `;
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const prompt = `
-    You are a professional translator. Translate the following text into ${targetLanguage}.
-    ${sourceLanguage ? `The source language is ${sourceLanguage}.` : "Detect the source language automatically."}
-    
-    Guidelines:
-    - Maintain the original tone and intent (formal, informal, slang, etc.).
-    - Preserve any emojis.
-    - If the text is already in ${targetLanguage}, return the original text.
-    - Return ONLY the translated text. Do not include any explanations or metadata.
-    
-    Text to translate:
-    "${text}"
-  `;
-
-  try {
     const response = await ai.models.generateContent({
       model: GEMINI_MODEL,
       contents: prompt,
@@ -40,8 +78,179 @@ export const translateText = async (
     });
 
     return response.text?.trim() || text;
-  } catch (error) {
-    console.error("Translation error:", error);
-    return text; // Fallback to original text on error
   }
+
+  async translateBatch(requests: TranslationRequest[], targetLanguage: string, hints: TranslationHints = {}): Promise<string[]> {
+    if (requests.length === 1) {
+      return [await this.translate(requests[0].text, targetLanguage, requests[0].sourceLanguage, { ...hints, tone: requests[0].tone })];
+    }
+
+    const ai = getClient();
+    const targetName = languageName(targetLanguage);
+    const items = requests.map((r, index) => ({
+      index,
+      source: r.sourceLanguage ? languageName(r.sourceLanguage) : 'auto-detect',
+      ...(r.tone ? { tone: r.tone } : {}),
+      text: r.text
+    }));
+
+    const prompt = `
+      You are a professional translator. Translate each item of the JSON array below into ${targetName}.
+
+      Guidelines:
+      - Maintain the original tone and intent (formal, informal, slang, etc.).
+      - Preserve any emojis.
+      - Keep placeholders such as ⟦0⟧ exactly as written; they stand for protected terms, code, links or mentions.
+      - Keep Markdown formatting (**bold**, *italics*, [link text](...), list markers, line breaks) around the translated words.
+      - If an item is already in ${targetName}, return its original text.
+      - Translate every item independently and keep the input order.
+      - Where an item has a "tone", the sender wants it to come across that way; keep that tone.
+      ${styleGuidelines({ formality: hints.formality })}
+      - Return a JSON array of strings with exactly ${items.length} entries and nothing else.
+
+      Items:
+      ${JSON.stringify(items)}
+    `;
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        temperature: 0.1,
+        maxOutputTokens: 1000 * items.length,
+        thinkingConfig: { thinkingBudget: 500 },
+        responseMimeType: 'application/json',
+        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+      }
+    });
+
+    const translations = JSON.parse(response.text || '[]');
+    if (!Array.isArray(translations) || translations.length !== requests.length) {
+      throw new Error(`Batch translation returned ${translations?.length ?? 0} of ${requests.length} items`);
+    }
+    return translations.map((t: string, i: number) => t?.trim() || requests[i].text);
+  }
+
+  async detectLanguage(text: string): Promise<string> {
+    const ai = getClient();
+    const codes = SUPPORTED_LANGUAGES.map(l => l.code).join(', ');
+
+    const prompt = `
+      Identify the language of the following text.
+      Answer with exactly one ISO 639-1 code from this list: ${codes}.
+      If it is none of these or you cannot tell, answer "${UNKNOWN_LANGUAGE}".
+
+      Text:
+      "${text}"
+    `;
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        temperature: 0,
+        maxOutputTokens: 200,
+        thinkingConfig: { thinkingBudget: 100 },
+      }
+    });
+
+    const code = response.text?.trim().toLowerCase() || '';
+    return SUPPORTED_LANGUAGES.some(l => l.code === code) ? code : UNKNOWN_LANGUAGE;
+  }
+
+  async getSupportedPairs(): Promise<LanguagePair[]> {
+    // The model can translate between any two of our supported languages
+    return SUPPORTED_LANGUAGES.flatMap(source =>
+      SUPPORTED_LANGUAGES
+        .filter(target => target.code !== source.code)
+        .map(target => ({ source: source.code, target: target.code }))
+    );
+  }
+}
+
+export const geminiProvider = new GeminiTranslationProvider();
+
+const TRANSCRIPT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: { text: { type: Type.STRING }, language: { type: Type.STRING } },
+  required: ['text', 'language'],
 };
+
+const parseTranscript = (json: string | undefined): Transcript => {
+  const result = JSON.parse(json || '{}');
+  const language = String(result.language || '').toLowerCase();
+  return {
+    text: String(result.text || '').trim(),
+    language: SUPPORTED_LANGUAGES.some(l => l.code === language) ? language : undefined
+  };
+};
+
+class GeminiTranscriptionProvider implements TranscriptionProvider {
+  readonly id = 'gemini';
+
+  async transcribe(audio: Blob, languageHint?: string): Promise<Transcript> {
+    const ai = getClient();
+    const codes = SUPPORTED_LANGUAGES.map(l => l.code).join(', ');
+
+    const prompt = `
+      Transcribe this voice message word for word in the language it is spoken in. Do not translate it.
+      ${languageHint ? `The speaker usually speaks ${languageName(languageHint)}.` : ""}
+      Also give the spoken language as one ISO 639-1 code from this list: ${codes}, or "${UNKNOWN_LANGUAGE}" if unsure.
+      If there is no speech, return an empty transcript.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType: audio.type || 'audio/webm', data: await blobToBase64(audio) } },
+          { text: prompt }
+        ]
+      }],
+      config: {
+        temperature: 0,
+        maxOutputTokens: 4000,
+        thinkingConfig: { thinkingBudget: 500 },
+        responseMimeType: 'application/json',
+        responseSchema: TRANSCRIPT_SCHEMA,
+      }
+    });
+
+    return parseTranscript(response.text);
+  }
+
+  async readImageText(image: Blob): Promise<Transcript> {
+    const ai = getClient();
+    const codes = SUPPORTED_LANGUAGES.map(l => l.code).join(', ');
+
+    const prompt = `
+      Read all text visible in this image, such as signs, menus, screenshots or documents.
+      Keep the original language and line breaks. Do not translate or describe the image.
+      Also give the main language of the text as one ISO 639-1 code from this list: ${codes}, or "${UNKNOWN_LANGUAGE}" if unsure.
+      If there is no text, return an empty text.
+    `;
+
+    const response = await ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{
+        role: 'user',
+        parts: [
+          { inlineData: { mimeType: image.type || 'image/png', data: await blobToBase64(image) } },
+          { text: prompt }
+        ]
+      }],
+      config: {
+        temperature: 0,
+        maxOutputTokens: 4000,
+        thinkingConfig: { thinkingBudget: 500 },
+        responseMimeType: 'application/json',
+        responseSchema: TRANSCRIPT_SCHEMA,
+      }
+    });
+
+    return parseTranscript(response.text);
+  }
+}
+
+export const geminiTranscriptionProvider = new GeminiTranscriptionProvider();
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { GlossaryEntry } from '../types';
+import { glossaryFor, glossarySignature, protectTerms } from './glossary';
+
+const entry = (term: string, translation?: string, targetLanguage?: string): GlossaryEntry =>
+  ({ id: term, term, translation, targetLanguage });
+
+describe('glossaryFor', () => {
+  it('keeps untranslated terms and the translations into the target language', () => {
+    const entries = [entry('Jeri'), entry('lobby', 'vestíbulo', 'es'), entry('lobby', 'Foyer', 'de')];
+    expect(glossaryFor(entries, 'es').map(e => e.translation)).toEqual([undefined, 'vestíbulo']);
+  });
+
+  it('lets later entries override earlier ones for the same term', () => {
+    const entries = [entry('Lobby', 'sala', 'es'), entry('lobby', 'vestíbulo', 'es')];
+    expect(glossaryFor(entries, 'es')).toEqual([entries[1]]);
+  });
+
+  it('skips blank terms', () => {
+    expect(glossaryFor([entry('  ')], 'es')).toEqual([]);
+  });
+});
+
+describe('glossarySignature', () => {
+  it('does not depend on entry order or term case', () => {
+    expect(glossarySignature([entry('A', 'x'), entry('b')])).toBe(glossarySignature([entry('B'), entry('a', 'x')]));
+  });
+
+  it('changes with a translation', () => {
+    expect(glossarySignature([entry('a', 'x')])).not.toBe(glossarySignature([entry('a', 'y')]));
+  });
+});
+
+describe('protectTerms', () => {
+  it('leaves text alone without entries', () => {
+    const result = protectTerms('Hello Jeri', []);
+    expect(result.text).toBe('Hello Jeri');
+    expect(result.restore('Hola Jeri')).toBe('Hola Jeri');
+  });
+
+  it('swaps terms for placeholders and restores their renderings', () => {
+    const result = protectTerms('Welcome to the lobby, Jeri fans', [entry('lobby', 'vestíbulo', 'es'), entry('Jeri')]);
+    expect(result.text).toBe('Welcome to the ⟦0⟧, ⟦1⟧ fans');
+    expect(result.restore('Bienvenidos al ⟦0⟧, fans de ⟦1⟧')).toBe('Bienvenidos al vestíbulo, fans de Jeri');
+  });
+
+  it('matches the longest term first', () => {
+    const result = protectTerms('Jeri Chat by Jeri', [entry('Jeri'), entry('Jeri Chat')]);
+    expect(result.text).toBe('⟦0⟧ by ⟦1⟧');
+    expect(result.restore(result.text)).toBe('Jeri Chat by Jeri');
+  });
+
+  it('only matches whole words, in any case, keeping the original spelling', () => {
+    const result = protectTerms('JERI and Jerico', [entry('jeri')]);
+    expect(result.text).toBe('⟦0⟧ and Jerico');
+    expect(result.restore('⟦0⟧ y Jerico')).toBe('JERI y Jerico');
+  });
+
+  it('numbers after placeholders already in the text', () => {
+    const result = protectTerms('⟦0⟧ Jeri', [entry('Jeri')], 1);
+    expect(result.text).toBe('⟦0⟧ ⟦1⟧');
+    expect(result.restore('⟦0⟧ ⟦1⟧')).toBe('⟦0⟧ Jeri');
+  });
+
+  it('copes with spaces the provider put inside the brackets', () => {
+    const result = protectTerms('Jeri', [entry('Jeri')]);
+    expect(result.restore('⟦ 0 ⟧')).toBe('Jeri');
+  });
+
+  it('escapes terms that contain pattern characters', () => {
+    const result = protectTerms('Use C++ here', [entry('C++')]);
+    expect(result.text).toBe('Use ⟦0⟧ here');
+  });
+});
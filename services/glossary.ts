@@ -0,0 +1,59 @@
+import { GlossaryEntry } from '../types';
+
+export const placeholder = (index: number) => `⟦${index}⟧`;
+
+// Providers sometimes add spaces inside the brackets
+export const PLACEHOLDER_PATTERN = /⟦\s*(\d+)\s*⟧/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The entries that apply when translating into `targetLanguage`, one per
+ * term. Later entries override earlier ones, so pass room entries before
+ * personal ones.
+ */
+export const glossaryFor = (entries: GlossaryEntry[], targetLanguage: string): GlossaryEntry[] => {
+  const byTerm = new Map<string, GlossaryEntry>();
+  entries
+    .filter(e => e.term.trim() && (!e.translation || e.targetLanguage === targetLanguage))
+    .forEach(e => byTerm.set(e.term.trim().toLowerCase(), e));
+  return Array.from(byTerm.values());
+};
+
+/** Stable description of a glossary, for use in translation fingerprints. */
+export const glossarySignature = (entries: GlossaryEntry[]): string =>
+  entries
+    .map(e => `${e.term.trim().toLowerCase()}\u0001${e.translation || ''}`)
+    .sort()
+    .join('\u0002');
+
+/**
+ * Swaps glossary terms for numbered placeholders the translator leaves
+ * alone. `restore` puts the terms back into the translated text, using the
+ * glossary's rendering where there is one and the original spelling
+ * otherwise. Numbering starts at `firstIndex` so the text can already hold
+ * other placeholders.
+ */
+export const protectTerms = (text: string, entries: GlossaryEntry[], firstIndex = 0) => {
+  if (entries.length === 0) return { text, restore: (translated: string) => translated };
+
+  // Longest first so "Jeri Chat" is matched before "Jeri"
+  const sorted = [...entries].sort((a, b) => b.term.trim().length - a.term.trim().length);
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${sorted.map(e => escapeRegExp(e.term.trim())).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+
+  const replacements: string[] = [];
+  const protectedText = text.replace(pattern, match => {
+    const entry = sorted.find(e => e.term.trim().toLowerCase() === match.toLowerCase());
+    replacements.push(entry?.translation || match);
+    return placeholder(firstIndex + replacements.length - 1);
+  });
+
+  return {
+    text: protectedText,
+    restore: (translated: string) =>
+      translated.replace(PLACEHOLDER_PATTERN, (token, index) => replacements[Number(index) - firstIndex] ?? token)
+  };
+};
@@ -0,0 +1,63 @@
+import { GlossaryEntry } from '../types';
+import { supabase } from './supabase';
+
+const toEntry = (row: any): GlossaryEntry => ({
+  id: row.id,
+  roomId: row.room_id || undefined,
+  ownerEmail: row.owner_email || undefined,
+  term: row.term,
+  translation: row.translation || undefined,
+  targetLanguage: row.target_language || undefined
+});
+
+class GlossaryService {
+  async listRoomEntries(roomId: string): Promise<GlossaryEntry[]> {
+    const { data, error } = await supabase
+      .from('glossary_entries')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('term');
+
+    if (error) throw error;
+    return (data || []).map(toEntry);
+  }
+
+  async listPersonalEntries(email: string): Promise<GlossaryEntry[]> {
+    const { data, error } = await supabase
+      .from('glossary_entries')
+      .select('*')
+      .eq('owner_email', email)
+      .order('term');
+
+    if (error) throw error;
+    return (data || []).map(toEntry);
+  }
+
+  async addEntry(entry: Omit<GlossaryEntry, 'id'>): Promise<GlossaryEntry> {
+    const { data, error } = await supabase
+      .from('glossary_entries')
+      .insert([{
+        room_id: entry.roomId || null,
+        owner_email: entry.ownerEmail || null,
+        term: entry.term.trim(),
+        translation: entry.translation?.trim() || null,
+        target_language: entry.translation?.trim() ? entry.targetLanguage : null
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return toEntry(data);
+  }
+
+  async removeEntry(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('glossary_entries')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const glossaryService = new GlossaryService();
@@ -0,0 +1,63 @@
+import { User as AuthUser } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+// Where guests were kept before they had real sessions
+const LEGACY_GUEST_KEY = 'jeri_guest_user';
+
+/**
+ * A guest's address in email-keyed tables, derived from their auth user id
+ * exactly as the database does in public.auth_email().
+ */
+export const guestEmail = (userId: string) => `guest-${userId}@jeri.chat`;
+
+export const isGuestUser = (authUser: AuthUser) => !!authUser.is_anonymous;
+
+/**
+ * Guests are anonymous Supabase users: a real session with a server-checked
+ * id, just no email or password. Upgrading attaches an email to the same
+ * user, so everything the guest did stays theirs.
+ */
+class GuestService {
+  async start(username: string, preferredLanguage: string) {
+    const { error } = await supabase.auth.signInAnonymously({
+      options: { data: { username, preferredLanguage } }
+    });
+    if (error) throw error;
+  }
+
+  /**
+   * Moves a guest saved by an older version of the app onto an anonymous
+   * session, keeping their name and language. Messages sent under the old
+   * made-up address stay attributed to it. Returns whether there was one.
+   */
+  async restoreLegacyGuest(): Promise<boolean> {
+    const saved = localStorage.getItem(LEGACY_GUEST_KEY);
+    if (!saved) return false;
+    try {
+      const { username, preferredLanguage } = JSON.parse(saved);
+      await this.start(username, preferredLanguage);
+      localStorage.removeItem(LEGACY_GUEST_KEY);
+      return true;
+    } catch (e) {
+      console.error("Restoring the saved guest failed", e);
+      return false;
+    }
+  }
+
+  /**
+   * Sends a confirmation link to `email`. Once it is followed the guest is a
+   * full member and the database moves their rooms and history to the new
+   * address; they then choose a password.
+   */
+  async upgrade(email: string) {
+    const { error } = await supabase.auth.updateUser({ email: email.trim(), data: { needsPassword: true } });
+    if (error) throw error;
+  }
+
+  async setPassword(password: string) {
+    const { error } = await supabase.auth.updateUser({ password, data: { needsPassword: null } });
+    if (error) throw error;
+  }
+}
+
+export const guestService = new GuestService();
@@ -0,0 +1,61 @@
+import { UNKNOWN_LANGUAGE } from '../constants';
+import { Message } from '../types';
+
+// Scripts that identify a single supported language on their own
+const SCRIPT_PATTERNS: [string, RegExp][] = [
+  ['ja', /[\u3040-\u30ff]/g],
+  ['ko', /[\uac00-\ud7af\u1100-\u11ff]/g],
+  ['zh', /[\u4e00-\u9fff]/g],
+  ['ru', /[\u0400-\u04ff]/g],
+  ['ar', /[\u0600-\u06ff]/g],
+  ['hi', /[\u0900-\u097f]/g],
+];
+
+// Frequent short words and telltale letters for Latin-script languages
+const LATIN_HINTS: Record<string, { words: string[]; letters?: RegExp }> = {
+  en: { words: ['the', 'and', 'is', 'are', 'you', 'to', 'of', 'it', 'this', 'that', 'what', 'hello', 'thanks', 'i', 'my', 'with'] },
+  es: { words: ['el', 'la', 'los', 'las', 'que', 'y', 'es', 'de', 'en', 'por', 'para', 'hola', 'gracias', 'yo', 'pero', 'muy'], letters: /[ñ¿¡]/g },
+  fr: { words: ['le', 'la', 'les', 'et', 'est', 'je', 'tu', 'vous', 'de', 'des', 'une', 'bonjour', 'merci', 'pas', 'avec', 'pour'], letters: /[çœèêàù]/g },
+  de: { words: ['der', 'die', 'das', 'und', 'ist', 'ich', 'du', 'nicht', 'ein', 'eine', 'mit', 'hallo', 'danke', 'sie', 'wir', 'auch'], letters: /[äöüß]/g },
+  it: { words: ['il', 'lo', 'gli', 'che', 'e', 'è', 'di', 'non', 'un', 'una', 'ciao', 'grazie', 'sono', 'per', 'come', 'anche'] },
+  pt: { words: ['o', 'os', 'as', 'que', 'e', 'é', 'de', 'não', 'um', 'uma', 'olá', 'obrigado', 'obrigada', 'você', 'com', 'para'], letters: /[ãõ]/g },
+  nl: { words: ['de', 'het', 'een', 'en', 'is', 'ik', 'je', 'niet', 'van', 'dat', 'hallo', 'dank', 'wij', 'zijn', 'met', 'ook'], letters: /ij/g },
+  tr: { words: ['bir', 've', 'bu', 'ne', 'ben', 'sen', 'merhaba', 'teşekkürler', 'evet', 'hayır', 'için', 'çok', 'değil', 'var', 'yok', 'gibi'], letters: /[ğışİ]/g },
+  vi: { words: ['và', 'là', 'của', 'không', 'có', 'tôi', 'bạn', 'xin', 'chào', 'cảm', 'ơn', 'một', 'được', 'này', 'với', 'cho'], letters: /[ơưđạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/g },
+};
+
+const MIN_LETTERS = 2;
+
+/**
+ * Offline language guess based on writing system and common words.
+ * Returns UNKNOWN_LANGUAGE when the text gives too little to go on.
+ */
+export const detectLanguageLocally = (text: string): string => {
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  if (letters.length < MIN_LETTERS) return UNKNOWN_LANGUAGE;
+
+  // Kana beats Han so Japanese with kanji is not read as Chinese
+  const scriptCounts = SCRIPT_PATTERNS.map(([code, pattern]) => [code, text.match(pattern)?.length || 0] as const);
+  const japanese = scriptCounts.find(([code]) => code === 'ja')!;
+  if (japanese[1] > 0) return 'ja';
+  const [bestScript, bestScriptCount] = scriptCounts.reduce((a, b) => (b[1] > a[1] ? b : a));
+  if (bestScriptCount * 2 >= letters.length) return bestScript;
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let best = UNKNOWN_LANGUAGE;
+  let bestScore = 0;
+  Object.entries(LATIN_HINTS).forEach(([code, hints]) => {
+    const wordScore = words.filter(w => hints.words.includes(w)).length;
+    const letterScore = hints.letters ? (text.toLowerCase().match(hints.letters)?.length || 0) : 0;
+    const score = wordScore * 2 + letterScore;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/** The language a message's text is actually written in. */
+export const messageLanguage = (message: Pick<Message, 'senderLanguage' | 'detectedLanguage'>) =>
+  message.detectedLanguage || message.senderLanguage;
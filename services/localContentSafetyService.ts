@@ -0,0 +1,157 @@
+import { UNKNOWN_LANGUAGE } from "../constants";
+import { ContentSafetyProvider, SafetyCategory, SafetyVerdict } from "../types";
+
+/**
+ * Offensive words and phrases by category. A trailing "*" matches any word
+ * starting with the stem; phrases match consecutive words.
+ */
+export type KeywordList = Partial<Record<SafetyCategory, string[]>>;
+
+// Deliberately short starting lists; rooms with other needs extend them with addKeywords
+const DEFAULT_KEYWORDS: Record<string, KeywordList> = {
+  en: {
+    profanity: ['fuck*', 'motherfuck*', 'shit', 'shitty', 'bullshit', 'bitch*', 'asshole*', 'bastard*', 'cunt*', 'dickhead*'],
+    insult: ['idiot*', 'moron*', 'retard*', 'dumbass*', 'loser*'],
+    violence: ['kill yourself', 'kys', 'i will kill you', 'i will find you'],
+    sexual: ['porn*', 'send nudes'],
+    hate: ['heil hitler', 'go back to your country'],
+  },
+  es: {
+    profanity: ['mierda', 'joder', 'puta*', 'coño', 'cabrón*', 'gilipolla*'],
+    insult: ['idiota*', 'imbécil*', 'estúpid*', 'pendej*'],
+    violence: ['te voy a matar', 'mátate'],
+  },
+  fr: {
+    profanity: ['merde', 'putain', 'connard*', 'connasse*', 'salope*', 'enculé*', 'ta gueule', 'nique ta mère'],
+    insult: ['abruti*', 'débile*', 'crétin*'],
+    violence: ['je vais te tuer', 'va te tuer'],
+  },
+  de: {
+    profanity: ['scheiss*', 'arschloch*', 'fotze*', 'wichser*', 'hurensohn*', 'fick dich'],
+    insult: ['idiot*', 'vollidiot*', 'depp*'],
+    violence: ['ich bring dich um', 'bring dich um'],
+  },
+  it: {
+    profanity: ['cazzo', 'merda', 'vaffanculo', 'stronz*', 'puttana*', 'coglion*'],
+    insult: ['idiota', 'cretino*', 'deficiente*'],
+    violence: ['ti ammazzo'],
+  },
+  pt: {
+    profanity: ['porra', 'caralho', 'merda', 'puta*', 'foda se'],
+    insult: ['idiota*', 'otário*', 'imbecil*'],
+    violence: ['vou te matar'],
+  },
+  nl: {
+    profanity: ['kut*', 'klootzak*', 'godverdomme', 'tering*'],
+    insult: ['idioot*', 'sukkel*'],
+    violence: ['ik maak je dood'],
+  },
+  tr: {
+    profanity: ['siktir*', 'orospu*', 'amk', 'piç*'],
+    insult: ['aptal*', 'salak*', 'gerizekalı*'],
+    violence: ['seni öldüreceğim'],
+  },
+  ru: {
+    profanity: ['блять', 'бля', 'хуй*', 'пизд*', 'сука*', 'ебать*'],
+    insult: ['идиот*', 'дурак*', 'дебил*'],
+    violence: ['я тебя убью'],
+  },
+  ar: {
+    profanity: ['يلعن', 'شرموط*'],
+    insult: ['حقير', 'غبي'],
+    violence: ['سأقتلك'],
+  },
+  hi: {
+    profanity: ['मादरचोद', 'चूतिया', 'हरामी'],
+    insult: ['कमीना', 'बेवकूफ'],
+    violence: ['मार डालूंगा'],
+  },
+  vi: {
+    profanity: ['địt', 'đụ má', 'đéo'],
+    insult: ['đồ ngu', 'thằng ngu'],
+    violence: ['tao giết mày'],
+  },
+  ja: {
+    profanity: ['くそ', 'クソ', 'ちくしょう'],
+    insult: ['ばか', 'バカ', 'アホ', 'ブス'],
+    violence: ['死ね', '殺す'],
+  },
+  zh: {
+    profanity: ['他妈的', '操你', '傻逼', '妈的'],
+    insult: ['混蛋', '白痴', '废物'],
+    violence: ['去死', '杀了你'],
+  },
+  ko: {
+    profanity: ['씨발', '시발', '개새끼', '병신', '좆'],
+    insult: ['멍청이', '바보'],
+    violence: ['죽어', '죽여버린다'],
+  },
+};
+
+// Languages written without spaces between words; their keywords match anywhere
+const UNSPACED_LANGUAGES = ['ja', 'zh', 'ko'];
+
+// Digits and symbols commonly swapped for letters to get past filters
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase().replace(/ß/g, 'ss');
+
+const words = (text: string) => (normalize(text).match(/[\p{L}\p{M}\p{N}@$]+/gu) || [])
+  .map(word => /\p{L}/u.test(word) ? word.replace(/[0134570@$]/g, c => LOOKALIKES[c]) : word)
+  // "fuuuuck": three or more of a letter count as one; doubles are real spelling
+  .map(word => word.replace(/(.)\1{2,}/gu, '$1'));
+
+const wordMatches = (word: string, keyword: string) =>
+  keyword.endsWith('*') ? word.startsWith(keyword.slice(0, -1)) : word === keyword;
+
+const phraseAt = (text: string[], phrase: string[], start: number) =>
+  phrase.every((keyword, i) => text[start + i] !== undefined && wordMatches(text[start + i], keyword));
+
+/**
+ * Content filter that works offline: looks the text up in keyword lists for
+ * each supported language. Messages are checked against the list for their
+ * language and the English one, since English swearing turns up everywhere;
+ * when the language is unknown every list is used. It knows nothing about
+ * context, so it is a first line of defence for moderators, not a judge.
+ */
+class LocalContentSafetyProvider implements ContentSafetyProvider {
+  readonly id = 'local';
+
+  constructor(private lists: Record<string, KeywordList> = DEFAULT_KEYWORDS) {}
+
+  addKeywords(language: string, keywords: KeywordList) {
+    const list = { ...this.lists[language] };
+    (Object.entries(keywords) as [SafetyCategory, string[]][]).forEach(([category, added]) => {
+      list[category] = [...(list[category] || []), ...added.map(normalize)];
+    });
+    this.lists = { ...this.lists, [language]: list };
+  }
+
+  async check(text: string, language?: string): Promise<SafetyVerdict> {
+    const languages = language && language !== UNKNOWN_LANGUAGE && this.lists[language]
+      ? Array.from(new Set([language, 'en']))
+      : Object.keys(this.lists);
+    const textWords = words(text);
+    const unspaced = normalize(text);
+    const categories = new Set<SafetyCategory>();
+    const matches = new Set<string>();
+
+    languages.forEach(code => {
+      (Object.entries(this.lists[code]) as [SafetyCategory, string[]][]).forEach(([category, keywords]) => {
+        keywords.forEach(keyword => {
+          const found = UNSPACED_LANGUAGES.includes(code)
+            ? unspaced.includes(keyword)
+            : textWords.some((_, i) => phraseAt(textWords, keyword.split(' '), i));
+          if (found) {
+            categories.add(category);
+            matches.add(keyword);
+          }
+        });
+      });
+    });
+
+    return { flagged: categories.size > 0, categories: Array.from(categories), matches: Array.from(matches) };
+  }
+}
+
+export const localContentSafetyProvider = new LocalContentSafetyProvider();
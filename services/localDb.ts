@@ -0,0 +1,67 @@
+/**
+ * Minimal promise wrapper around the browser's IndexedDB, shared by the
+ * services that persist data on the device.
+ */
+
+const DB_NAME = 'jeri_chat';
+const DB_VERSION = 2;
+
+export const STORES = {
+  translations: 'translations',
+  outbox: 'outbox',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.translations)) {
+          db.createObjectStore(STORES.translations, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(STORES.outbox)) {
+          db.createObjectStore(STORES.outbox, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const idbGet = <T>(storeName: StoreName, key: IDBValidKey) =>
+  run<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const idbGetAll = <T>(storeName: StoreName) =>
+  run<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const idbPut = <T>(storeName: StoreName, value: T) =>
+  run<IDBValidKey>(storeName, 'readwrite', store => store.put(value));
+
+export const idbDelete = (storeName: StoreName, key: IDBValidKey) =>
+  run<undefined>(storeName, 'readwrite', store => store.delete(key));
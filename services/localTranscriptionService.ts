@@ -0,0 +1,22 @@
+import { Transcript, TranscriptionProvider } from "../types";
+
+/**
+ * Transcription without a speech model. Returns a fixed transcript, empty by
+ * default, so voice messages can be sent offline and tests get predictable
+ * text to run through translation.
+ */
+class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly id = 'local';
+
+  constructor(private transcript: Transcript = { text: '' }) {}
+
+  setTranscript(transcript: Transcript) {
+    this.transcript = transcript;
+  }
+
+  async transcribe(): Promise<Transcript> {
+    return { ...this.transcript };
+  }
+}
+
+export const localTranscriptionProvider = new LocalTranscriptionProvider();
@@ -0,0 +1,99 @@
+import { SUPPORTED_LANGUAGES, UNKNOWN_LANGUAGE } from "../constants";
+import { LanguagePair, TranslationProvider } from "../types";
+import { detectLanguageLocally } from "./languageDetection";
+
+/**
+ * Phrase dictionary keyed by target language code, then by lower-cased
+ * source text.
+ */
+export type PhraseDictionary = Record<string, Record<string, string>>;
+
+/**
+ * Translation without Gemini.
+ *
+ * When LIBRETRANSLATE_URL is configured, requests go to that self-hosted
+ * LibreTranslate instance. Otherwise the provider works fully offline: it
+ * looks the text up in its phrase dictionary and echoes it back unchanged
+ * when there is no entry, which is enough to run the app without an API key.
+ * Offline language detection uses the local script/stop-word heuristic.
+ * Neither mode knows about formality or tone, so style hints are ignored.
+ */
+class LocalTranslationProvider implements TranslationProvider {
+  readonly id = 'local';
+
+  constructor(
+    private endpoint: string | undefined = process.env.LIBRETRANSLATE_URL,
+    private apiKey: string | undefined = process.env.LIBRETRANSLATE_API_KEY,
+    private dictionary: PhraseDictionary = {}
+  ) {}
+
+  addPhrases(targetLanguage: string, phrases: Record<string, string>) {
+    const existing = this.dictionary[targetLanguage] || {};
+    Object.entries(phrases).forEach(([source, translation]) => {
+      existing[source.toLowerCase()] = translation;
+    });
+    this.dictionary[targetLanguage] = existing;
+  }
+
+  private async post<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    const response = await fetch(`${this.endpoint!.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.apiKey ? { ...body, api_key: this.apiKey } : body)
+    });
+    if (!response.ok) {
+      throw new Error(`LibreTranslate ${path} failed with status ${response.status}`);
+    }
+    return response.json();
+  }
+
+  async translate(text: string, targetLanguage: string, sourceLanguage?: string): Promise<string> {
+    if (sourceLanguage === targetLanguage) return text;
+
+    if (this.endpoint) {
+      const result = await this.post<{ translatedText: string }>('/translate', {
+        q: text,
+        source: sourceLanguage || 'auto',
+        target: targetLanguage,
+        format: 'text'
+      });
+      return result.translatedText;
+    }
+
+    return this.dictionary[targetLanguage]?.[text.trim().toLowerCase()] ?? text;
+  }
+
+  async detectLanguage(text: string): Promise<string> {
+    if (!this.endpoint) return detectLanguageLocally(text);
+
+    const results = await this.post<{ language: string; confidence: number }[]>('/detect', { q: text });
+    const best = results.sort((a, b) => b.confidence - a.confidence)[0];
+    return best && SUPPORTED_LANGUAGES.some(l => l.code === best.language) ? best.language : UNKNOWN_LANGUAGE;
+  }
+
+  async getSupportedPairs(): Promise<LanguagePair[]> {
+    const supported = new Set(SUPPORTED_LANGUAGES.map(l => l.code));
+
+    if (this.endpoint) {
+      const response = await fetch(`${this.endpoint.replace(/\/$/, '')}/languages`);
+      if (!response.ok) {
+        throw new Error(`LibreTranslate /languages failed with status ${response.status}`);
+      }
+      const languages: { code: string; targets: string[] }[] = await response.json();
+      return languages
+        .filter(l => supported.has(l.code))
+        .flatMap(l => l.targets
+          .filter(target => target !== l.code && supported.has(target))
+          .map(target => ({ source: l.code, target })));
+    }
+
+    // Echo mode "supports" everything; the dictionary fills in what it can
+    return SUPPORTED_LANGUAGES.flatMap(source =>
+      SUPPORTED_LANGUAGES
+        .filter(target => target.code !== source.code)
+        .map(target => ({ source: source.code, target: target.code }))
+    );
+  }
+}
+
+export const localProvider = new LocalTranslationProvider();
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { plainText, protectMarkup } from './markdown';
+
+describe('protectMarkup', () => {
+  it('protects code, link targets, URLs and mentions but not link text', () => {
+    const result = protectMarkup('Run `npm test` and see [the docs](https://jeri.chat/docs), @ana_b');
+    expect(result.text).toBe('Run ⟦0⟧ and see [the docs](⟦1⟧), ⟦2⟧');
+    expect(result.count).toBe(3);
+  });
+
+  it('keeps a fenced block whole, including what looks like other markup inside it', () => {
+    const result = protectMarkup('Try:\n```\nconst a = `x`; // @me https://x.y\n```');
+    expect(result.text).toBe('Try:\n⟦0⟧');
+    expect(result.count).toBe(1);
+  });
+
+  it('leaves trailing punctuation out of bare URLs', () => {
+    const result = protectMarkup('See https://jeri.chat/rooms.');
+    expect(result.text).toBe('See ⟦0⟧.');
+  });
+
+  it('does not take email addresses for mentions', () => {
+    expect(protectMarkup('Write to ana@jeri.chat').count).toBe(0);
+  });
+
+  it('restores the originals into the translation', () => {
+    const result = protectMarkup('Ask @ana about `git rebase`');
+    expect(result.restore('Pregunta a ⟦0⟧ sobre ⟦ 1 ⟧')).toBe('Pregunta a @ana sobre `git rebase`');
+  });
+
+  it('leaves placeholders it did not make alone', () => {
+    const result = protectMarkup('Hi @ana');
+    expect(result.restore('Hola ⟦0⟧ ⟦5⟧')).toBe('Hola @ana ⟦5⟧');
+  });
+});
+
+describe('plainText', () => {
+  it('drops the markup and keeps the words', () => {
+    expect(plainText('**Bold**, _italic_ and `code` with [a link](https://x.y)')).toBe('Bold, italic and code with a link');
+  });
+
+  it('unwraps fenced blocks and list markers', () => {
+    expect(plainText('- one\n2. two\n```js\nrun()\n```')).toBe('one\ntwo\nrun()');
+  });
+
+  it('leaves underscores inside words alone', () => {
+    expect(plainText('snake_case_name')).toBe('snake_case_name');
+  });
+});
@@ -0,0 +1,37 @@
+import { PLACEHOLDER_PATTERN, placeholder } from './glossary';
+
+// Fenced blocks, inline code, link targets, bare URLs and @mentions, in
+// that order of precedence. Link text is left in place to be translated.
+const PROTECTED_PATTERN = /```[\s\S]*?```|`[^`\n]+`|(?<=\]\()[^)\s]+(?=\))|\bhttps?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]|(?<![\p{L}\p{N}_])@[\p{L}\p{N}_.-]*[\p{L}\p{N}_]/gu;
+
+/**
+ * Swaps the parts of a Markdown message that must come through translation
+ * unchanged for numbered placeholders, the same way glossary terms are
+ * protected. Returns how many placeholders were used so glossary
+ * placeholders can be numbered after them.
+ */
+export const protectMarkup = (text: string) => {
+  const originals: string[] = [];
+  const protectedText = text.replace(PROTECTED_PATTERN, match => {
+    originals.push(match);
+    return placeholder(originals.length - 1);
+  });
+
+  return {
+    text: protectedText,
+    count: originals.length,
+    restore: (translated: string) =>
+      translated.replace(PLACEHOLDER_PATTERN, (token, index) => originals[Number(index)] ?? token)
+  };
+};
+
+/** The message as plain text, for notifications and quotes. */
+export const plainText = (markdown: string) =>
+  markdown
+    .replace(/```\w*\n?([\s\S]*?)```/g, '$1')
+    .replace(/`([^`\n]+)`/g, '$1')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(?<![\p{L}\p{N}*_])([*_])(?!\s)(.+?)(?<!\s)\1(?![\p{L}\p{N}])/gu, '$2')
+    .replace(/^\s*(?:[-*]|\d+\.)\s+/gm, '')
+    .trim();
@@ -0,0 +1,147 @@
+import {
+  ATTACHMENT_BLOCKED_EXTENSIONS,
+  AVATAR_BUCKET,
+  AVATAR_MAX_BYTES,
+  ATTACHMENT_BUCKET,
+  ATTACHMENT_MAX_BYTES,
+  MEDIA_URL_TTL_SECONDS,
+  VOICE_BUCKET
+} from '../constants';
+import { Attachment, Message } from '../types';
+import { supabase } from './supabase';
+
+const extensionFor = (mimeType: string) => {
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4') || mimeType.includes('aac')) return 'm4a';
+  return 'webm';
+};
+
+const fileExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const isImage = (mimeType: string) => mimeType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const imageSize = async (file: Blob): Promise<{ width?: number; height?: number }> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return {};
+  }
+};
+
+/** Uploads and serves voice recordings and attachments from Supabase Storage. */
+class MediaService {
+  private signedUrls = new Map<string, { url: string; expiresAt: number }>();
+
+  private async upload(bucket: string, path: string, file: Blob) {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .upload(path, file, { contentType: file.type || 'application/octet-stream' });
+
+    // A retry after a lost response finds the object already there
+    if (error && !/already exists/i.test(error.message)) throw error;
+  }
+
+  /** Short-lived link; reused until shortly before it expires. */
+  private async signedUrl(bucket: string, path: string): Promise<string> {
+    const key = `${bucket}/${path}`;
+    const cached = this.signedUrls.get(key);
+    if (cached && cached.expiresAt > Date.now() + 60000) return cached.url;
+
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrl(path, MEDIA_URL_TTL_SECONDS);
+
+    if (error) throw error;
+    this.signedUrls.set(key, { url: data.signedUrl, expiresAt: Date.now() + MEDIA_URL_TTL_SECONDS * 1000 });
+    return data.signedUrl;
+  }
+
+  /** Stores a recording under its room and message id and returns the object path. */
+  async uploadVoice(roomId: string, messageId: string, audio: Blob): Promise<string> {
+    const path = `${roomId}/${messageId}.${extensionFor(audio.type)}`;
+    await this.upload(VOICE_BUCKET, path, audio);
+    return path;
+  }
+
+  getVoiceUrl(path: string): Promise<string> {
+    return this.signedUrl(VOICE_BUCKET, path);
+  }
+
+  /** Reason a file cannot be attached, or null when it is fine. */
+  validateAttachment(file: File): string | null {
+    if (file.size > ATTACHMENT_MAX_BYTES) {
+      return `${file.name} is larger than ${formatFileSize(ATTACHMENT_MAX_BYTES)}`;
+    }
+    if (ATTACHMENT_BLOCKED_EXTENSIONS.includes(fileExtension(file.name))) {
+      return `${file.name}: this file type cannot be sent`;
+    }
+    return null;
+  }
+
+  /** Uploads one file of a message; `id` is chosen by the caller so optimistic previews can refer to it. */
+  async uploadAttachment(roomId: string, messageId: string, id: string, file: File): Promise<Attachment> {
+    const extension = fileExtension(file.name);
+    const path = `${roomId}/${messageId}/${id}${extension ? `.${extension}` : ''}`;
+    await this.upload(ATTACHMENT_BUCKET, path, file);
+
+    return {
+      id,
+      path,
+      fileName: file.name,
+      mimeType: file.type || 'application/octet-stream',
+      sizeBytes: file.size,
+      ...(isImage(file.type) ? await imageSize(file) : {})
+    };
+  }
+
+  getAttachmentUrl(path: string): Promise<string> {
+    return this.signedUrl(ATTACHMENT_BUCKET, path);
+  }
+
+  /** Reason a picture cannot be used as an avatar, or null when it is fine. */
+  validateAvatar(file: File): string | null {
+    if (!isImage(file.type)) return 'An avatar has to be an image';
+    if (file.size > AVATAR_MAX_BYTES) return `Avatars can be at most ${formatFileSize(AVATAR_MAX_BYTES)}`;
+    return null;
+  }
+
+  /** Avatars are public; a new file name per upload keeps browser caches honest. */
+  async uploadAvatar(userId: string, file: File): Promise<string> {
+    const extension = fileExtension(file.name);
+    const path = `${userId}/${Date.now()}${extension ? `.${extension}` : ''}`;
+    await this.upload(AVATAR_BUCKET, path, file);
+    return supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path).data.publicUrl;
+  }
+
+  /**
+   * Removes the recording and files of a deleted message. The message is
+   * gone either way, so a failure is only logged.
+   */
+  async removeMessageMedia(message: Message) {
+    const removals: [string, string[]][] = [
+      [VOICE_BUCKET, message.voice ? [message.voice.path] : []],
+      [ATTACHMENT_BUCKET, (message.attachments || []).map(a => a.path)]
+    ];
+    await Promise.all(removals.filter(([, paths]) => paths.length).map(async ([bucket, paths]) => {
+      const { error } = await supabase.storage.from(bucket).remove(paths);
+      if (error) console.error(`Removing files from ${bucket} failed`, error);
+    }));
+  }
+
+  async downloadAttachment(path: string): Promise<Blob> {
+    const { data, error } = await supabase.storage.from(ATTACHMENT_BUCKET).download(path);
+    if (error) throw error;
+    return data;
+  }
+}
+
+export const mediaService = new MediaService();
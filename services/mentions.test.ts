@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Message } from '../types';
+import { activeMentionQuery, mentionHandle, mentionsIn, mentionsUser } from './mentions';
+
+const ana = { email: 'ana@jeri.chat', username: 'Ana Belén' };
+const bo = { email: 'bo@jeri.chat', username: 'bo.k' };
+
+describe('mentionHandle', () => {
+  it('writes spaces as underscores', () => {
+    expect(mentionHandle('  Ana  Belén ')).toBe('Ana_Belén');
+  });
+});
+
+describe('activeMentionQuery', () => {
+  it('finds the handle being typed before the caret', () => {
+    expect(activeMentionQuery('Hi @An', 6)).toEqual({ query: 'An', start: 3 });
+  });
+
+  it('starts a mention at the beginning of the text', () => {
+    expect(activeMentionQuery('@', 1)).toEqual({ query: '', start: 0 });
+  });
+
+  it('only looks at the text before the caret', () => {
+    expect(activeMentionQuery('Hi @Ana there', 7)).toEqual({ query: 'Ana', start: 3 });
+    expect(activeMentionQuery('Hi @Ana there', 13)).toBeNull();
+  });
+
+  it('ignores the @ of an email address', () => {
+    expect(activeMentionQuery('ana@jeri', 8)).toBeNull();
+  });
+});
+
+describe('mentionsIn', () => {
+  it('keeps the picked mentions whose handle is still in the text', () => {
+    expect(mentionsIn('Thanks @Ana_Belén!', [ana, bo])).toEqual([ana]);
+  });
+
+  it('matches handles with dots literally and as whole words', () => {
+    expect(mentionsIn('@bo.k', [bo])).toEqual([bo]);
+    expect(mentionsIn('@boxk', [bo])).toEqual([]);
+    expect(mentionsIn('@bo.kay', [bo])).toEqual([]);
+  });
+
+  it('lists each person once', () => {
+    expect(mentionsIn('@bo.k and @bo.k', [bo, bo])).toEqual([bo]);
+  });
+
+  it('does not count a handle inside an email address', () => {
+    expect(mentionsIn('mail x@bo.k', [bo])).toEqual([]);
+  });
+});
+
+describe('mentionsUser', () => {
+  it('checks the stored mentions, not the text', () => {
+    const message = { text: '@Ana_Belén', mentions: [bo] } as Message;
+    expect(mentionsUser(message, ana.email)).toBe(false);
+    expect(mentionsUser(message, bo.email)).toBe(true);
+  });
+});
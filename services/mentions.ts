@@ -0,0 +1,39 @@
+import { Message, MessageMention } from '../types';
+
+const LAST_SEEN_KEY = 'jeri_mentions_seen_at';
+
+/** How a person is written after the @: their username with spaces as underscores. */
+export const mentionHandle = (username: string) => username.trim().replace(/\s+/g, '_');
+
+/**
+ * The @handle being typed just before the caret, with the index of its @,
+ * or null when the caret is not in a mention.
+ */
+export const activeMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const match = text.slice(0, caret).match(/(?:^|[^\p{L}\p{N}_])@([\p{L}\p{N}_.-]*)$/u);
+  if (!match) return null;
+  return { query: match[1], start: caret - match[1].length - 1 };
+};
+
+/** The picked mentions whose @handle is still in the text, once each. */
+export const mentionsIn = (text: string, picked: MessageMention[]): MessageMention[] => {
+  const seen = new Set<string>();
+  return picked.filter(m => {
+    if (seen.has(m.email)) return false;
+    const handle = mentionHandle(m.username).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const present = new RegExp(`(?<![\\p{L}\\p{N}_])@${handle}(?![\\p{L}\\p{N}_])`, 'u').test(text);
+    if (present) seen.add(m.email);
+    return present;
+  });
+};
+
+export const mentionsUser = (message: Message, email: string) =>
+  !!message.mentions?.some(m => m.email === email);
+
+/** When the user last opened their mentions inbox on this device. */
+export const getMentionsSeenAt = (email: string): number =>
+  Number(localStorage.getItem(`${LAST_SEEN_KEY}:${email}`)) || 0;
+
+export const markMentionsSeen = (email: string, at = Date.now()) => {
+  localStorage.setItem(`${LAST_SEEN_KEY}:${email}`, String(at));
+};
@@ -0,0 +1,176 @@
+import { Message, MessageReport, ReportStatus, RestrictionKind, RoomRestriction, RoomRole, SafetyCategory } from '../types';
+import { supabase } from './supabase';
+import { chatSync } from './chatSync';
+
+const toRestriction = (row: any): RoomRestriction => ({
+  roomId: row.room_id,
+  userEmail: row.user_email,
+  kind: row.kind,
+  reason: row.reason || '',
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at).getTime(),
+  expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : undefined
+});
+
+const toReport = (row: any): MessageReport => ({
+  id: row.id,
+  messageId: row.message_id,
+  roomId: row.room_id,
+  reporterEmail: row.reporter_email,
+  reason: row.reason || '',
+  status: row.status,
+  createdAt: new Date(row.created_at).getTime()
+});
+
+export const isActive = (restriction: RoomRestriction) =>
+  !restriction.expiresAt || restriction.expiresAt > Date.now();
+
+/**
+ * Roles, mutes, bans, kicks and reports. Every write is checked again by
+ * row-level security, so the UI only decides what to offer.
+ */
+class ModerationService {
+  async getRole(roomId: string, email: string): Promise<RoomRole> {
+    const { data, error } = await supabase.rpc('room_role', { target_room: roomId, member_email: email });
+    if (error) throw error;
+    return (data as RoomRole) || 'member';
+  }
+
+  async listModerators(roomId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('room_members')
+      .select('user_email')
+      .eq('room_id', roomId)
+      .eq('role', 'moderator');
+
+    if (error) throw error;
+    return (data || []).map((row: any) => row.user_email);
+  }
+
+  async isMember(roomId: string, email: string): Promise<boolean> {
+    const { data, error } = await supabase
+      .from('room_members')
+      .select('user_email')
+      .eq('room_id', roomId)
+      .eq('user_email', email)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data;
+  }
+
+  async setRole(roomId: string, email: string, role: Exclude<RoomRole, 'owner'>): Promise<void> {
+    const { error } = await supabase
+      .from('room_members')
+      .update({ role })
+      .eq('room_id', roomId)
+      .eq('user_email', email);
+
+    if (error) throw error;
+  }
+
+  /** Restrictions in force; moderators see everyone's, others only their own. */
+  async listRestrictions(roomId: string): Promise<RoomRestriction[]> {
+    const { data, error } = await supabase
+      .from('room_restrictions')
+      .select('*')
+      .eq('room_id', roomId);
+
+    if (error) throw error;
+    return (data || []).map(toRestriction).filter(isActive);
+  }
+
+  async restrict(roomId: string, email: string, kind: RestrictionKind, moderatorEmail: string, reason = '', durationMs: number | null = null) {
+    const { error } = await supabase
+      .from('room_restrictions')
+      .upsert({
+        room_id: roomId,
+        user_email: email,
+        kind,
+        reason,
+        created_by: moderatorEmail,
+        created_at: new Date().toISOString(),
+        expires_at: durationMs ? new Date(Date.now() + durationMs).toISOString() : null
+      }, { onConflict: 'room_id,user_email,kind' });
+
+    if (error) throw error;
+    // Banned users are taken out of the room as well
+    if (kind === 'ban') await this.kick(roomId, email);
+  }
+
+  async lift(roomId: string, email: string, kind: RestrictionKind) {
+    const { error } = await supabase
+      .from('room_restrictions')
+      .delete()
+      .eq('room_id', roomId)
+      .eq('user_email', email)
+      .eq('kind', kind);
+
+    if (error) throw error;
+  }
+
+  async kick(roomId: string, email: string) {
+    const { error } = await supabase
+      .from('room_members')
+      .delete()
+      .eq('room_id', roomId)
+      .eq('user_email', email);
+
+    if (error) throw error;
+  }
+
+  async reportMessage(message: Message, reporterEmail: string, reason: string) {
+    const { error } = await supabase
+      .from('message_reports')
+      .upsert({
+        message_id: message.id,
+        room_id: message.roomId,
+        reporter_email: reporterEmail,
+        reason
+      }, { onConflict: 'message_id,reporter_email', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Reports a message whose translation into `language` the content filter
+   * objects to; ignored outside "flag" rooms. The database writes the reason.
+   */
+  async flagMessage(messageId: string, categories: SafetyCategory[], language: string) {
+    const { error } = await supabase.rpc('flag_message', {
+      target_message: messageId,
+      categories,
+      translation_language: language
+    });
+    if (error) throw error;
+  }
+
+  /** Open reports, oldest first, with the reported messages. */
+  async listOpenReports(roomId: string): Promise<MessageReport[]> {
+    const { data, error } = await supabase
+      .from('message_reports')
+      .select('*')
+      .eq('room_id', roomId)
+      .eq('status', 'open')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    const reports = (data || []).map(toReport);
+    const messages = await chatSync.fetchMessages(Array.from(new Set(reports.map(r => r.messageId))));
+    const byId = new Map(messages.map(m => [m.id, m]));
+    return reports.map(r => ({ ...r, message: byId.get(r.messageId) }));
+  }
+
+  /** Closes every open report about a message. */
+  async closeReports(messageId: string, status: Exclude<ReportStatus, 'open'>, moderatorEmail: string) {
+    const { error } = await supabase
+      .from('message_reports')
+      .update({ status, resolved_by: moderatorEmail, resolved_at: new Date().toISOString() })
+      .eq('message_id', messageId)
+      .eq('status', 'open');
+
+    if (error) throw error;
+  }
+}
+
+export const moderationService = new ModerationService();
@@ -0,0 +1,40 @@
+const STORAGE_KEY = 'jeri_notifications_enabled';
+
+/**
+ * Thin wrapper around the browser Notification API. Whether the user wants
+ * notifications is remembered per device; the browser permission is asked
+ * for when they switch them on.
+ */
+class NotificationService {
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && 'Notification' in window;
+  }
+
+  isEnabled(): boolean {
+    return this.isSupported()
+      && Notification.permission === 'granted'
+      && localStorage.getItem(STORAGE_KEY) === 'true';
+  }
+
+  async setEnabled(enabled: boolean): Promise<boolean> {
+    if (!this.isSupported()) return false;
+    if (enabled && Notification.permission !== 'granted') {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') return false;
+    }
+    localStorage.setItem(STORAGE_KEY, String(enabled));
+    return enabled;
+  }
+
+  notify(title: string, body: string, options: { tag?: string; onClick?: () => void } = {}) {
+    if (!this.isEnabled()) return;
+    const notification = new Notification(title, { body, tag: options.tag });
+    notification.onclick = () => {
+      window.focus();
+      options.onClick?.();
+      notification.close();
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,113 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { Profile } from '../types';
+import { supabase } from './supabase';
+
+type ProfileHandler = (profile: Profile) => void;
+
+export type ProfileUpdate = Partial<Pick<Profile, 'username' | 'avatarUrl' | 'preferredLanguage' | 'bio'>>;
+
+export const toProfile = (row: any): Profile => ({
+  id: row.id,
+  username: row.username,
+  avatarUrl: row.avatar_url || undefined,
+  preferredLanguage: row.preferred_language,
+  bio: row.bio || undefined
+});
+
+const toRow = (updates: ProfileUpdate) => ({
+  ...(updates.username !== undefined ? { username: updates.username.trim() } : {}),
+  ...(updates.avatarUrl !== undefined ? { avatar_url: updates.avatarUrl || null } : {}),
+  ...(updates.preferredLanguage !== undefined ? { preferred_language: updates.preferredLanguage } : {}),
+  ...(updates.bio !== undefined ? { bio: updates.bio.trim() || null } : {})
+});
+
+/**
+ * Profiles of everyone whose messages are on screen, cached for the
+ * session. Changes arrive over realtime, so a new name or avatar shows on
+ * every message at once while the messages themselves stay untouched.
+ */
+class ProfileService {
+  private profiles = new Map<string, Profile>();
+  private handlers: Set<ProfileHandler> = new Set();
+  private channel: RealtimeChannel | null = null;
+
+  cached(id: string): Profile | undefined {
+    return this.profiles.get(id);
+  }
+
+  /** Keeps a profile that came embedded in another query. */
+  remember(profile: Profile) {
+    this.profiles.set(profile.id, profile);
+  }
+
+  /** Profiles by id, fetching the ones not cached yet. Unknown ids are left out. */
+  async load(ids: string[]): Promise<Map<string, Profile>> {
+    const missing = Array.from(new Set(ids)).filter(id => !this.profiles.has(id));
+    if (missing.length) {
+      const { data, error } = await supabase.from('profiles').select('*').in('id', missing);
+      if (error) throw error;
+      (data || []).map(toProfile).forEach(profile => this.remember(profile));
+    }
+    const found = new Map<string, Profile>();
+    ids.forEach(id => {
+      const profile = this.profiles.get(id);
+      if (profile) found.set(id, profile);
+    });
+    return found;
+  }
+
+  async get(id: string): Promise<Profile | undefined> {
+    return (await this.load([id])).get(id);
+  }
+
+  async isUsernameAvailable(username: string): Promise<boolean> {
+    const { data, error } = await supabase.rpc('username_available', { candidate: username });
+    if (error) throw error;
+    return !!data;
+  }
+
+  async update(id: string, updates: ProfileUpdate): Promise<Profile> {
+    const { data, error } = await supabase
+      .from('profiles')
+      .update({ ...toRow(updates), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      // Usernames are unique regardless of case
+      if (error.code === '23505') throw new Error(`The username "${updates.username?.trim()}" is taken`);
+      throw error;
+    }
+    const profile = toProfile(data);
+    this.remember(profile);
+    return profile;
+  }
+
+  /** Hears about every profile edit, the user's own included. */
+  onChange(handler: ProfileHandler) {
+    this.handlers.add(handler);
+    if (!this.channel) {
+      this.channel = supabase.channel('profiles')
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'profiles' },
+          (payload) => {
+            const profile = toProfile(payload.new);
+            this.remember(profile);
+            this.handlers.forEach(h => h(profile));
+          }
+        )
+        .subscribe();
+    }
+    return () => {
+      this.handlers.delete(handler);
+      if (this.handlers.size === 0 && this.channel) {
+        this.channel.unsubscribe();
+        this.channel = null;
+      }
+    };
+  }
+}
+
+export const profileService = new ProfileService();
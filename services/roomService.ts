@@ -0,0 +1,142 @@
+import { ChatRoom, ContentPolicy, NewRoom } from '../types';
+import { supabase } from './supabase';
+
+const toRoom = (row: any): ChatRoom => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+  defaultLanguage: row.default_language,
+  visibility: row.visibility,
+  inviteCode: row.invite_code,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at).getTime(),
+  lastActivityAt: new Date(row.last_activity_at).getTime(),
+  contentPolicy: row.content_policy || 'off',
+  slowModeSeconds: row.slow_mode_seconds || 0
+});
+
+/**
+ * Uppercase id in the same style as hand-typed room codes, e.g.
+ * "BOOK-CLUB-7K2Q9F0A1C3E5B8D". The random part is long enough that ids of
+ * rooms the user has not been shown cannot be guessed.
+ */
+const generateRoomId = (name: string) => {
+  const slug = name.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 20) || 'ROOM';
+  const suffix = crypto.randomUUID().replace(/-/g, '').slice(-16).toUpperCase();
+  return `${slug}-${suffix}`;
+};
+
+export const inviteLink = (room: ChatRoom) =>
+  `${window.location.origin}${window.location.pathname}?invite=${room.inviteCode}`;
+
+class RoomService {
+  async createRoom(room: NewRoom, creatorEmail: string): Promise<ChatRoom> {
+    const { data, error } = await supabase
+      .from('rooms')
+      .insert([{
+        id: generateRoomId(room.name),
+        name: room.name.trim(),
+        description: room.description.trim(),
+        default_language: room.defaultLanguage,
+        visibility: room.visibility,
+        created_by: creatorEmail
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const created = toRoom(data);
+    await this.joinRoom(created.id, creatorEmail);
+    return created;
+  }
+
+  async getRoom(roomId: string): Promise<ChatRoom | null> {
+    const { data, error } = await supabase
+      .from('rooms')
+      .select('*')
+      .eq('id', roomId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? toRoom(data) : null;
+  }
+
+  async listPublicRooms(search = ''): Promise<ChatRoom[]> {
+    let query = supabase
+      .from('rooms')
+      .select('*')
+      .eq('visibility', 'public');
+
+    const term = search.trim().replace(/[%_,()]/g, '');
+    if (term) {
+      query = query.or(`name.ilike.%${term}%,description.ilike.%${term}%`);
+    }
+
+    const { data, error } = await query
+      .order('last_activity_at', { ascending: false })
+      .limit(50);
+
+    if (error) throw error;
+    return (data || []).map(toRoom);
+  }
+
+  /** Rooms the user has joined, most recently active first. */
+  async listMyRooms(email: string): Promise<ChatRoom[]> {
+    const { data, error } = await supabase
+      .from('room_members')
+      .select('rooms(*)')
+      .eq('user_email', email);
+
+    if (error) throw error;
+    return (data || [])
+      .map((row: any) => row.rooms)
+      .filter(Boolean)
+      .map(toRoom)
+      .sort((a, b) => (b.lastActivityAt || 0) - (a.lastActivityAt || 0));
+  }
+
+  async joinRoom(roomId: string, email: string): Promise<void> {
+    const { error } = await supabase
+      .from('room_members')
+      .upsert({ room_id: roomId, user_email: email }, { onConflict: 'room_id,user_email', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  async joinByInvite(code: string, email: string): Promise<ChatRoom | null> {
+    const { data, error } = await supabase.rpc('join_room_by_invite', { code: code.trim(), member_email: email });
+    if (error) throw error;
+    return data?.[0] ? toRoom(data[0]) : null;
+  }
+
+  async setContentPolicy(roomId: string, policy: ContentPolicy): Promise<void> {
+    const { error } = await supabase
+      .from('rooms')
+      .update({ content_policy: policy })
+      .eq('id', roomId);
+
+    if (error) throw error;
+  }
+
+  async setSlowMode(roomId: string, seconds: number): Promise<void> {
+    const { error } = await supabase
+      .from('rooms')
+      .update({ slow_mode_seconds: seconds })
+      .eq('id', roomId);
+
+    if (error) throw error;
+  }
+
+  async leaveRoom(roomId: string, email: string): Promise<void> {
+    const { error } = await supabase
+      .from('room_members')
+      .delete()
+      .eq('room_id', roomId)
+      .eq('user_email', email);
+
+    if (error) throw error;
+  }
+}
+
+export const roomService = new RoomService();
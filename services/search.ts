@@ -0,0 +1,35 @@
+/**
+ * The words of a search query worth highlighting: quotes and operators of
+ * the web search syntax are dropped, as are excluded (-word) terms.
+ */
+export const searchTerms = (query: string): string[] =>
+  query
+    .replace(/["()]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && word.toLowerCase() !== 'or' && !word.startsWith('-'))
+    .map(word => word.replace(/^\+/, ''))
+    .filter(Boolean);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Splits text into matching and non-matching runs. Terms match whole words
+ * regardless of case, like the full-text index does.
+ */
+export const highlightSegments = (text: string, terms: string[]): { text: string; match: boolean }[] => {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+
+  const segments: { text: string; match: boolean }[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > lastIndex) segments.push({ text: text.slice(lastIndex, match.index), match: false });
+    segments.push({ text: match[0], match: true });
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false });
+  return segments;
+};
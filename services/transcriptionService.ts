@@ -0,0 +1,55 @@
+import { DEFAULT_TRANSCRIPTION_PROVIDER } from "../constants";
+import { Transcript, TranscriptionProvider } from "../types";
+import { geminiTranscriptionProvider } from "./geminiService";
+import { localTranscriptionProvider } from "./localTranscriptionService";
+
+/**
+ * Registry of speech-to-text backends, mirroring the translation provider
+ * registry. Some also read text in images. The active one is chosen with
+ * TRANSCRIPTION_PROVIDER ("gemini" or "local") and can be swapped at runtime.
+ */
+const providers = new Map<string, TranscriptionProvider>([
+  [geminiTranscriptionProvider.id, geminiTranscriptionProvider],
+  [localTranscriptionProvider.id, localTranscriptionProvider],
+]);
+
+let activeProviderId = process.env.TRANSCRIPTION_PROVIDER || DEFAULT_TRANSCRIPTION_PROVIDER;
+
+export const registerTranscriptionProvider = (provider: TranscriptionProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const setTranscriptionProvider = (id: string) => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown transcription provider: ${id}`);
+  }
+  activeProviderId = id;
+};
+
+export const getTranscriptionProvider = (): TranscriptionProvider => {
+  const provider = providers.get(activeProviderId);
+  if (!provider) {
+    console.warn(`JERI Warning: transcription provider "${activeProviderId}" is not registered, falling back to "${DEFAULT_TRANSCRIPTION_PROVIDER}".`);
+    return providers.get(DEFAULT_TRANSCRIPTION_PROVIDER)!;
+  }
+  return provider;
+};
+
+/**
+ * Reads the text in an image with the active provider, or resolves with
+ * null when the provider cannot read images.
+ */
+export const readImageText = async (image: Blob): Promise<Transcript | null> => {
+  const provider = getTranscriptionProvider();
+  return provider.readImageText ? provider.readImageText(image) : null;
+};
+
+/** Transcribes a recording; a failed transcription yields an empty transcript. */
+export const transcribeAudio = async (audio: Blob, languageHint?: string): Promise<Transcript> => {
+  try {
+    return await getTranscriptionProvider().transcribe(audio, languageHint);
+  } catch (e) {
+    console.error("Transcription failed", e);
+    return { text: '' };
+  }
+};
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TranslationBudget, budgetError, isBudgetError } from './translationBudget';
+
+const HOUR = 60 * 60 * 1000;
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); }
+  };
+};
+
+describe('TranslationBudget', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('allows work until the limit is reached', () => {
+    const budget = new TranslationBudget(100, HOUR);
+    expect(budget.allows(60)).toBe(true);
+    budget.record(60);
+    expect(budget.allows(40)).toBe(true);
+    expect(budget.allows(41)).toBe(false);
+    expect(budget.used()).toBe(60);
+  });
+
+  it('lets one oversized request through on an unused budget', () => {
+    const budget = new TranslationBudget(100, HOUR);
+    expect(budget.allows(500)).toBe(true);
+    budget.record(500);
+    expect(budget.allows(1)).toBe(false);
+  });
+
+  it('counts turned-away work as exhausting the budget until it fits', () => {
+    const budget = new TranslationBudget(100, HOUR);
+    budget.record(60);
+    expect(budget.isExhausted()).toBe(false);
+
+    expect(budget.allows(50)).toBe(false);
+    expect(budget.isExhausted()).toBe(true);
+    expect(budget.resumesAt()).toBe(Date.now() + HOUR);
+  });
+
+  it('frees up and tells its handlers once the window has passed', () => {
+    const budget = new TranslationBudget(100, HOUR);
+    const changes: boolean[] = [];
+    budget.onChange(exhausted => changes.push(exhausted));
+
+    budget.record(60);
+    vi.advanceTimersByTime(HOUR / 2);
+    budget.record(30);
+    expect(budget.allows(50)).toBe(false);
+    expect(changes).toEqual([true]);
+
+    // Only the first usage has to expire for 50 more characters to fit
+    vi.advanceTimersByTime(HOUR / 2 + 1000);
+    expect(changes).toEqual([true, false]);
+    expect(budget.isExhausted()).toBe(false);
+    expect(budget.allows(50)).toBe(true);
+  });
+
+  it('keeps usage across reloads', () => {
+    new TranslationBudget(100, HOUR).record(80);
+    expect(new TranslationBudget(100, HOUR).used()).toBe(80);
+  });
+
+  it('forgets usage older than the window', () => {
+    const budget = new TranslationBudget(100, HOUR);
+    budget.record(80);
+    vi.advanceTimersByTime(HOUR + 1);
+    expect(budget.used()).toBe(0);
+  });
+
+  it('applies a new limit right away', () => {
+    const budget = new TranslationBudget(100, HOUR);
+    budget.record(80);
+    budget.configure({ limit: 200 });
+    expect(budget.allows(100)).toBe(true);
+  });
+});
+
+describe('budgetError', () => {
+  it('is recognised as a budget error and other errors are not', () => {
+    expect(isBudgetError(budgetError())).toBe(true);
+    expect(isBudgetError(new Error('Translation budget used up'))).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { TRANSLATION_BUDGET_CHARS, TRANSLATION_BUDGET_WINDOW_MS } from '../constants';
+
+const USAGE_KEY = 'jeri_translation_usage';
+
+interface Usage {
+  at: number;
+  chars: number;
+}
+
+type BudgetHandler = (exhausted: boolean) => void;
+
+/** Rejection from translateTexts when automatic translation would exceed the budget. */
+export const isBudgetError = (error: unknown) => error instanceof Error && error.name === 'TranslationBudgetError';
+
+export const budgetError = () => Object.assign(new Error('Translation budget used up'), { name: 'TranslationBudgetError' });
+
+/**
+ * Characters sent to the translation provider from this device over a
+ * rolling window, kept in localStorage so a reload does not reset it. Work
+ * nobody asked for stops at the limit; the reader can still translate a
+ * message by tapping it. Handlers hear when the budget runs out and when it
+ * frees up again.
+ */
+export class TranslationBudget {
+  private usage: Usage[] = [];
+  private handlers: Set<BudgetHandler> = new Set();
+  private wasExhausted = false;
+  // Size of the smallest automatic work turned away since the budget last freed up
+  private waitingChars = 0;
+  private refillTimer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private limit: number, private windowMs: number) {
+    try {
+      this.usage = JSON.parse(localStorage.getItem(USAGE_KEY) || '[]');
+    } catch {
+      this.usage = [];
+    }
+    this.update();
+  }
+
+  configure({ limit = this.limit, windowMs = this.windowMs }: { limit?: number; windowMs?: number }) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+    this.update();
+  }
+
+  onChange(handler: BudgetHandler) {
+    this.handlers.add(handler);
+    return () => { this.handlers.delete(handler); };
+  }
+
+  used(): number {
+    const since = Date.now() - this.windowMs;
+    return this.usage.filter(u => u.at > since).reduce((sum, u) => sum + u.chars, 0);
+  }
+
+  // A single oversized request is allowed on an unused budget
+  private fits(used: number, chars: number): boolean {
+    return used === 0 || used + chars <= this.limit;
+  }
+
+  /** Whether automatic work is on hold: nothing fits, or the work already turned away does not. */
+  isExhausted(): boolean {
+    return !this.fits(this.used(), Math.max(this.waitingChars, 1));
+  }
+
+  /**
+   * Whether automatic work of this size fits. Work that does not is
+   * remembered, so the budget counts as exhausted until it would.
+   */
+  allows(chars: number): boolean {
+    if (this.fits(this.used(), chars)) return true;
+    this.waitingChars = this.waitingChars ? Math.min(this.waitingChars, chars) : chars;
+    this.update();
+    return false;
+  }
+
+  record(chars: number) {
+    this.usage.push({ at: Date.now(), chars });
+    this.update();
+  }
+
+  /** When enough of the window has passed for automatic translation to resume. */
+  resumesAt(): number | null {
+    if (!this.isExhausted()) return null;
+    let used = this.used();
+    const needed = Math.max(this.waitingChars, 1);
+    const since = Date.now() - this.windowMs;
+    for (const u of this.usage.filter(u => u.at > since)) {
+      used -= u.chars;
+      if (this.fits(used, needed)) return u.at + this.windowMs;
+    }
+    return null;
+  }
+
+  private update() {
+    const since = Date.now() - this.windowMs;
+    this.usage = this.usage.filter(u => u.at > since);
+    try {
+      localStorage.setItem(USAGE_KEY, JSON.stringify(this.usage));
+    } catch (e) {
+      console.debug("Saving translation usage failed", e);
+    }
+
+    const exhausted = this.isExhausted();
+    clearTimeout(this.refillTimer);
+    const resumesAt = this.resumesAt();
+    if (resumesAt) this.refillTimer = setTimeout(() => this.update(), resumesAt - Date.now() + 1000);
+
+    if (exhausted !== this.wasExhausted) {
+      this.wasExhausted = exhausted;
+      // Handlers retry whatever was turned away once the budget frees up
+      if (!exhausted) this.waitingChars = 0;
+      this.handlers.forEach(handler => handler(exhausted));
+    }
+  }
+}
+
+export const translationBudget = new TranslationBudget(TRANSLATION_BUDGET_CHARS, TRANSLATION_BUDGET_WINDOW_MS);
@@ -0,0 +1,157 @@
+import { supabase } from './supabase';
+import { idbGet, idbPut, STORES } from './localDb';
+
+interface CachedTranslation {
+  key: string;
+  messageId: string;
+  language: string;
+  fingerprint: string;
+  text: string;
+  updatedAt: number;
+}
+
+export interface CacheLookup {
+  messageId: string;
+  fingerprint: string;
+}
+
+const cacheKey = (messageId: string, language: string) => `${messageId}:${language}`;
+
+/**
+ * Short FNV-1a hash of everything that went into a translation (source text
+ * and any options). A cached entry only counts as a hit when its fingerprint
+ * matches, so edits and option changes invalidate it without a purge.
+ * Empty parts are skipped, so an unset option keeps older fingerprints valid.
+ */
+export const translationFingerprint = (...parts: string[]): string => {
+  let hash = 0x811c9dc5;
+  for (const char of parts.filter(Boolean).join('\u0000')) {
+    hash ^= char.codePointAt(0)!;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Translation cache keyed by message id + target language.
+ *
+ * Lookups go memory -> IndexedDB -> Supabase `message_translations`, so the
+ * first reader's translation is reused by every other reader of that
+ * language with the same settings. The shared table keeps a row per
+ * fingerprint, so readers with different settings do not displace each
+ * other there. The shared table is optional: if it is missing or unreachable we
+ * keep working with the local layers only.
+ */
+class TranslationCache {
+  private memory = new Map<string, CachedTranslation>();
+  private sharedEnabled = process.env.SHARED_TRANSLATION_CACHE !== 'false';
+
+  private disableShared(error: any) {
+    console.warn("Shared translation cache disabled:", error?.message || error);
+    this.sharedEnabled = false;
+  }
+
+  private async getLocal(key: string): Promise<CachedTranslation | undefined> {
+    if (this.memory.has(key)) return this.memory.get(key);
+    try {
+      const entry = await idbGet<CachedTranslation>(STORES.translations, key);
+      if (entry) {
+        this.memory.set(key, entry);
+        return entry;
+      }
+    } catch (e) {
+      console.debug("IndexedDB translation lookup failed", e);
+    }
+    return undefined;
+  }
+
+  private async putLocal(messageId: string, language: string, fingerprint: string, text: string) {
+    const entry: CachedTranslation = {
+      key: cacheKey(messageId, language),
+      messageId,
+      language,
+      fingerprint,
+      text,
+      updatedAt: Date.now()
+    };
+    this.memory.set(entry.key, entry);
+    try {
+      await idbPut<CachedTranslation>(STORES.translations, entry);
+    } catch (e) {
+      console.debug("IndexedDB translation write failed", e);
+    }
+  }
+
+  async get(messageId: string, language: string, fingerprint: string): Promise<string | undefined> {
+    const found = await this.getMany([{ messageId, fingerprint }], language);
+    return found.get(messageId);
+  }
+
+  async getMany(lookups: CacheLookup[], language: string): Promise<Map<string, string>> {
+    const found = new Map<string, string>();
+    const missing: CacheLookup[] = [];
+
+    for (const lookup of lookups) {
+      const entry = await this.getLocal(cacheKey(lookup.messageId, language));
+      if (entry && entry.fingerprint === lookup.fingerprint) found.set(lookup.messageId, entry.text);
+      else missing.push(lookup);
+    }
+
+    if (missing.length && this.sharedEnabled) {
+      const { data, error } = await supabase
+        .from('message_translations')
+        .select('message_id, source_fingerprint, translated_text')
+        .eq('language', language)
+        .in('message_id', missing.map(l => l.messageId))
+        .in('source_fingerprint', Array.from(new Set(missing.map(l => l.fingerprint))));
+
+      if (error) {
+        this.disableShared(error);
+      } else {
+        const wanted = new Map(missing.map(l => [l.messageId, l.fingerprint]));
+        for (const row of data || []) {
+          if (wanted.get(row.message_id) !== row.source_fingerprint) continue;
+          found.set(row.message_id, row.translated_text);
+          await this.putLocal(row.message_id, language, row.source_fingerprint, row.translated_text);
+        }
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Device-only entries for text that belongs to no message, such as text
+   * read from an image. The shared table only takes message ids.
+   */
+  async getOnDevice(key: string, language: string, fingerprint: string): Promise<string | undefined> {
+    const entry = await this.getLocal(cacheKey(key, language));
+    return entry && entry.fingerprint === fingerprint ? entry.text : undefined;
+  }
+
+  async setOnDevice(key: string, language: string, fingerprint: string, text: string) {
+    await this.putLocal(key, language, fingerprint, text);
+  }
+
+  async set(messageId: string, language: string, fingerprint: string, text: string, provider?: string) {
+    await this.putLocal(messageId, language, fingerprint, text);
+
+    if (this.sharedEnabled) {
+      const { error } = await supabase
+        .from('message_translations')
+        .upsert({
+          message_id: messageId,
+          language,
+          source_fingerprint: fingerprint,
+          translated_text: text,
+          provider
+        }, { onConflict: 'message_id,language,source_fingerprint', ignoreDuplicates: true });
+
+      // Only people in the message's room may share its translation; that is no reason to stop reading
+      if (error?.code === '42501') console.debug("Translation not shared", error.message);
+      else if (error) this.disableShared(error);
+    }
+  }
+}
+
+export const translationCache = new TranslationCache();
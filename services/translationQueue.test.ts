@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { translateTexts, cacheTranslation, getMany, allows } = vi.hoisted(() => ({
+  translateTexts: vi.fn(),
+  cacheTranslation: vi.fn(),
+  getMany: vi.fn(),
+  allows: vi.fn()
+}));
+
+vi.mock('./translationService', () => ({
+  translateTexts,
+  cacheTranslation,
+  translationFingerprintFor: (text: string, targetLanguage: string) => `${targetLanguage}:${text}`,
+  translationOptionsKey: () => ''
+}));
+vi.mock('./translationCache', () => ({ translationCache: { getMany } }));
+vi.mock('./translationBudget', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./translationBudget')>()),
+  translationBudget: { allows }
+}));
+
+import { TranslationQueue, TranslationResult } from './translationQueue';
+import { budgetError } from './translationBudget';
+
+const createQueue = () => {
+  const queue = new TranslationQueue({ concurrency: 1, batchSize: 10, maxRetries: 2, retryBaseMs: 1 });
+  const results: TranslationResult[] = [];
+  queue.onResult(result => results.push(result));
+  return { queue, results };
+};
+
+const settle = () => vi.waitFor(() => expect(translateTexts).toHaveBeenCalled());
+
+describe('TranslationQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getMany.mockResolvedValue(new Map());
+    allows.mockReturnValue(true);
+  });
+
+  it('batches jobs for the same language that wait together and caches the results', async () => {
+    translateTexts.mockImplementation(async (requests: { text: string }[]) => requests.map(r => `fr ${r.text}`));
+    const { queue, results } = createQueue();
+
+    // The first job takes the only slot; the next two wait and go out together
+    queue.enqueue({ messageId: 'a', text: 'one', targetLanguage: 'fr' });
+    queue.enqueue({ messageId: 'b', text: 'two', targetLanguage: 'fr' });
+    queue.enqueue({ messageId: 'c', text: 'three', targetLanguage: 'fr' });
+    await vi.waitFor(() => expect(results).toHaveLength(3));
+
+    expect(translateTexts).toHaveBeenCalledTimes(2);
+    expect(translateTexts.mock.calls[1][0].map((r: { text: string }) => r.text)).toEqual(['two', 'three']);
+    expect(results.map(r => 'translatedText' in r && r.translatedText)).toEqual(['fr one', 'fr two', 'fr three']);
+    expect(cacheTranslation).toHaveBeenCalledWith('a', 'one', 'fr', 'fr:one', 'fr one');
+  });
+
+  it('does not batch jobs for different languages', async () => {
+    translateTexts.mockImplementation(async (requests: { text: string }[]) => requests.map(r => r.text));
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'one', targetLanguage: 'fr' });
+    queue.enqueue({ messageId: 'b', text: 'two', targetLanguage: 'de' });
+    queue.enqueue({ messageId: 'c', text: 'three', targetLanguage: 'fr' });
+    await vi.waitFor(() => expect(results).toHaveLength(3));
+
+    expect(translateTexts.mock.calls.map(call => call[1])).toEqual(['fr', 'de', 'fr']);
+  });
+
+  it('picks prioritized jobs first', async () => {
+    translateTexts.mockImplementation(async (requests: { text: string }[]) => requests.map(r => r.text));
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'one', targetLanguage: 'fr' });
+    queue.enqueue({ messageId: 'b', text: 'two', targetLanguage: 'de' });
+    queue.enqueue({ messageId: 'c', text: 'three', targetLanguage: 'es' });
+    queue.prioritize(['c']);
+    await vi.waitFor(() => expect(results).toHaveLength(3));
+
+    expect(results.map(r => r.messageId)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('serves cache hits without calling the provider', async () => {
+    getMany.mockResolvedValue(new Map([['a', 'cached']]));
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'one', targetLanguage: 'fr' });
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+
+    expect(results[0]).toMatchObject({ messageId: 'a', translatedText: 'cached' });
+    expect(translateTexts).not.toHaveBeenCalled();
+  });
+
+  it('retries a failed batch before giving up', async () => {
+    translateTexts
+      .mockRejectedValueOnce(new Error('unavailable'))
+      .mockResolvedValueOnce(['bonjour']);
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'hello', targetLanguage: 'fr' });
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+
+    expect(translateTexts).toHaveBeenCalledTimes(2);
+    expect(results[0]).toMatchObject({ messageId: 'a', translatedText: 'bonjour' });
+  });
+
+  it('reports the error once the retries are used up', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    translateTexts.mockRejectedValue(new Error('unavailable'));
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'hello', targetLanguage: 'fr' });
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+
+    expect(translateTexts).toHaveBeenCalledTimes(3);
+    expect(results[0]).toMatchObject({ messageId: 'a', error: new Error('unavailable') });
+  });
+
+  it('discards results of batches in flight when cancelled', async () => {
+    let finish: (translations: string[]) => void = () => {};
+    translateTexts.mockReturnValue(new Promise<string[]>(resolve => { finish = resolve; }));
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'hello', targetLanguage: 'fr' });
+    await settle();
+    queue.cancelAll();
+    finish(['bonjour']);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(results).toEqual([]);
+    expect(cacheTranslation).not.toHaveBeenCalled();
+  });
+
+  it('queues a cancelled job again when it is enqueued after the cancel', async () => {
+    translateTexts.mockResolvedValue(['bonjour']);
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'hello', targetLanguage: 'fr' });
+    queue.cancelAll();
+    queue.enqueue({ messageId: 'a', text: 'hello', targetLanguage: 'fr' });
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+
+    expect(results[0]).toMatchObject({ messageId: 'a', translatedText: 'bonjour' });
+  });
+
+  it('defers automatic work the budget has no room for', async () => {
+    allows.mockReturnValue(false);
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'hello', targetLanguage: 'fr' });
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+
+    expect(results[0]).toMatchObject({ messageId: 'a', deferred: true });
+    expect(translateTexts).not.toHaveBeenCalled();
+  });
+
+  it('defers instead of retrying when the budget runs out mid-flight', async () => {
+    translateTexts.mockRejectedValue(budgetError());
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'hello', targetLanguage: 'fr' });
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+
+    expect(results[0]).toMatchObject({ messageId: 'a', deferred: true });
+    expect(translateTexts).toHaveBeenCalledTimes(1);
+  });
+
+  it('translates jobs the reader asked for even when the budget is used up', async () => {
+    allows.mockReturnValue(false);
+    translateTexts.mockResolvedValue(['bonjour']);
+    const { queue, results } = createQueue();
+
+    queue.enqueue({ messageId: 'a', text: 'hello', targetLanguage: 'fr', onDemand: true });
+    await vi.waitFor(() => expect(results).toHaveLength(1));
+
+    expect(results[0]).toMatchObject({ messageId: 'a', translatedText: 'bonjour' });
+    expect(translateTexts).toHaveBeenCalledWith([{ text: 'hello', sourceLanguage: undefined, tone: undefined }], 'fr', undefined, { metered: false });
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  TRANSLATION_BATCH_SIZE,
+  TRANSLATION_CONCURRENCY,
+  TRANSLATION_MAX_RETRIES,
+  TRANSLATION_RETRY_BASE_MS
+} from '../constants';
+import { MessageTone, TranslationOptions } from '../types';
+import { cacheTranslation, translateTexts, translationFingerprintFor, translationOptionsKey } from './translationService';
+import { translationCache } from './translationCache';
+import { isBudgetError, translationBudget } from './translationBudget';
+
+export interface TranslationJob {
+  messageId: string;
+  text: string;
+  targetLanguage: string;
+  sourceLanguage?: string;
+  tone?: MessageTone;
+  options?: TranslationOptions;
+  /** Asked for by the reader, so it is translated even when the budget is used up. */
+  onDemand?: boolean;
+}
+
+export type TranslationResult =
+  | { messageId: string; targetLanguage: string; sourceText: string; translatedText: string }
+  | { messageId: string; targetLanguage: string; sourceText: string; error: Error }
+  | { messageId: string; targetLanguage: string; sourceText: string; deferred: true };
+
+type ResultHandler = (result: TranslationResult) => void;
+
+interface QueuedJob extends TranslationJob {
+  key: string;
+  fingerprint: string;
+  /** Jobs only share a provider call when language and options agree. */
+  batchKey: string;
+  priority: number;
+  enqueuedAt: number;
+}
+
+export interface TranslationQueueOptions {
+  concurrency: number;
+  batchSize: number;
+  maxRetries: number;
+  retryBaseMs: number;
+}
+
+// Includes the fingerprint so an edited message is queued again even while
+// its previous text is still in flight
+const jobKey = (messageId: string, targetLanguage: string, fingerprint: string) =>
+  `${messageId}:${targetLanguage}:${fingerprint}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Translates messages in the background.
+ *
+ * Jobs for the same target language and options are grouped into batches so one
+ * provider call handles several messages, up to `concurrency` batches run at
+ * once, and jobs marked as visible are picked first. Failed batches are
+ * retried with exponential backoff before the failure is reported. Once the
+ * translation budget is used up, jobs the reader did not ask for are
+ * reported as deferred instead of being sent to the provider.
+ * `cancelAll` drops everything queued and discards in-flight results, which
+ * is what a room switch needs.
+ */
+export class TranslationQueue {
+  private pending: QueuedJob[] = [];
+  private tracked = new Set<string>();
+  private handlers: Set<ResultHandler> = new Set();
+  private active = 0;
+  private generation = 0;
+
+  constructor(private options: TranslationQueueOptions) {}
+
+  configure(options: Partial<TranslationQueueOptions>) {
+    this.options = { ...this.options, ...options };
+    this.pump();
+  }
+
+  onResult(handler: ResultHandler) {
+    this.handlers.add(handler);
+    return () => { this.handlers.delete(handler); };
+  }
+
+  enqueue(job: TranslationJob, priority = 0) {
+    const fingerprint = translationFingerprintFor(job.text, job.targetLanguage, job.options, job.tone);
+    const key = jobKey(job.messageId, job.targetLanguage, fingerprint);
+    if (this.tracked.has(key)) return;
+    this.tracked.add(key);
+    const batchKey = `${job.targetLanguage}\u0000${translationOptionsKey(job.targetLanguage, job.options)}\u0000${job.onDemand ? 1 : 0}`;
+    this.pending.push({ ...job, key, fingerprint, batchKey, priority, enqueuedAt: Date.now() });
+    this.pump();
+  }
+
+  /** Moves the given messages to the front of the queue, e.g. those in the viewport. */
+  prioritize(messageIds: string[], priority = 1) {
+    const ids = new Set(messageIds);
+    this.pending.forEach(job => {
+      if (ids.has(job.messageId)) job.priority = Math.max(job.priority, priority);
+    });
+  }
+
+  cancelAll() {
+    this.generation++;
+    this.pending = [];
+    this.tracked.clear();
+  }
+
+  private emit(result: TranslationResult) {
+    this.handlers.forEach(handler => handler(result));
+  }
+
+  private takeBatch(): QueuedJob[] {
+    this.pending.sort((a, b) => b.priority - a.priority || a.enqueuedAt - b.enqueuedAt);
+    const first = this.pending[0];
+    const batch = this.pending
+      .filter(job => job.batchKey === first.batchKey)
+      .slice(0, this.options.batchSize);
+    const taken = new Set(batch);
+    this.pending = this.pending.filter(job => !taken.has(job));
+    return batch;
+  }
+
+  private pump() {
+    while (this.active < this.options.concurrency && this.pending.length > 0) {
+      const batch = this.takeBatch();
+      this.active++;
+      this.runBatch(batch, this.generation).finally(() => {
+        this.active--;
+        this.pump();
+      });
+    }
+  }
+
+  private async runBatch(batch: QueuedJob[], generation: number) {
+    const targetLanguage = batch[0].targetLanguage;
+    let remaining = batch;
+
+    try {
+      const cached = await translationCache.getMany(batch.map(j => ({ messageId: j.messageId, fingerprint: j.fingerprint })), targetLanguage);
+      if (generation !== this.generation) return;
+      batch.filter(j => cached.has(j.messageId)).forEach(job => this.finish(job, cached.get(job.messageId)!));
+      remaining = batch.filter(j => !cached.has(j.messageId));
+    } catch (e) {
+      console.debug("Translation cache lookup failed", e);
+    }
+
+    if (remaining.length === 0) return;
+
+    const metered = !batch[0].onDemand;
+    if (metered && !translationBudget.allows(remaining.reduce((sum, j) => sum + j.text.length, 0))) {
+      this.defer(remaining);
+      return;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const translations = await translateTexts(
+          remaining.map(j => ({ text: j.text, sourceLanguage: j.sourceLanguage, tone: j.tone })),
+          targetLanguage,
+          batch[0].options,
+          { metered }
+        );
+
+        if (generation !== this.generation) return;
+        remaining.forEach((job, i) => {
+          cacheTranslation(job.messageId, job.text, targetLanguage, job.fingerprint, translations[i]);
+          this.finish(job, translations[i]);
+        });
+        return;
+      } catch (err: any) {
+        if (generation !== this.generation) return;
+        // Other batches used up the budget while this one waited
+        if (isBudgetError(err)) {
+          this.defer(remaining);
+          return;
+        }
+        if (attempt >= this.options.maxRetries) {
+          console.error("Translation failed after retries", err);
+          const error = err instanceof Error ? err : new Error(String(err));
+          remaining.forEach(job => {
+            this.tracked.delete(job.key);
+            this.emit({ messageId: job.messageId, targetLanguage, sourceText: job.text, error });
+          });
+          return;
+        }
+        const delay = this.options.retryBaseMs * 2 ** attempt;
+        await sleep(delay + Math.random() * delay * 0.25);
+        if (generation !== this.generation) return;
+      }
+    }
+  }
+
+  private defer(jobs: QueuedJob[]) {
+    jobs.forEach(job => {
+      this.tracked.delete(job.key);
+      this.emit({ messageId: job.messageId, targetLanguage: job.targetLanguage, sourceText: job.text, deferred: true });
+    });
+  }
+
+  private finish(job: QueuedJob, translatedText: string) {
+    this.tracked.delete(job.key);
+    this.emit({ messageId: job.messageId, targetLanguage: job.targetLanguage, sourceText: job.text, translatedText });
+  }
+}
+
+export const translationQueue = new TranslationQueue({
+  concurrency: TRANSLATION_CONCURRENCY,
+  batchSize: TRANSLATION_BATCH_SIZE,
+  maxRetries: TRANSLATION_MAX_RETRIES,
+  retryBaseMs: TRANSLATION_RETRY_BASE_MS,
+});
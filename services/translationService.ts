@@ -0,0 +1,218 @@
+import { DEFAULT_TRANSLATION_PROVIDER, LANGUAGE_DETECTION_TIMEOUT_MS, UNKNOWN_LANGUAGE } from "../constants";
+import { MessageTone, TranslationOptions, TranslationProvider, TranslationRequest } from "../types";
+import { geminiProvider } from "./geminiService";
+import { localProvider } from "./localTranslationService";
+import { detectLanguageLocally } from "./languageDetection";
+import { translationCache, translationFingerprint } from "./translationCache";
+import { glossaryFor, glossarySignature, protectTerms } from "./glossary";
+import { protectMarkup } from "./markdown";
+import { budgetError, translationBudget } from "./translationBudget";
+
+/**
+ * Registry of translation backends. The active one is chosen with the
+ * TRANSLATION_PROVIDER environment variable ("gemini" or "local") and can be
+ * swapped at runtime, e.g. to plug in a stub.
+ */
+const providers = new Map<string, TranslationProvider>([
+  [geminiProvider.id, geminiProvider],
+  [localProvider.id, localProvider],
+]);
+
+let activeProviderId = process.env.TRANSLATION_PROVIDER || DEFAULT_TRANSLATION_PROVIDER;
+
+export const registerTranslationProvider = (provider: TranslationProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const setTranslationProvider = (id: string) => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown translation provider: ${id}`);
+  }
+  activeProviderId = id;
+};
+
+export const getTranslationProvider = (): TranslationProvider => {
+  const provider = providers.get(activeProviderId);
+  if (!provider) {
+    console.warn(`JERI Warning: translation provider "${activeProviderId}" is not registered, falling back to "${DEFAULT_TRANSLATION_PROVIDER}".`);
+    return providers.get(DEFAULT_TRANSLATION_PROVIDER)!;
+  }
+  return provider;
+};
+
+/**
+ * Detects the language a message is written in: the translation provider
+ * first, falling back to the local heuristic when it is slow, fails or is
+ * unsure, and finally to `fallback` (usually the sender's profile language).
+ */
+export const detectMessageLanguage = async (text: string, fallback: string): Promise<string> => {
+  let detected = UNKNOWN_LANGUAGE;
+  try {
+    detected = await Promise.race([
+      getTranslationProvider().detectLanguage(text),
+      new Promise<string>(resolve => setTimeout(() => resolve(UNKNOWN_LANGUAGE), LANGUAGE_DETECTION_TIMEOUT_MS)),
+    ]);
+  } catch (e) {
+    console.debug("Provider language detection failed", e);
+  }
+
+  if (detected === UNKNOWN_LANGUAGE) detected = detectLanguageLocally(text);
+  return detected === UNKNOWN_LANGUAGE ? fallback : detected;
+};
+
+/**
+ * Identifies the options that affect a translation into `targetLanguage`.
+ * Jobs with the same key can share one provider call.
+ */
+export const translationOptionsKey = (targetLanguage: string, options: TranslationOptions = {}): string =>
+  [glossarySignature(glossaryFor(options.glossary || [], targetLanguage)), options.formality || '']
+    .filter(Boolean)
+    .join('\u0003');
+
+/**
+ * Cache fingerprint of a text translated by the active provider with the
+ * given options and sender tone. Providers differ in quality, so a reader
+ * never gets another provider's translation as a hit.
+ */
+export const translationFingerprintFor = (
+  text: string,
+  targetLanguage: string,
+  options?: TranslationOptions,
+  tone?: MessageTone
+): string =>
+  translationFingerprint(text, translationOptionsKey(targetLanguage, options), tone || '', getTranslationProvider().id);
+
+/** The provider handed the text back unchanged, as the offline one does for phrases it does not know. */
+const isEcho = (text: string, translated: string) => translated.trim() === text.trim();
+
+/**
+ * Caches a message translation, locally and in the shared table. Echoes are
+ * left out: they are no translation, and once shared every reader of the
+ * language would get the original text as a hit.
+ */
+export const cacheTranslation = async (
+  messageId: string,
+  text: string,
+  targetLanguage: string,
+  fingerprint: string,
+  translated: string
+) => {
+  if (isEcho(text, translated)) return;
+  await translationCache.set(messageId, targetLanguage, fingerprint, translated, getTranslationProvider().id);
+};
+
+/**
+ * Runs texts through the active provider with the options applied: code,
+ * URLs, mentions and glossary terms are swapped for placeholders beforehand
+ * and restored in the result, and formality plus each request's tone go to
+ * the provider. Every call counts against the translation budget; unless
+ * `metered` is false (the reader asked for it), a call that does not fit is
+ * rejected with a budget error instead.
+ */
+export const translateTexts = async (
+  requests: TranslationRequest[],
+  targetLanguage: string,
+  options: TranslationOptions = {},
+  { metered = true }: { metered?: boolean } = {}
+): Promise<string[]> => {
+  const chars = requests.reduce((sum, r) => sum + r.text.length, 0);
+  if (metered && !translationBudget.allows(chars)) throw budgetError();
+  const provider = getTranslationProvider();
+  const glossary = glossaryFor(options.glossary || [], targetLanguage);
+  const prepared = requests.map(r => {
+    const markup = protectMarkup(r.text);
+    const terms = protectTerms(markup.text, glossary, markup.count);
+    return { text: terms.text, restore: (translated: string) => markup.restore(terms.restore(translated)) };
+  });
+  const payload = requests.map((r, i) => ({ ...r, text: prepared[i].text }));
+
+  const translations = provider.translateBatch
+    ? await provider.translateBatch(payload, targetLanguage, { formality: options.formality })
+    : await Promise.all(payload.map(r =>
+      provider.translate(r.text, targetLanguage, r.sourceLanguage, { formality: options.formality, tone: r.tone })));
+
+  translationBudget.record(chars);
+  return translations.map((t, i) => prepared[i].restore(t));
+};
+
+export interface PreviewTranslation {
+  language: string;
+  translatedText: string;
+  /** The translation rendered back into the sender's language. */
+  backTranslation?: string;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Preview cancelled', 'AbortError');
+};
+
+/**
+ * Shows a sender how a draft will read: translated into each target
+ * language, plus a round trip back into their own language for
+ * `backTranslateFrom`. Nothing is cached since the draft has no message id
+ * yet. Aborting `signal` rejects with an AbortError.
+ */
+export const previewTranslation = async (
+  text: string,
+  sourceLanguage: string,
+  targetLanguages: string[],
+  backTranslateFrom: string,
+  { options, tone, signal }: { options?: TranslationOptions; tone?: MessageTone; signal?: AbortSignal } = {}
+): Promise<PreviewTranslation[]> => {
+  const targets = Array.from(new Set(targetLanguages)).filter(language => language !== sourceLanguage);
+  const translations = await Promise.all(targets.map(async language => {
+    const [translatedText] = await translateTexts([{ text, sourceLanguage, tone }], language, options);
+    return { language, translatedText };
+  }));
+  throwIfAborted(signal);
+
+  return Promise.all(translations.map(async (preview): Promise<PreviewTranslation> => {
+    if (preview.language !== backTranslateFrom) return preview;
+    const [backTranslation] = await translateTexts(
+      [{ text: preview.translatedText, sourceLanguage: preview.language, tone }],
+      sourceLanguage,
+      options
+    );
+    throwIfAborted(signal);
+    return { ...preview, backTranslation };
+  }));
+};
+
+/**
+ * Translates a single message right away, outside the room's queue (e.g. for
+ * a notification), reading from and writing to the shared cache.
+ */
+export const translateMessage = async (
+  messageId: string,
+  text: string,
+  targetLanguage: string,
+  sourceLanguage?: string,
+  options?: TranslationOptions,
+  tone?: MessageTone
+): Promise<string> => {
+  const fingerprint = translationFingerprintFor(text, targetLanguage, options, tone);
+  const cached = await translationCache.get(messageId, targetLanguage, fingerprint);
+  if (cached !== undefined) return cached;
+
+  const [translated] = await translateTexts([{ text, sourceLanguage, tone }], targetLanguage, options);
+  await cacheTranslation(messageId, text, targetLanguage, fingerprint, translated);
+  return translated;
+};
+
+/** Translates the text read from an image attachment, cached on this device per attachment. */
+export const translateImageText = async (
+  attachmentId: string,
+  text: string,
+  targetLanguage: string,
+  sourceLanguage?: string,
+  options?: TranslationOptions
+): Promise<string> => {
+  const key = `attachment:${attachmentId}`;
+  const fingerprint = translationFingerprintFor(text, targetLanguage, options);
+  const cached = await translationCache.getOnDevice(key, targetLanguage, fingerprint);
+  if (cached !== undefined) return cached;
+
+  const [translated] = await translateTexts([{ text, sourceLanguage }], targetLanguage, options);
+  if (!isEcho(text, translated)) await translationCache.setOnDevice(key, targetLanguage, fingerprint, translated);
+  return translated;
+};
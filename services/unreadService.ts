@@ -0,0 +1,37 @@
+import { supabase } from './supabase';
+
+export interface RoomUnreadState {
+  unread: number;
+  muted: boolean;
+}
+
+class UnreadService {
+  async getUnreadCounts(email: string): Promise<Record<string, RoomUnreadState>> {
+    const { data, error } = await supabase.rpc('unread_counts', { member_email: email });
+    if (error) throw error;
+
+    const counts: Record<string, RoomUnreadState> = {};
+    (data || []).forEach((row: any) => {
+      counts[row.room_id] = { unread: Number(row.unread) || 0, muted: !!row.muted };
+    });
+    return counts;
+  }
+
+  async markRead(roomId: string, email: string, messageId: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_room_read', {
+      target_room: roomId,
+      member_email: email,
+      message_id: messageId
+    });
+    if (error) throw error;
+  }
+
+  async setMuted(roomId: string, email: string, muted: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('room_reads')
+      .upsert({ room_id: roomId, user_email: email, muted }, { onConflict: 'room_id,user_email' });
+    if (error) throw error;
+  }
+}
+
+export const unreadService = new UnreadService();
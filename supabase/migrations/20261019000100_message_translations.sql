@@ -0,0 +1,22 @@
+-- Shared translation cache: the first reader's translation of a message
+-- into a language is reused by everyone else reading in that language.
+create table if not exists public.message_translations (
+  message_id uuid not null references public.messages(id) on delete cascade,
+  language text not null,
+  translated_text text not null,
+  provider text,
+  created_at timestamptz not null default now(),
+  primary key (message_id, language)
+);
+
+alter table public.message_translations enable row level security;
+
+create policy "Translations are readable by everyone"
+  on public.message_translations for select
+  to anon, authenticated
+  using (true);
+
+create policy "Anyone can contribute a translation"
+  on public.message_translations for insert
+  to anon, authenticated
+  with check (true);
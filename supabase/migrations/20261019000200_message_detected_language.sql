@@ -0,0 +1,4 @@
+-- Language the message text is written in, detected when it is sent.
+-- sender_language remains the sender's profile language at the time.
+alter table public.messages
+  add column if not exists detected_language text;
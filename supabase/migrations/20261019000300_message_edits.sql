@@ -0,0 +1,26 @@
+-- Message editing and soft deletion.
+alter table public.messages
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+-- Realtime UPDATE payloads need the full row
+alter table public.messages replica identity full;
+
+-- Only signed-in senders can change their own messages. Guests have no
+-- verifiable identity yet, so they cannot edit or delete.
+create policy "Senders can edit their own messages"
+  on public.messages for update
+  to authenticated
+  using (sender_email = auth.jwt() ->> 'email')
+  with check (sender_email = auth.jwt() ->> 'email');
+
+-- Cached translations are validated against a fingerprint of the source
+-- text, so an edit invalidates them and the next reader overwrites them.
+alter table public.message_translations
+  add column if not exists source_fingerprint text not null default '';
+
+create policy "Anyone can refresh a stale translation"
+  on public.message_translations for update
+  to anon, authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,60 @@
+-- Friend requests and friendships between signed-in users, keyed by email.
+create table if not exists public.friendships (
+  id uuid primary key default gen_random_uuid(),
+  requester_email text not null,
+  requester_username text not null,
+  addressee_email text not null,
+  addressee_username text not null,
+  status text not null default 'pending' check (status in ('pending', 'accepted')),
+  created_at timestamptz not null default now(),
+  responded_at timestamptz,
+  check (requester_email <> addressee_email)
+);
+
+-- One relationship per pair, whichever side asked first
+create unique index if not exists friendships_pair_idx
+  on public.friendships (least(requester_email, addressee_email), greatest(requester_email, addressee_email));
+
+alter table public.friendships enable row level security;
+
+create policy "Users see their own friendships"
+  on public.friendships for select
+  to authenticated
+  using (auth.jwt() ->> 'email' in (requester_email, addressee_email));
+
+create policy "Users send requests as themselves"
+  on public.friendships for insert
+  to authenticated
+  with check (requester_email = auth.jwt() ->> 'email' and status = 'pending');
+
+create policy "Addressees accept requests"
+  on public.friendships for update
+  to authenticated
+  using (addressee_email = auth.jwt() ->> 'email')
+  with check (addressee_email = auth.jwt() ->> 'email');
+
+-- Declining, cancelling and unfriending all delete the row, so the pair can
+-- connect again later
+create policy "Either side can end a friendship"
+  on public.friendships for delete
+  to authenticated
+  using (auth.jwt() ->> 'email' in (requester_email, addressee_email));
+
+-- Looks up a registered user by exact email or username without exposing
+-- the auth schema to clients.
+create or replace function public.find_user(identifier text)
+returns table (email text, username text)
+language sql
+security definer
+set search_path = public, auth
+stable
+as $$
+  select u.email::text, coalesce(u.raw_user_meta_data ->> 'username', split_part(u.email, '@', 1))
+  from auth.users u
+  where auth.role() = 'authenticated'
+    and (lower(u.email) = lower(identifier) or lower(u.raw_user_meta_data ->> 'username') = lower(identifier))
+  limit 1;
+$$;
+
+revoke all on function public.find_user(text) from public;
+grant execute on function public.find_user(text) to authenticated;
@@ -0,0 +1,124 @@
+-- Room directory and membership.
+create table if not exists public.rooms (
+  id text primary key,
+  name text not null,
+  description text not null default '',
+  default_language text not null default 'en',
+  visibility text not null default 'public' check (visibility in ('public', 'private', 'invite_only')),
+  invite_code text not null unique default encode(gen_random_bytes(6), 'hex'),
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  last_activity_at timestamptz not null default now()
+);
+
+create index if not exists rooms_public_activity_idx
+  on public.rooms (last_activity_at desc) where visibility = 'public';
+
+create table if not exists public.room_members (
+  room_id text not null references public.rooms(id) on delete cascade,
+  user_email text not null,
+  joined_at timestamptz not null default now(),
+  primary key (room_id, user_email)
+);
+
+insert into public.rooms (id, name, description, visibility, created_by)
+values ('LOBBY', 'Global Lobby', 'Instant translation with the world.', 'public', 'system')
+on conflict (id) do nothing;
+
+-- Signed-in users are identified by their JWT email; guests (anon) can only
+-- act as their generated guest address until they have real identities.
+create or replace function public.current_member_email(claimed text)
+returns boolean
+language sql
+stable
+as $$
+  select case
+    when auth.role() = 'authenticated' then claimed = auth.jwt() ->> 'email'
+    else claimed like 'guest-%@jeri.chat'
+  end;
+$$;
+
+alter table public.rooms enable row level security;
+alter table public.room_members enable row level security;
+
+create policy "Public and private rooms are listed to everyone"
+  on public.rooms for select
+  to anon, authenticated
+  using (visibility <> 'invite_only' or exists (
+    select 1 from public.room_members m
+    where m.room_id = rooms.id and public.current_member_email(m.user_email)
+  ));
+
+create policy "Signed-in users create rooms"
+  on public.rooms for insert
+  to authenticated
+  with check (created_by = auth.jwt() ->> 'email');
+
+create policy "Creators edit their rooms"
+  on public.rooms for update
+  to authenticated
+  using (created_by = auth.jwt() ->> 'email');
+
+create policy "Members see who else is in their rooms"
+  on public.room_members for select
+  to anon, authenticated
+  using (true);
+
+-- Invite-only rooms are joined through join_room_by_invite instead
+create policy "Users join visible rooms as themselves"
+  on public.room_members for insert
+  to anon, authenticated
+  with check (
+    public.current_member_email(user_email)
+    and exists (select 1 from public.rooms r where r.id = room_id and r.visibility <> 'invite_only')
+  );
+
+create policy "Users leave rooms"
+  on public.room_members for delete
+  to anon, authenticated
+  using (public.current_member_email(user_email));
+
+create or replace function public.join_room_by_invite(code text, member_email text)
+returns setof public.rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.rooms;
+begin
+  if not public.current_member_email(member_email) then
+    raise exception 'Cannot join as %', member_email using errcode = '42501';
+  end if;
+
+  select * into target from public.rooms where invite_code = code;
+  if not found then
+    return;
+  end if;
+
+  insert into public.room_members (room_id, user_email)
+  values (target.id, member_email)
+  on conflict do nothing;
+
+  return next target;
+end;
+$$;
+
+grant execute on function public.join_room_by_invite(text, text) to anon, authenticated;
+
+-- Keep last_activity_at current so "my rooms" can be sorted by it
+create or replace function public.touch_room_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.rooms set last_activity_at = new.created_at where id = new.room_id;
+  return new;
+end;
+$$;
+
+create trigger messages_touch_room_activity
+  after insert on public.messages
+  for each row execute function public.touch_room_activity();
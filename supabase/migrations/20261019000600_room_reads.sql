@@ -0,0 +1,67 @@
+-- Per-user read markers and notification settings for each room, including
+-- direct-message rooms that are not in the directory.
+create table if not exists public.room_reads (
+  room_id text not null,
+  user_email text not null,
+  last_read_message_id uuid,
+  last_read_at timestamptz not null default '-infinity',
+  muted boolean not null default false,
+  primary key (room_id, user_email)
+);
+
+alter table public.room_reads enable row level security;
+
+create policy "Users manage their own read markers"
+  on public.room_reads for all
+  to anon, authenticated
+  using (public.current_member_email(user_email))
+  with check (public.current_member_email(user_email));
+
+-- Marks everything up to and including the given message as read, using the
+-- message's own timestamp so client clocks do not matter.
+create or replace function public.mark_room_read(target_room text, member_email text, message_id uuid)
+returns void
+language sql
+as $$
+  insert into public.room_reads (room_id, user_email, last_read_message_id, last_read_at)
+  select target_room, member_email, m.id, m.created_at
+  from public.messages m
+  where m.id = message_id and m.room_id = target_room
+  on conflict (room_id, user_email) do update
+    set last_read_message_id = excluded.last_read_message_id,
+        last_read_at = excluded.last_read_at
+    where room_reads.last_read_at < excluded.last_read_at;
+$$;
+
+-- Unread messages from others per room, for every room the user has a read
+-- marker in or has joined.
+create or replace function public.unread_counts(member_email text)
+returns table (room_id text, unread bigint, muted boolean)
+language sql
+stable
+as $$
+  with tracked as (
+    select r.room_id, r.last_read_at, r.muted
+    from public.room_reads r
+    where r.user_email = member_email
+    union all
+    select m.room_id, '-infinity'::timestamptz, false
+    from public.room_members m
+    where m.user_email = member_email
+      and not exists (select 1 from public.room_reads r where r.room_id = m.room_id and r.user_email = member_email)
+  )
+  select t.room_id,
+         (select count(*) from public.messages msg
+          where msg.room_id = t.room_id
+            and msg.created_at > t.last_read_at
+            and msg.sender_email <> member_email
+            and msg.deleted_at is null),
+         t.muted
+  from tracked t
+  where public.current_member_email(member_email);
+$$;
+
+grant execute on function public.mark_room_read(text, text, uuid) to anon, authenticated;
+grant execute on function public.unread_counts(text) to anon, authenticated;
+
+create index if not exists messages_room_created_idx on public.messages (room_id, created_at);
@@ -0,0 +1,40 @@
+-- Threaded replies: a reply points at the message it answers. Replies
+-- outlive a hard-deleted parent and simply lose their quote.
+alter table public.messages
+  add column if not exists reply_to_id uuid references public.messages(id) on delete set null;
+
+create index if not exists messages_reply_to_idx on public.messages (reply_to_id) where reply_to_id is not null;
+
+-- One row per user and emoji on a message; counts are aggregated client side.
+create table if not exists public.message_reactions (
+  message_id uuid not null references public.messages(id) on delete cascade,
+  room_id text not null,
+  user_email text not null,
+  username text not null,
+  emoji text not null check (char_length(emoji) between 1 and 16),
+  created_at timestamptz not null default now(),
+  primary key (message_id, user_email, emoji)
+);
+
+create index if not exists message_reactions_room_idx on public.message_reactions (room_id);
+
+-- Realtime DELETE payloads need the full row to know which message changed
+alter table public.message_reactions replica identity full;
+alter publication supabase_realtime add table public.message_reactions;
+
+alter table public.message_reactions enable row level security;
+
+create policy "Reactions are readable by everyone"
+  on public.message_reactions for select
+  to anon, authenticated
+  using (true);
+
+create policy "Users react as themselves"
+  on public.message_reactions for insert
+  to anon, authenticated
+  with check (public.current_member_email(user_email));
+
+create policy "Users remove their own reactions"
+  on public.message_reactions for delete
+  to anon, authenticated
+  using (public.current_member_email(user_email));
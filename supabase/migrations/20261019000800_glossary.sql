@@ -0,0 +1,45 @@
+-- Glossary and do-not-translate terms. An entry belongs either to a room
+-- (managed by the room's creator, applied for every reader) or to a single
+-- user (applied only to their own reading). Entries without a translation
+-- are kept verbatim in every language.
+create table if not exists public.glossary_entries (
+  id uuid primary key default gen_random_uuid(),
+  room_id text references public.rooms(id) on delete cascade,
+  owner_email text,
+  term text not null check (char_length(trim(term)) between 1 and 100),
+  translation text,
+  target_language text,
+  created_at timestamptz not null default now(),
+  check ((room_id is null) <> (owner_email is null)),
+  check (translation is null or target_language is not null)
+);
+
+create index if not exists glossary_entries_room_idx on public.glossary_entries (room_id) where room_id is not null;
+create index if not exists glossary_entries_owner_idx on public.glossary_entries (owner_email) where owner_email is not null;
+
+alter table public.glossary_entries enable row level security;
+
+create policy "Room glossaries are public, personal ones private"
+  on public.glossary_entries for select
+  to anon, authenticated
+  using (room_id is not null or public.current_member_email(owner_email));
+
+create policy "Room creators and owners add entries"
+  on public.glossary_entries for insert
+  to anon, authenticated
+  with check (
+    case when room_id is not null
+      then exists (select 1 from public.rooms r where r.id = room_id and r.created_by = auth.jwt() ->> 'email')
+      else public.current_member_email(owner_email)
+    end
+  );
+
+create policy "Room creators and owners remove entries"
+  on public.glossary_entries for delete
+  to anon, authenticated
+  using (
+    case when room_id is not null
+      then exists (select 1 from public.rooms r where r.id = room_id and r.created_by = auth.jwt() ->> 'email')
+      else public.current_member_email(owner_email)
+    end
+  );
@@ -0,0 +1,4 @@
+-- Optional tone hint the sender attaches to a message; translators keep it.
+alter table public.messages
+  add column if not exists tone text
+  check (tone in ('friendly', 'formal', 'playful', 'serious', 'sarcastic'));
@@ -0,0 +1,21 @@
+-- Voice messages: the audio lives in Storage, the transcript in `text`.
+alter table public.messages
+  add column if not exists voice_path text,
+  add column if not exists voice_duration_ms integer,
+  add column if not exists voice_mime_type text;
+
+insert into storage.buckets (id, name, public)
+values ('voice-messages', 'voice-messages', false)
+on conflict (id) do nothing;
+
+-- Objects are stored as <room id>/<message id>.<ext>. Playback uses signed
+-- URLs, so reading only requires knowing the path from a visible message.
+create policy "Voice messages are readable"
+  on storage.objects for select
+  to anon, authenticated
+  using (bucket_id = 'voice-messages');
+
+create policy "Anyone in the chat can upload voice messages"
+  on storage.objects for insert
+  to anon, authenticated
+  with check (bucket_id = 'voice-messages');
@@ -0,0 +1,57 @@
+-- Files sent with a message. The file lives in Storage; the message text is
+-- its caption and is translated like any other message.
+create table if not exists public.message_attachments (
+  id uuid primary key,
+  message_id uuid not null references public.messages(id) on delete cascade,
+  room_id text not null,
+  path text not null,
+  file_name text not null,
+  mime_type text not null,
+  size_bytes bigint not null check (size_bytes between 0 and 10485760),
+  width integer,
+  height integer,
+  -- Filled in by the first reader who asks for the text in an image
+  extracted_text text,
+  extracted_language text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists message_attachments_message_idx on public.message_attachments (message_id);
+
+alter publication supabase_realtime add table public.message_attachments;
+
+alter table public.message_attachments enable row level security;
+
+create policy "Attachments are readable by everyone"
+  on public.message_attachments for select
+  to anon, authenticated
+  using (true);
+
+create policy "Senders attach files to their own messages"
+  on public.message_attachments for insert
+  to anon, authenticated
+  with check (exists (
+    select 1 from public.messages m
+    where m.id = message_id and m.room_id = message_attachments.room_id
+      and public.current_member_email(m.sender_email)
+  ));
+
+create policy "Anyone can store text read from an image once"
+  on public.message_attachments for update
+  to anon, authenticated
+  using (extracted_text is null)
+  with check (true);
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('attachments', 'attachments', false, 10485760)
+on conflict (id) do nothing;
+
+create policy "Attachments are downloadable"
+  on storage.objects for select
+  to anon, authenticated
+  using (bucket_id = 'attachments');
+
+create policy "Anyone in the chat can upload attachments"
+  on storage.objects for insert
+  to anon, authenticated
+  with check (bucket_id = 'attachments');
@@ -0,0 +1,9 @@
+-- People a message addresses, as [{ "email": ..., "username": ... }]. Kept
+-- apart from the text so mentions do not depend on how it is translated.
+alter table public.messages
+  add column if not exists mentions jsonb not null default '[]'::jsonb
+    check (jsonb_typeof(mentions) = 'array');
+
+-- Serves the mentions inbox: messages whose mentions contain { "email": ... }
+create index if not exists messages_mentions_idx
+  on public.messages using gin (mentions jsonb_path_ops);
@@ -0,0 +1,66 @@
+-- Full-text search over original messages and their shared translations.
+-- The 'simple' configuration does no stemming, so it treats every language
+-- the same way.
+alter table public.messages
+  add column if not exists search_vector tsvector
+    generated always as (to_tsvector('simple', coalesce(text, ''))) stored;
+
+create index if not exists messages_search_idx on public.messages using gin (search_vector);
+
+alter table public.message_translations
+  add column if not exists search_vector tsvector
+    generated always as (to_tsvector('simple', coalesce(translated_text, ''))) stored;
+
+create index if not exists message_translations_search_idx on public.message_translations using gin (search_vector);
+
+-- Matching messages, newest first. A message matches on its own text or on
+-- any cached translation; the best matching translation is returned with it.
+create or replace function public.search_messages(
+  search_query text,
+  target_room text default null,
+  sender text default null,
+  message_language text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  result_limit integer default 50
+)
+returns table (message_id uuid, translation_language text, translated_text text)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', search_query) as q
+  ),
+  candidates as (
+    select m.id, m.created_at
+    from public.messages m, query
+    where m.deleted_at is null
+      and (target_room is null or m.room_id = target_room)
+      and (sender is null or m.sender_email = sender)
+      and (message_language is null or coalesce(m.detected_language, m.sender_language) = message_language)
+      and (created_after is null or m.created_at >= created_after)
+      and (created_before is null or m.created_at < created_before)
+      and (
+        m.search_vector @@ query.q
+        or exists (
+          select 1 from public.message_translations t
+          where t.message_id = m.id and t.search_vector @@ query.q
+        )
+      )
+    order by m.created_at desc
+    limit least(greatest(result_limit, 1), 200)
+  )
+  select c.id, best.language, best.translated_text
+  from candidates c
+  cross join query
+  left join lateral (
+    select t.language, t.translated_text
+    from public.message_translations t
+    where t.message_id = c.id and t.search_vector @@ query.q
+    order by ts_rank(t.search_vector, query.q) desc
+    limit 1
+  ) best on true
+  order by c.created_at desc;
+$$;
+
+grant execute on function public.search_messages(text, text, text, text, timestamptz, timestamptz, integer) to anon, authenticated;
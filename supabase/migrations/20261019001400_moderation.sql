@@ -0,0 +1,215 @@
+-- Room moderation. A room's creator is its owner; owners appoint
+-- moderators among the members. Moderators remove messages, mute, kick and
+-- ban members, and work through reported messages. Rooms without an owner,
+-- such as the lobby, get their moderators in SQL:
+--   update public.room_members set role = 'moderator'
+--   where room_id = 'LOBBY' and user_email = '...';
+alter table public.room_members
+  add column if not exists role text not null default 'member'
+    check (role in ('moderator', 'member'));
+
+-- Mutes stop someone posting and reacting; bans also keep them out of the room
+create table if not exists public.room_restrictions (
+  room_id text not null references public.rooms(id) on delete cascade,
+  user_email text not null,
+  kind text not null check (kind in ('mute', 'ban')),
+  reason text not null default '',
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  -- Null means until lifted
+  expires_at timestamptz,
+  primary key (room_id, user_email, kind)
+);
+
+create table if not exists public.message_reports (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.messages(id) on delete cascade,
+  room_id text not null,
+  reporter_email text not null,
+  reason text not null default '',
+  status text not null default 'open' check (status in ('open', 'resolved', 'dismissed')),
+  resolved_by text,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (message_id, reporter_email)
+);
+
+create index if not exists message_reports_queue_idx
+  on public.message_reports (room_id, created_at) where status = 'open';
+
+-- Security definer so policies can consult roles and restrictions the
+-- caller is not allowed to read directly
+create or replace function public.room_role(target_room text, member_email text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from rooms r where r.id = target_room and r.created_by = member_email) then 'owner'
+    else coalesce((select m.role from room_members m where m.room_id = target_room and m.user_email = member_email), 'member')
+  end;
+$$;
+
+-- Guests have no verified identity and cannot moderate
+create or replace function public.is_room_moderator(target_room text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.role() = 'authenticated'
+    and public.room_role(target_room, auth.jwt() ->> 'email') in ('owner', 'moderator');
+$$;
+
+-- Owners act on anyone but themselves; moderators only on plain members
+create or replace function public.can_moderate(target_room text, member_email text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.role() = 'authenticated' and coalesce(
+    case public.room_role(target_room, auth.jwt() ->> 'email')
+      when 'owner' then member_email <> auth.jwt() ->> 'email'
+      when 'moderator' then public.room_role(target_room, member_email) = 'member'
+      else false
+    end,
+    false
+  );
+$$;
+
+-- A ban counts as a mute too
+create or replace function public.is_restricted(target_room text, member_email text, restriction text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from room_restrictions
+    where room_id = target_room
+      and user_email = member_email
+      and (kind = restriction or kind = 'ban')
+      and (expires_at is null or expires_at > now())
+  );
+$$;
+
+grant execute on function public.room_role(text, text) to anon, authenticated;
+grant execute on function public.is_room_moderator(text) to anon, authenticated;
+grant execute on function public.can_moderate(text, text) to anon, authenticated;
+grant execute on function public.is_restricted(text, text, text) to anon, authenticated;
+
+-- Restrictive policies apply on top of the ones that allow posting at all
+create policy "Muted and banned users cannot post"
+  on public.messages as restrictive for insert
+  to anon, authenticated
+  with check (not public.is_restricted(room_id, sender_email, 'mute'));
+
+create policy "Muted and banned users cannot react"
+  on public.message_reactions as restrictive for insert
+  to anon, authenticated
+  with check (not public.is_restricted(room_id, user_email, 'mute'));
+
+create policy "Banned users cannot join and members join as members"
+  on public.room_members as restrictive for insert
+  to anon, authenticated
+  with check (role = 'member' and not public.is_restricted(room_id, user_email, 'ban'));
+
+-- Moderators can only blank a message, not rewrite it
+create policy "Moderators remove messages"
+  on public.messages for update
+  to authenticated
+  using (public.is_room_moderator(room_id))
+  with check (public.is_room_moderator(room_id) and deleted_at is not null and text = '');
+
+create policy "Moderators kick members"
+  on public.room_members for delete
+  to authenticated
+  using (public.can_moderate(room_id, user_email));
+
+create policy "Owners appoint moderators"
+  on public.room_members for update
+  to authenticated
+  using (public.room_role(room_id, auth.jwt() ->> 'email') = 'owner')
+  with check (public.room_role(room_id, auth.jwt() ->> 'email') = 'owner');
+
+alter table public.room_restrictions enable row level security;
+
+create policy "Moderators and the restricted user see restrictions"
+  on public.room_restrictions for select
+  to anon, authenticated
+  using (public.is_room_moderator(room_id) or public.current_member_email(user_email));
+
+create policy "Moderators restrict members"
+  on public.room_restrictions for insert
+  to authenticated
+  with check (public.can_moderate(room_id, user_email) and created_by = auth.jwt() ->> 'email');
+
+create policy "Moderators change restrictions"
+  on public.room_restrictions for update
+  to authenticated
+  using (public.can_moderate(room_id, user_email))
+  with check (public.can_moderate(room_id, user_email) and created_by = auth.jwt() ->> 'email');
+
+create policy "Moderators lift restrictions"
+  on public.room_restrictions for delete
+  to authenticated
+  using (public.is_room_moderator(room_id));
+
+alter table public.message_reports enable row level security;
+
+create policy "Users report messages as themselves"
+  on public.message_reports for insert
+  to anon, authenticated
+  with check (
+    public.current_member_email(reporter_email)
+    and status = 'open'
+    and exists (select 1 from public.messages m where m.id = message_id and m.room_id = message_reports.room_id)
+  );
+
+create policy "Moderators and reporters see reports"
+  on public.message_reports for select
+  to anon, authenticated
+  using (public.is_room_moderator(room_id) or public.current_member_email(reporter_email));
+
+create policy "Moderators close reports"
+  on public.message_reports for update
+  to authenticated
+  using (public.is_room_moderator(room_id))
+  with check (public.is_room_moderator(room_id) and resolved_by = auth.jwt() ->> 'email');
+
+-- Invites must not get banned users back in
+create or replace function public.join_room_by_invite(code text, member_email text)
+returns setof public.rooms
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target public.rooms;
+begin
+  if not public.current_member_email(member_email) then
+    raise exception 'Cannot join as %', member_email using errcode = '42501';
+  end if;
+
+  select * into target from public.rooms where invite_code = code;
+  if not found then
+    return;
+  end if;
+
+  if public.is_restricted(target.id, member_email, 'ban') then
+    raise exception 'You are banned from this room' using errcode = '42501';
+  end if;
+
+  insert into public.room_members (room_id, user_email)
+  values (target.id, member_email)
+  on conflict do nothing;
+
+  return next target;
+end;
+$$;
@@ -0,0 +1,50 @@
+-- Content filtering. The filter itself runs in the client (see
+-- services/contentSafety.ts); the database keeps each room's policy and what
+-- the filter found, and turns findings in "flag" rooms into reports.
+alter table public.rooms
+  add column if not exists content_policy text not null default 'off'
+    check (content_policy in ('off', 'block', 'blur', 'flag'));
+
+alter table public.messages
+  add column if not exists content_flags text[] not null default '{}';
+
+-- Reports filed by the filter rather than by a person, also when an edit is flagged
+create or replace function public.report_flagged_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if cardinality(new.content_flags) > 0
+    and exists (select 1 from rooms r where r.id = new.room_id and r.content_policy = 'flag') then
+    insert into message_reports (message_id, room_id, reporter_email, reason)
+    values (new.id, new.room_id, 'system', 'Content filter: ' || array_to_string(new.content_flags, ', '))
+    on conflict (message_id, reporter_email) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_report_flagged on public.messages;
+create trigger messages_report_flagged
+  after insert or update of content_flags on public.messages
+  for each row execute function public.report_flagged_message();
+
+-- Readers report translations the filter objects to; the report is filed
+-- as the filter, not as the reader, and only in rooms that flag
+create or replace function public.flag_message(target_message uuid, flag_reason text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into message_reports (message_id, room_id, reporter_email, reason)
+  select m.id, m.room_id, 'system', flag_reason
+  from messages m
+  join rooms r on r.id = m.room_id
+  where m.id = target_message and r.content_policy = 'flag'
+  on conflict (message_id, reporter_email) do nothing;
+$$;
+
+grant execute on function public.flag_message(uuid, text) to anon, authenticated;
@@ -0,0 +1,89 @@
+-- Flood protection for messages, enforced when rows are inserted so no client
+-- can skip it. Rejections use their own SQLSTATEs: JR429 for "too fast" with
+-- the seconds to wait in the hint, JR409 for a repeated message.
+alter table public.rooms
+  add column if not exists slow_mode_seconds integer not null default 0
+    check (slow_mode_seconds between 0 and 3600);
+
+create index if not exists messages_sender_created_idx
+  on public.messages (sender_email, created_at desc);
+
+-- Guests are free to mint, so their sends are also counted per address
+create table if not exists public.guest_send_log (
+  client_address text not null,
+  sent_at timestamptz not null default now()
+);
+
+create index if not exists guest_send_log_address_idx
+  on public.guest_send_log (client_address, sent_at desc);
+
+-- Only the trigger below writes and reads it
+alter table public.guest_send_log enable row level security;
+
+create or replace function public.enforce_message_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  slow_mode integer;
+  last_sent timestamptz;
+  sender_address text;
+begin
+  -- A resend of a message that already arrived is ignored by the upsert; let it through
+  if exists (select 1 from messages m where m.id = new.id) then
+    return new;
+  end if;
+
+  if (select count(*) from messages m
+      where m.sender_email = new.sender_email and m.created_at > now() - interval '10 seconds') >= 5
+    or (select count(*) from messages m
+      where m.sender_email = new.sender_email and m.created_at > now() - interval '1 minute') >= 20 then
+    raise exception 'You are sending messages too quickly' using errcode = 'JR429', hint = '10';
+  end if;
+
+  if (select count(*) from messages m
+      where m.room_id = new.room_id and m.created_at > now() - interval '10 seconds') >= 30 then
+    raise exception 'This room is receiving too many messages' using errcode = 'JR429', hint = '10';
+  end if;
+
+  select r.slow_mode_seconds into slow_mode from rooms r where r.id = new.room_id;
+  if coalesce(slow_mode, 0) > 0 and not public.is_room_moderator(new.room_id) then
+    select max(m.created_at) into last_sent from messages m
+    where m.room_id = new.room_id and m.sender_email = new.sender_email;
+    if last_sent > now() - make_interval(secs => slow_mode) then
+      raise exception 'Slow mode is on in this room' using errcode = 'JR429',
+        hint = ceil(extract(epoch from last_sent + make_interval(secs => slow_mode) - now()))::text;
+    end if;
+  end if;
+
+  if new.text <> '' and new.voice_path is null and exists (
+    select 1 from messages m
+    where m.room_id = new.room_id and m.sender_email = new.sender_email
+      and m.text = new.text and m.deleted_at is null
+      and m.created_at > now() - interval '30 seconds'
+  ) then
+    raise exception 'You just sent the same message' using errcode = 'JR409';
+  end if;
+
+  if auth.role() <> 'authenticated' then
+    sender_address := split_part(coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1);
+    if sender_address <> '' then
+      delete from guest_send_log where sent_at < now() - interval '1 hour';
+      if (select count(*) from guest_send_log g
+          where g.client_address = sender_address and g.sent_at > now() - interval '1 minute') >= 20 then
+        raise exception 'Too many guest messages from this network' using errcode = 'JR429', hint = '60';
+      end if;
+      insert into guest_send_log (client_address) values (sender_address);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_enforce_limits on public.messages;
+create trigger messages_enforce_limits
+  before insert on public.messages
+  for each row execute function public.enforce_message_limits();
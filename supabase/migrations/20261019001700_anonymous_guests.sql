@@ -0,0 +1,218 @@
+-- Guests sign in with Supabase anonymous auth instead of making up an email
+-- in the browser. Their address in email-keyed tables is derived from the
+-- auth user id, so the database can check it like any member's.
+create or replace function public.is_guest()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce((auth.jwt() ->> 'is_anonymous')::boolean, false);
+$$;
+
+-- The caller's address: the account email, or guest-<user id>@jeri.chat for guests
+create or replace function public.auth_email()
+returns text
+language sql
+stable
+as $$
+  select case
+    when auth.uid() is null then null
+    when public.is_guest() then 'guest-' || auth.uid() || '@jeri.chat'
+    else auth.jwt() ->> 'email'
+  end;
+$$;
+
+-- Every policy built on this now checks guests as strictly as members
+create or replace function public.current_member_email(claimed text)
+returns boolean
+language sql
+stable
+as $$
+  select claimed = public.auth_email();
+$$;
+
+-- Messages are attributed to the auth user; the email is kept for display
+-- and for the tables still keyed by it
+alter table public.messages
+  add column if not exists sender_id uuid references auth.users(id) on delete set null;
+
+update public.messages m
+set sender_id = u.id
+from auth.users u
+where m.sender_id is null and lower(u.email) = lower(m.sender_email);
+
+create index if not exists messages_sender_id_idx on public.messages (sender_id, created_at desc);
+
+-- Whatever the client sends, the sender is whoever is signed in. Named to
+-- run before messages_enforce_limits, which counts by sender.
+create or replace function public.attribute_message_sender()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.sender_id := auth.uid();
+  new.sender_email := public.auth_email();
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_attribute_sender on public.messages;
+create trigger messages_attribute_sender
+  before insert on public.messages
+  for each row execute function public.attribute_message_sender();
+
+create policy "Only signed-in users and guests send messages"
+  on public.messages as restrictive for insert
+  to anon, authenticated
+  with check (auth.uid() is not null);
+
+-- Guests can now prove authorship, so they edit and delete like members
+drop policy if exists "Senders can edit their own messages" on public.messages;
+create policy "Senders can edit their own messages"
+  on public.messages for update
+  to authenticated
+  using (sender_id = auth.uid())
+  with check (sender_id = auth.uid());
+
+-- Anonymous sessions carry the authenticated role; guests still cannot moderate
+create or replace function public.is_room_moderator(target_room text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.role() = 'authenticated' and not public.is_guest()
+    and public.room_role(target_room, auth.jwt() ->> 'email') in ('owner', 'moderator');
+$$;
+
+create or replace function public.can_moderate(target_room text, member_email text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.role() = 'authenticated' and not public.is_guest() and coalesce(
+    case public.room_role(target_room, auth.jwt() ->> 'email')
+      when 'owner' then member_email <> auth.jwt() ->> 'email'
+      when 'moderator' then public.room_role(target_room, member_email) = 'member'
+      else false
+    end,
+    false
+  );
+$$;
+
+-- Guests cannot be found as friends, nor look others up
+create or replace function public.find_user(identifier text)
+returns table (email text, username text)
+language sql
+security definer
+set search_path = public, auth
+stable
+as $$
+  select u.email::text, coalesce(u.raw_user_meta_data ->> 'username', split_part(u.email, '@', 1))
+  from auth.users u
+  where auth.role() = 'authenticated' and not public.is_guest()
+    and not u.is_anonymous
+    and (lower(u.email) = lower(identifier) or lower(u.raw_user_meta_data ->> 'username') = lower(identifier))
+  limit 1;
+$$;
+
+-- Flood protection per network address now applies to guest sessions,
+-- which run with the authenticated role
+create or replace function public.enforce_message_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  slow_mode integer;
+  last_sent timestamptz;
+  sender_address text;
+begin
+  -- A resend of a message that already arrived is ignored by the upsert; let it through
+  if exists (select 1 from messages m where m.id = new.id) then
+    return new;
+  end if;
+
+  if (select count(*) from messages m
+      where m.sender_email = new.sender_email and m.created_at > now() - interval '10 seconds') >= 5
+    or (select count(*) from messages m
+      where m.sender_email = new.sender_email and m.created_at > now() - interval '1 minute') >= 20 then
+    raise exception 'You are sending messages too quickly' using errcode = 'JR429', hint = '10';
+  end if;
+
+  if (select count(*) from messages m
+      where m.room_id = new.room_id and m.created_at > now() - interval '10 seconds') >= 30 then
+    raise exception 'This room is receiving too many messages' using errcode = 'JR429', hint = '10';
+  end if;
+
+  select r.slow_mode_seconds into slow_mode from rooms r where r.id = new.room_id;
+  if coalesce(slow_mode, 0) > 0 and not public.is_room_moderator(new.room_id) then
+    select max(m.created_at) into last_sent from messages m
+    where m.room_id = new.room_id and m.sender_email = new.sender_email;
+    if last_sent > now() - make_interval(secs => slow_mode) then
+      raise exception 'Slow mode is on in this room' using errcode = 'JR429',
+        hint = ceil(extract(epoch from last_sent + make_interval(secs => slow_mode) - now()))::text;
+    end if;
+  end if;
+
+  if new.text <> '' and new.voice_path is null and exists (
+    select 1 from messages m
+    where m.room_id = new.room_id and m.sender_email = new.sender_email
+      and m.text = new.text and m.deleted_at is null
+      and m.created_at > now() - interval '30 seconds'
+  ) then
+    raise exception 'You just sent the same message' using errcode = 'JR409';
+  end if;
+
+  if public.is_guest() then
+    sender_address := split_part(coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), ',', 1);
+    if sender_address <> '' then
+      delete from guest_send_log where sent_at < now() - interval '1 hour';
+      if (select count(*) from guest_send_log g
+          where g.client_address = sender_address and g.sent_at > now() - interval '1 minute') >= 20 then
+        raise exception 'Too many guest messages from this network' using errcode = 'JR429', hint = '60';
+      end if;
+      insert into guest_send_log (client_address) values (sender_address);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- When a guest confirms an email the auth user stays the same, so their
+-- messages, rooms and preferences carry over; only the rows keyed by the
+-- guest address need moving to the new one.
+create or replace function public.claim_guest_history()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  guest_email text := 'guest-' || new.id || '@jeri.chat';
+begin
+  update messages set sender_email = new.email where sender_id = new.id;
+  update messages
+  set mentions = replace(mentions::text, to_jsonb(guest_email)::text, to_jsonb(new.email::text)::text)::jsonb
+  where mentions @> jsonb_build_array(jsonb_build_object('email', guest_email));
+  update message_reactions set user_email = new.email where user_email = guest_email;
+  update room_members set user_email = new.email where user_email = guest_email;
+  update room_reads set user_email = new.email where user_email = guest_email;
+  update room_restrictions set user_email = new.email where user_email = guest_email;
+  update message_reports set reporter_email = new.email where reporter_email = guest_email;
+  update glossary_entries set owner_email = new.email where owner_email = guest_email;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_guest_upgraded on auth.users;
+create trigger on_guest_upgraded
+  after update of is_anonymous on auth.users
+  for each row
+  when (old.is_anonymous and not new.is_anonymous and new.email is not null)
+  execute function public.claim_guest_history();
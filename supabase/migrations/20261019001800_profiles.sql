@@ -0,0 +1,187 @@
+-- Public profiles, one per auth user (guests included). Messages point at
+-- their sender's profile instead of copying the name and language, so a
+-- rename or new avatar shows on old messages without touching them.
+create table if not exists public.profiles (
+  id uuid primary key references auth.users(id) on delete cascade,
+  username text not null check (char_length(trim(username)) between 2 and 32),
+  avatar_url text,
+  preferred_language text not null default 'en',
+  bio text check (char_length(bio) <= 280),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists profiles_username_idx on public.profiles (lower(username));
+
+alter table public.profiles enable row level security;
+
+create policy "Profiles are public"
+  on public.profiles for select
+  to anon, authenticated
+  using (true);
+
+create policy "Users edit their own profile"
+  on public.profiles for update
+  to authenticated
+  using (id = auth.uid())
+  with check (id = auth.uid());
+
+alter publication supabase_realtime add table public.profiles;
+
+create or replace function public.username_available(candidate text)
+returns boolean
+language sql
+stable
+as $$
+  select not exists (select 1 from public.profiles p where lower(p.username) = lower(trim(candidate)));
+$$;
+
+grant execute on function public.username_available(text) to anon, authenticated;
+
+-- The wanted name, or the first free "name 2", "name 3"... when it is taken
+create or replace function public.free_username(wanted text)
+returns text
+language plpgsql
+stable
+as $$
+declare
+  base text := left(coalesce(nullif(trim(wanted), ''), 'Guest'), 28);
+  candidate text := base;
+  suffix integer := 1;
+begin
+  while char_length(candidate) < 2 or not public.username_available(candidate) loop
+    suffix := suffix + 1;
+    candidate := base || ' ' || suffix;
+  end loop;
+  return candidate;
+end;
+$$;
+
+-- Sign-up and anonymous sign-in pass the name and language as user metadata
+create or replace function public.create_profile()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profiles (id, username, preferred_language)
+  values (
+    new.id,
+    public.free_username(coalesce(new.raw_user_meta_data ->> 'username', split_part(new.email, '@', 1))),
+    coalesce(new.raw_user_meta_data ->> 'preferredLanguage', 'en')
+  )
+  on conflict (id) do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.create_profile();
+
+-- Existing users, one at a time so clashing names get suffixes
+do $$
+declare
+  u record;
+begin
+  for u in select * from auth.users where id not in (select id from public.profiles) order by created_at loop
+    insert into public.profiles (id, username, preferred_language)
+    values (
+      u.id,
+      public.free_username(coalesce(u.raw_user_meta_data ->> 'username', split_part(u.email, '@', 1))),
+      coalesce(u.raw_user_meta_data ->> 'preferredLanguage', 'en')
+    );
+  end loop;
+end;
+$$;
+
+-- Messages keep only who sent them; name and language come from the
+-- profile. Rows from the old made-up guests have no profile and fall back
+-- to their address.
+alter table public.messages drop constraint if exists messages_sender_id_fkey;
+alter table public.messages
+  add constraint messages_sender_profile_fkey
+    foreign key (sender_id) references public.profiles(id) on delete set null;
+
+alter table public.messages
+  drop column if exists sender_username,
+  drop column if exists sender_language;
+
+-- Friend lookup by the unique profile name
+create or replace function public.find_user(identifier text)
+returns table (email text, username text)
+language sql
+security definer
+set search_path = public, auth
+stable
+as $$
+  select u.email::text, p.username
+  from auth.users u
+  join public.profiles p on p.id = u.id
+  where auth.role() = 'authenticated' and not public.is_guest()
+    and not u.is_anonymous
+    and (lower(u.email) = lower(identifier) or lower(p.username) = lower(identifier))
+  limit 1;
+$$;
+
+-- The sender language filter now falls back to the sender's profile
+create or replace function public.search_messages(
+  search_query text,
+  target_room text default null,
+  sender text default null,
+  message_language text default null,
+  created_after timestamptz default null,
+  created_before timestamptz default null,
+  result_limit integer default 50
+)
+returns table (message_id uuid, translation_language text, translated_text text)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('simple', search_query) as q
+  ),
+  candidates as (
+    select m.id, m.created_at
+    from public.messages m
+    cross join query
+    left join public.profiles p on p.id = m.sender_id
+    where m.deleted_at is null
+      and (target_room is null or m.room_id = target_room)
+      and (sender is null or m.sender_email = sender)
+      and (message_language is null or coalesce(m.detected_language, p.preferred_language) = message_language)
+      and (created_after is null or m.created_at >= created_after)
+      and (created_before is null or m.created_at < created_before)
+      and (
+        m.search_vector @@ query.q
+        or exists (
+          select 1 from public.message_translations t
+          where t.message_id = m.id and t.search_vector @@ query.q
+        )
+      )
+    order by m.created_at desc
+    limit least(greatest(result_limit, 1), 200)
+  )
+  select c.id, best.language, best.translated_text
+  from candidates c
+  cross join query
+  left join lateral (
+    select t.language, t.translated_text
+    from public.message_translations t
+    where t.message_id = c.id and t.search_vector @@ query.q
+    order by ts_rank(t.search_vector, query.q) desc
+    limit 1
+  ) best on true
+  order by c.created_at desc;
+$$;
+
+-- Avatars are public images stored as <user id>/<file name>
+insert into storage.buckets (id, name, public)
+values ('avatars', 'avatars', true)
+on conflict (id) do nothing;
+
+create policy "Users upload their own avatar"
+  on storage.objects for insert
+  to authenticated
+  with check (bucket_id = 'avatars' and (storage.foldername(name))[1] = auth.uid()::text);
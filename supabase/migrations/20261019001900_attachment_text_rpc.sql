@@ -0,0 +1,18 @@
+-- The update policy on message_attachments let any client rewrite every
+-- column of a row whose image had not been read yet. Readers now go through
+-- a function that can only fill in the text, and only once.
+drop policy if exists "Anyone can store text read from an image once" on public.message_attachments;
+
+create or replace function public.save_extracted_text(target_attachment uuid, text_read text, text_language text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update message_attachments
+  set extracted_text = text_read, extracted_language = text_language
+  where id = target_attachment and extracted_text is null;
+$$;
+
+revoke all on function public.save_extracted_text(uuid, text, text) from public;
+grant execute on function public.save_extracted_text(uuid, text, text) to anon, authenticated;
@@ -0,0 +1,66 @@
+-- Shared translations were writable by anyone, so one client could replace
+-- what every reader of a message sees. Now only people in the message's room
+-- write them, each row records its author, and a translation of the current
+-- text is never replaced, only a stale one.
+alter table public.message_translations
+  add column if not exists translated_by uuid default auth.uid() references auth.users(id) on delete set null;
+
+drop policy if exists "Anyone can contribute a translation" on public.message_translations;
+drop policy if exists "Anyone can refresh a stale translation" on public.message_translations;
+
+-- Members of a room, or either side of a direct conversation. Direct room
+-- ids are derived from the pair of emails the same way the client does it.
+create or replace function public.is_room_participant(target_room text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from room_members rm
+    where rm.room_id = target_room and rm.user_email = public.auth_email()
+  ) or (target_room like 'DM-%' and exists (
+    select 1 from friendships f
+    where f.status = 'accepted'
+      and public.auth_email() in (f.requester_email, f.addressee_email)
+      and target_room = 'DM-' || upper(left(encode(sha256(convert_to(
+        least(lower(f.requester_email) collate "C", lower(f.addressee_email) collate "C") || '|' ||
+        greatest(lower(f.requester_email) collate "C", lower(f.addressee_email) collate "C"),
+        'UTF8')), 'hex'), 16))
+  ));
+$$;
+
+create policy "Room participants contribute translations"
+  on public.message_translations for insert
+  to authenticated
+  with check (
+    translated_by = auth.uid()
+    and exists (select 1 from public.messages m where m.id = message_id and public.is_room_participant(m.room_id))
+  );
+
+create policy "Room participants refresh stale translations"
+  on public.message_translations for update
+  to authenticated
+  using (exists (select 1 from public.messages m where m.id = message_id and public.is_room_participant(m.room_id)))
+  with check (translated_by = auth.uid());
+
+-- An upsert for the same source text keeps the row that is already there
+create or replace function public.keep_current_translation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.source_fingerprint = old.source_fingerprint then
+    return null;
+  end if;
+  new.translated_by := auth.uid();
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists message_translations_keep_current on public.message_translations;
+create trigger message_translations_keep_current
+  before update on public.message_translations
+  for each row execute function public.keep_current_translation();
@@ -0,0 +1,96 @@
+-- Anonymous sessions carry the authenticated role and an empty email claim,
+-- so policies comparing against auth.jwt() ->> 'email' matched rows with an
+-- empty creator. They now use public.auth_email() and shut guests out of
+-- what only members may do.
+
+-- Rooms a guest managed to create with an empty creator lose their owner
+update public.rooms set created_by = 'system' where created_by = '';
+
+drop policy if exists "Signed-in users create rooms" on public.rooms;
+create policy "Signed-in users create rooms"
+  on public.rooms for insert
+  to authenticated
+  with check (not public.is_guest() and created_by = public.auth_email());
+
+drop policy if exists "Creators edit their rooms" on public.rooms;
+create policy "Creators edit their rooms"
+  on public.rooms for update
+  to authenticated
+  using (not public.is_guest() and created_by = public.auth_email());
+
+drop policy if exists "Owners appoint moderators" on public.room_members;
+create policy "Owners appoint moderators"
+  on public.room_members for update
+  to authenticated
+  using (not public.is_guest() and public.room_role(room_id, public.auth_email()) = 'owner')
+  with check (not public.is_guest() and public.room_role(room_id, public.auth_email()) = 'owner');
+
+drop policy if exists "Room creators and owners add entries" on public.glossary_entries;
+create policy "Room creators and owners add entries"
+  on public.glossary_entries for insert
+  to anon, authenticated
+  with check (
+    case when room_id is not null
+      then not public.is_guest()
+        and exists (select 1 from public.rooms r where r.id = room_id and r.created_by = public.auth_email())
+      else public.current_member_email(owner_email)
+    end
+  );
+
+drop policy if exists "Room creators and owners remove entries" on public.glossary_entries;
+create policy "Room creators and owners remove entries"
+  on public.glossary_entries for delete
+  to anon, authenticated
+  using (
+    case when room_id is not null
+      then not public.is_guest()
+        and exists (select 1 from public.rooms r where r.id = room_id and r.created_by = public.auth_email())
+      else public.current_member_email(owner_email)
+    end
+  );
+
+-- Friendships are for members only
+drop policy if exists "Users see their own friendships" on public.friendships;
+create policy "Users see their own friendships"
+  on public.friendships for select
+  to authenticated
+  using (not public.is_guest() and public.auth_email() in (requester_email, addressee_email));
+
+drop policy if exists "Users send requests as themselves" on public.friendships;
+create policy "Users send requests as themselves"
+  on public.friendships for insert
+  to authenticated
+  with check (not public.is_guest() and requester_email = public.auth_email() and status = 'pending');
+
+drop policy if exists "Addressees accept requests" on public.friendships;
+create policy "Addressees accept requests"
+  on public.friendships for update
+  to authenticated
+  using (not public.is_guest() and addressee_email = public.auth_email())
+  with check (not public.is_guest() and addressee_email = public.auth_email());
+
+drop policy if exists "Either side can end a friendship" on public.friendships;
+create policy "Either side can end a friendship"
+  on public.friendships for delete
+  to authenticated
+  using (not public.is_guest() and public.auth_email() in (requester_email, addressee_email));
+
+drop policy if exists "Moderators restrict members" on public.room_restrictions;
+create policy "Moderators restrict members"
+  on public.room_restrictions for insert
+  to authenticated
+  with check (public.can_moderate(room_id, user_email) and created_by = public.auth_email());
+
+drop policy if exists "Moderators change restrictions" on public.room_restrictions;
+create policy "Moderators change restrictions"
+  on public.room_restrictions for update
+  to authenticated
+  using (public.can_moderate(room_id, user_email))
+  with check (public.can_moderate(room_id, user_email) and created_by = public.auth_email());
+
+drop policy if exists "Moderators close reports" on public.message_reports;
+create policy "Moderators close reports"
+  on public.message_reports for update
+  to authenticated
+  using (public.is_room_moderator(room_id))
+  with check (public.is_room_moderator(room_id) and resolved_by = public.auth_email());
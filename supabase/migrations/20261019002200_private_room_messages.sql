@@ -0,0 +1,79 @@
+-- Messages had no read policy of their own, so history, realtime and search
+-- returned any room's messages to anyone who knew or guessed its id. Now
+-- public rooms are open to everyone and every other room, direct rooms
+-- included, only to the people in it.
+create or replace function public.can_read_room(target_room text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from rooms r where r.id = target_room and r.visibility = 'public')
+    or public.is_room_participant(target_room);
+$$;
+
+grant execute on function public.can_read_room(text) to anon, authenticated;
+
+alter table public.messages enable row level security;
+
+create policy "Messages are readable in rooms open to the reader"
+  on public.messages for select
+  to anon, authenticated
+  using (public.can_read_room(room_id));
+
+-- Restrictive too, so it holds whatever read policy the table started with
+create policy "Messages stay inside their room"
+  on public.messages as restrictive for select
+  to anon, authenticated
+  using (public.can_read_room(room_id));
+
+-- What hangs off a message is as private as the message
+drop policy if exists "Translations are readable by everyone" on public.message_translations;
+create policy "Translations are readable with their message"
+  on public.message_translations for select
+  to anon, authenticated
+  using (exists (select 1 from public.messages m where m.id = message_id));
+
+drop policy if exists "Reactions are readable by everyone" on public.message_reactions;
+create policy "Reactions are readable in rooms open to the reader"
+  on public.message_reactions for select
+  to anon, authenticated
+  using (public.can_read_room(room_id));
+
+drop policy if exists "Attachments are readable by everyone" on public.message_attachments;
+create policy "Attachments are readable in rooms open to the reader"
+  on public.message_attachments for select
+  to anon, authenticated
+  using (public.can_read_room(room_id));
+
+-- unread_counts, mark_room_read and search_messages run with the caller's
+-- rights, so they now only see messages through the policies above. Unread
+-- counts also stop listing rooms the reader has been shut out of.
+create or replace function public.unread_counts(member_email text)
+returns table (room_id text, unread bigint, muted boolean)
+language sql
+stable
+security invoker
+as $$
+  with tracked as (
+    select r.room_id, r.last_read_at, r.muted
+    from public.room_reads r
+    where r.user_email = member_email
+    union all
+    select m.room_id, '-infinity'::timestamptz, false
+    from public.room_members m
+    where m.user_email = member_email
+      and not exists (select 1 from public.room_reads r where r.room_id = m.room_id and r.user_email = member_email)
+  )
+  select t.room_id,
+         (select count(*) from public.messages msg
+          where msg.room_id = t.room_id
+            and msg.created_at > t.last_read_at
+            and msg.sender_email <> member_email
+            and msg.deleted_at is null),
+         t.muted
+  from tracked t
+  where public.current_member_email(member_email)
+    and public.can_read_room(t.room_id);
+$$;
@@ -0,0 +1,32 @@
+-- A shared translation depends on the reader's formality and personal
+-- glossary as well as the text, all of which go into its fingerprint. With
+-- one row per message and language, readers with different settings kept
+-- replacing each other's row and missing the cache. Each variant now has a
+-- row of its own; an existing one is never rewritten.
+alter table public.message_translations
+  drop constraint if exists message_translations_pkey,
+  add primary key (message_id, language, source_fingerprint);
+
+drop trigger if exists message_translations_keep_current on public.message_translations;
+drop function if exists public.keep_current_translation();
+drop policy if exists "Room participants refresh stale translations" on public.message_translations;
+
+-- An edit leaves every variant of the old text stale
+create or replace function public.drop_stale_translations()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from message_translations where message_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_drop_stale_translations on public.messages;
+create trigger messages_drop_stale_translations
+  after update of text on public.messages
+  for each row
+  when (old.text is distinct from new.text)
+  execute function public.drop_stale_translations();
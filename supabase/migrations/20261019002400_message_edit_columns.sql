@@ -0,0 +1,46 @@
+-- The update policies only check who is changing a message, not what they
+-- change, so a sender could move a message into a room they are muted in,
+-- clear its filter findings or undo a moderator's removal. Clients may now
+-- only change the text (with the detected language and filter findings
+-- that describe it) and delete; the timestamps are set here.
+create or replace function public.limit_message_changes()
+returns trigger
+language plpgsql
+as $$
+declare
+  changeable text[] := array['text', 'edited_at', 'deleted_at', 'detected_language', 'content_flags', 'search_vector'];
+begin
+  -- Functions running as the table owner, such as claim_guest_history, are trusted
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'This message has been deleted' using errcode = '42501';
+  end if;
+
+  if (to_jsonb(new) - changeable) is distinct from (to_jsonb(old) - changeable) then
+    raise exception 'Only the text of a message can be changed' using errcode = '42501';
+  end if;
+
+  if new.deleted_at is not null then
+    new.text := '';
+    new.deleted_at := now();
+    new.edited_at := old.edited_at;
+  elsif new.text is distinct from old.text then
+    new.edited_at := now();
+  elsif new.detected_language is distinct from old.detected_language
+    or new.content_flags is distinct from old.content_flags then
+    raise exception 'The language and filter findings only change with the text' using errcode = '42501';
+  else
+    new.edited_at := old.edited_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_limit_changes on public.messages;
+create trigger messages_limit_changes
+  before update on public.messages
+  for each row execute function public.limit_message_changes();
@@ -0,0 +1,61 @@
+-- find_user handed back the email of whoever had a given username, so any
+-- member could collect every member's address one name at a time. It now
+-- returns the profile only, and requests are sent to the profile id; the
+-- address is looked up here and never leaves the database on the way.
+drop function if exists public.find_user(text);
+
+create function public.find_user(identifier text)
+returns table (id uuid, username text)
+language sql
+security definer
+set search_path = public, auth
+stable
+as $$
+  select p.id, p.username
+  from auth.users u
+  join public.profiles p on p.id = u.id
+  where auth.role() = 'authenticated' and not public.is_guest()
+    and not u.is_anonymous
+    and (lower(u.email) = lower(identifier) or lower(p.username) = lower(identifier))
+  limit 1;
+$$;
+
+revoke all on function public.find_user(text) from public;
+grant execute on function public.find_user(text) to authenticated;
+
+create or replace function public.send_friend_request(target_user uuid)
+returns setof public.friendships
+language plpgsql
+security definer
+set search_path = public, auth
+as $$
+declare
+  target_email text;
+  target_name text;
+begin
+  if auth.role() <> 'authenticated' or public.is_guest() then
+    raise exception 'Only members can add friends' using errcode = '42501';
+  end if;
+  if target_user = auth.uid() then
+    raise exception 'You cannot add yourself' using errcode = '22023';
+  end if;
+
+  select u.email, p.username into target_email, target_name
+  from auth.users u
+  join profiles p on p.id = u.id
+  where u.id = target_user and not u.is_anonymous;
+  if not found then
+    raise exception 'No such user' using errcode = 'P0002';
+  end if;
+
+  return query
+    insert into friendships (requester_email, requester_username, addressee_email, addressee_username)
+    select public.auth_email(), p.username, target_email, target_name
+    from profiles p
+    where p.id = auth.uid()
+    returning *;
+end;
+$$;
+
+revoke all on function public.send_friend_request(uuid) from public;
+grant execute on function public.send_friend_request(uuid) to authenticated;
@@ -0,0 +1,98 @@
+-- Both media buckets took any upload from anyone and served every object
+-- to anyone, which made them an open file host and left the files of
+-- private rooms readable. Objects are stored under their room's id, so the
+-- first folder of the path now decides who may upload and who may read.
+drop policy if exists "Voice messages are readable" on storage.objects;
+drop policy if exists "Anyone in the chat can upload voice messages" on storage.objects;
+drop policy if exists "Attachments are downloadable" on storage.objects;
+drop policy if exists "Anyone in the chat can upload attachments" on storage.objects;
+
+create policy "Room media is readable in rooms open to the reader"
+  on storage.objects for select
+  to anon, authenticated
+  using (
+    bucket_id in ('voice-messages', 'attachments')
+    and public.can_read_room((storage.foldername(name))[1])
+  );
+
+create policy "Room participants upload media to their rooms"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id in ('voice-messages', 'attachments')
+    and public.is_room_participant((storage.foldername(name))[1])
+  );
+
+-- Deleting a message takes its files with it, whether the sender or a moderator deletes it
+create policy "Uploaders and moderators remove room media"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id in ('voice-messages', 'attachments')
+    and (owner_id = auth.uid()::text or public.is_room_moderator((storage.foldername(name))[1]))
+  );
+
+-- Recordings are audio and no larger than any attachment
+update storage.buckets
+set file_size_limit = 10485760, allowed_mime_types = array['audio/*']
+where id = 'voice-messages';
+
+-- A deleted message also loses its recording and its attachment rows
+create or replace function public.limit_message_changes()
+returns trigger
+language plpgsql
+as $$
+declare
+  changeable text[] := array['text', 'edited_at', 'deleted_at', 'detected_language', 'content_flags', 'search_vector'];
+begin
+  -- Functions running as the table owner, such as claim_guest_history, are trusted
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if old.deleted_at is not null then
+    raise exception 'This message has been deleted' using errcode = '42501';
+  end if;
+
+  if (to_jsonb(new) - changeable) is distinct from (to_jsonb(old) - changeable) then
+    raise exception 'Only the text of a message can be changed' using errcode = '42501';
+  end if;
+
+  if new.deleted_at is not null then
+    new.text := '';
+    new.deleted_at := now();
+    new.edited_at := old.edited_at;
+    new.voice_path := null;
+    new.voice_duration_ms := null;
+    new.voice_mime_type := null;
+  elsif new.text is distinct from old.text then
+    new.edited_at := now();
+  elsif new.detected_language is distinct from old.detected_language
+    or new.content_flags is distinct from old.content_flags then
+    raise exception 'The language and filter findings only change with the text' using errcode = '42501';
+  else
+    new.edited_at := old.edited_at;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.drop_deleted_message_attachments()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from message_attachments where message_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_drop_deleted_attachments on public.messages;
+create trigger messages_drop_deleted_attachments
+  after update of deleted_at on public.messages
+  for each row
+  when (old.deleted_at is null and new.deleted_at is not null)
+  execute function public.drop_deleted_message_attachments();
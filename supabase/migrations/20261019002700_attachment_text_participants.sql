@@ -0,0 +1,17 @@
+-- Anyone could set the shared text of any image, and the first write is
+-- kept for good. Only people in the attachment's room may now fill it in,
+-- and guests without a session not at all.
+create or replace function public.save_extracted_text(target_attachment uuid, text_read text, text_language text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update message_attachments
+  set extracted_text = text_read, extracted_language = text_language
+  where id = target_attachment and extracted_text is null
+    and public.is_room_participant(room_id);
+$$;
+
+revoke all on function public.save_extracted_text(uuid, text, text) from public, anon;
+grant execute on function public.save_extracted_text(uuid, text, text) to authenticated;
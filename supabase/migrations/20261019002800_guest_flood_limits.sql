@@ -0,0 +1,69 @@
+-- The guest limit was keyed on the first x-forwarded-for entry, which the
+-- client writes itself; the proxy appends the address it saw, so the last
+-- entry is the one to trust. And since the room-wide cap stopped everyone,
+-- a few guests could silence a room for its members and moderators. The
+-- cap now counts and stops guests only: members keep their own per-sender
+-- limits, and moderators are held to neither the cap nor slow mode.
+create or replace function public.enforce_message_limits()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  slow_mode integer;
+  last_sent timestamptz;
+  sender_address text;
+begin
+  -- A resend of a message that already arrived is ignored by the upsert; let it through
+  if exists (select 1 from messages m where m.id = new.id) then
+    return new;
+  end if;
+
+  if (select count(*) from messages m
+      where m.sender_email = new.sender_email and m.created_at > now() - interval '10 seconds') >= 5
+    or (select count(*) from messages m
+      where m.sender_email = new.sender_email and m.created_at > now() - interval '1 minute') >= 20 then
+    raise exception 'You are sending messages too quickly' using errcode = 'JR429', hint = '10';
+  end if;
+
+  if public.is_guest() and (select count(*) from messages m
+      where m.room_id = new.room_id and m.sender_email like 'guest-%@jeri.chat'
+        and m.created_at > now() - interval '10 seconds') >= 30 then
+    raise exception 'This room is receiving too many messages from guests' using errcode = 'JR429', hint = '10';
+  end if;
+
+  select r.slow_mode_seconds into slow_mode from rooms r where r.id = new.room_id;
+  if coalesce(slow_mode, 0) > 0 and not public.is_room_moderator(new.room_id) then
+    select max(m.created_at) into last_sent from messages m
+    where m.room_id = new.room_id and m.sender_email = new.sender_email;
+    if last_sent > now() - make_interval(secs => slow_mode) then
+      raise exception 'Slow mode is on in this room' using errcode = 'JR429',
+        hint = ceil(extract(epoch from last_sent + make_interval(secs => slow_mode) - now()))::text;
+    end if;
+  end if;
+
+  if new.text <> '' and new.voice_path is null and exists (
+    select 1 from messages m
+    where m.room_id = new.room_id and m.sender_email = new.sender_email
+      and m.text = new.text and m.deleted_at is null
+      and m.created_at > now() - interval '30 seconds'
+  ) then
+    raise exception 'You just sent the same message' using errcode = 'JR409';
+  end if;
+
+  if public.is_guest() then
+    sender_address := trim(regexp_replace(coalesce(current_setting('request.headers', true)::json ->> 'x-forwarded-for', ''), '^.*,', ''));
+    if sender_address <> '' then
+      delete from guest_send_log where sent_at < now() - interval '1 hour';
+      if (select count(*) from guest_send_log g
+          where g.client_address = sender_address and g.sent_at > now() - interval '1 minute') >= 20 then
+        raise exception 'Too many guest messages from this network' using errcode = 'JR429', hint = '60';
+      end if;
+      insert into guest_send_log (client_address) values (sender_address);
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
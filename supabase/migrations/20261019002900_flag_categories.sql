@@ -0,0 +1,38 @@
+-- flag_message let anyone file a filter report with any text against any
+-- message in a room that flags. Only people in the room may now flag, and
+-- the reason is built from the filter's own categories, as are the
+-- findings stored with messages.
+alter table public.messages
+  add constraint messages_content_flags_known
+    check (content_flags <@ array['profanity', 'insult', 'hate', 'sexual', 'violence']::text[]) not valid;
+
+drop function if exists public.flag_message(uuid, text);
+
+create function public.flag_message(target_message uuid, categories text[], translation_language text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if cardinality(categories) = 0
+    or not categories <@ array['profanity', 'insult', 'hate', 'sexual', 'violence']::text[] then
+    raise exception 'Unknown content filter category' using errcode = '22023';
+  end if;
+  if translation_language !~ '^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$' then
+    raise exception 'Invalid language code' using errcode = '22023';
+  end if;
+
+  insert into message_reports (message_id, room_id, reporter_email, reason)
+  select m.id, m.room_id, 'system',
+    'Content filter (' || translation_language || ' translation): ' || array_to_string(categories, ', ')
+  from messages m
+  join rooms r on r.id = m.room_id
+  where m.id = target_message and r.content_policy = 'flag'
+    and public.is_room_participant(m.room_id)
+  on conflict (message_id, reporter_email) do nothing;
+end;
+$$;
+
+revoke all on function public.flag_message(uuid, text[], text) from public, anon;
+grant execute on function public.flag_message(uuid, text[], text) to authenticated;
@@ -1,30 +1,260 @@
 
 export interface User {
+  /** Auth user id, which is also the profile id. */
+  id?: string;
   username: string;
   email: string;
   preferredLanguage: string;
+  avatarUrl?: string;
+  bio?: string;
+  /** Register the reader wants translations in; unset leaves it to the translator. */
+  formality?: Formality | null;
   friends: string[]; // Array of emails
   friendRequests: string[]; // Array of emails
 }
 
+/** Public profile of a user or guest. Messages show their sender's current one. */
+export interface Profile {
+  id: string;
+  username: string;
+  avatarUrl?: string;
+  preferredLanguage: string;
+  bio?: string;
+}
+
 export interface Message {
   id: string;
+  roomId?: string;
+  /** Profile of the sender; absent on messages from before profiles existed. */
+  senderId?: string;
+  /** Sender's name and language from their profile when the message was loaded. */
   sender: string;
   senderEmail: string;
   senderLanguage: string;
+  /** Language the text is actually written in, when it was detected on send. */
+  detectedLanguage?: string;
   text: string;
   timestamp: number;
+  editedAt?: number;
+  /** Set when the message was deleted; the text is cleared and a tombstone is shown. */
+  deletedAt?: number;
+  /** The message this one replies to. */
+  replyToId?: string;
+  /** How the sender wants the message to come across, kept through translation. */
+  tone?: MessageTone;
+  /** Recorded audio; `text` then holds its transcript. */
+  voice?: VoiceClip;
+  /** Files sent with the message; `text` is their caption. */
+  attachments?: Attachment[];
+  /** People addressed with @handle in the text, stored apart from it. */
+  mentions?: MessageMention[];
+  /** What the content filter found in the text when it was sent. */
+  contentFlags?: SafetyCategory[];
+  /** Every individual reaction; only present when loaded with history. */
+  reactions?: MessageReaction[];
 }
 
+export interface VoiceClip {
+  /** Object path in the voice message storage bucket. */
+  path: string;
+  durationMs: number;
+  mimeType: string;
+}
+
+export interface Attachment {
+  id: string;
+  /** Object path in the attachment storage bucket. */
+  path: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+  /** Text read from an image, once someone has asked for it. */
+  extractedText?: string;
+  extractedLanguage?: string;
+}
+
+/** Text read out of an image attachment, translated for the reader. */
+export interface ImageText {
+  status: 'reading' | 'done' | 'failed';
+  text?: string;
+  translatedText?: string;
+}
+
+export interface MessageMention {
+  email: string;
+  username: string;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  userEmail: string;
+  username: string;
+}
+
+/** Local delivery status of a message we sent; absent for messages from the server. */
+export type DeliveryState = 'pending' | 'sent' | 'failed';
+
 export interface TranslatedMessage extends Message {
+  /** Object URL of a voice recording we just made, played until the upload is visible. */
+  localAudioUrl?: string;
+  /** Object URLs of files we just attached, keyed by attachment id. */
+  localAttachmentUrls?: Record<string, string>;
   translatedText?: string;
+  /** What the content filter found in the translation; empty once checked and clean. */
+  translationFlags?: SafetyCategory[];
   isTranslating?: boolean;
+  translationFailed?: boolean;
+  /** Held back because the translation budget is used up; translated when tapped. */
+  translationDeferred?: boolean;
+  deliveryState?: DeliveryState;
 }
 
+/** Position in a room's history: the oldest row of the last page loaded. */
+export interface HistoryCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface HistoryPage {
+  messages: Message[];
+  cursor: HistoryCursor | null;
+  hasMore: boolean;
+  /** Only set for pages loaded around an older message: whether later messages exist. */
+  hasNewer?: boolean;
+}
+
+export interface SearchFilters {
+  query: string;
+  roomId?: string;
+  senderEmail?: string;
+  /** Language the message was written in. */
+  language?: string;
+  /** Inclusive start and exclusive end, as timestamps. */
+  from?: number;
+  to?: number;
+}
+
+export interface SearchResult {
+  message: Message;
+  /** The cached translation that matched, when the original did not. */
+  translation?: { language: string; text: string };
+}
+
+export type FriendshipStatus = 'pending' | 'accepted';
+
+export interface Friendship {
+  id: string;
+  requesterEmail: string;
+  requesterUsername: string;
+  addresseeEmail: string;
+  addresseeUsername: string;
+  status: FriendshipStatus;
+  createdAt: number;
+}
+
+/** Someone currently viewing a room, as tracked by Realtime presence. */
+export interface PresenceMember {
+  email: string;
+  username: string;
+  language: string;
+  onlineAt: number;
+}
+
+/** Ephemeral notification sent over the global system channel. */
+export interface SystemEvent {
+  type: 'friend_request' | 'friend_accepted' | 'friend_removed';
+  to: string; // Recipient email
+  from: string; // Sender email
+  fromUsername: string;
+}
+
+export type RoomVisibility = 'public' | 'private' | 'invite_only';
+
 export interface ChatRoom {
   id: string;
   name: string;
   isDirect?: boolean;
+  description?: string;
+  defaultLanguage?: string;
+  visibility?: RoomVisibility;
+  inviteCode?: string;
+  createdBy?: string;
+  createdAt?: number;
+  lastActivityAt?: number;
+  contentPolicy?: ContentPolicy;
+  /** Seconds members wait between messages; 0 when slow mode is off. */
+  slowModeSeconds?: number;
+}
+
+/**
+ * What a room does with text the content filter objects to: refuse to send
+ * it, blur it until the reader clicks, or let it through and report it to
+ * the moderators.
+ */
+export type ContentPolicy = 'off' | 'block' | 'blur' | 'flag';
+
+export type SafetyCategory = 'profanity' | 'insult' | 'hate' | 'sexual' | 'violence';
+
+export interface SafetyVerdict {
+  flagged: boolean;
+  categories: SafetyCategory[];
+  /** The words that matched, for moderators; providers without them leave it empty. */
+  matches: string[];
+}
+
+/** A backend that decides whether text is offensive, in any supported language. */
+export interface ContentSafetyProvider {
+  id: string;
+  check(text: string, language?: string): Promise<SafetyVerdict>;
+}
+
+/** The room's creator is its owner; owners appoint moderators. */
+export type RoomRole = 'owner' | 'moderator' | 'member';
+
+export type RestrictionKind = 'mute' | 'ban';
+
+export interface RoomRestriction {
+  roomId: string;
+  userEmail: string;
+  kind: RestrictionKind;
+  reason: string;
+  createdBy: string;
+  createdAt: number;
+  /** Absent when it lasts until lifted. */
+  expiresAt?: number;
+}
+
+export type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface MessageReport {
+  id: string;
+  messageId: string;
+  roomId: string;
+  reporterEmail: string;
+  reason: string;
+  status: ReportStatus;
+  createdAt: number;
+  /** The reported message, when loaded with the moderation queue. */
+  message?: Message;
+}
+
+/** Broadcast to everyone in the room when a moderator acts or a report comes in. */
+export interface ModerationEvent {
+  type: 'message_removed' | 'restricted' | 'unrestricted' | 'kicked' | 'role_changed' | 'reported';
+  by: string;
+  targetEmail?: string;
+  messageId?: string;
+  kind?: RestrictionKind;
+  role?: RoomRole;
+}
+
+export interface NewRoom {
+  name: string;
+  description: string;
+  defaultLanguage: string;
+  visibility: RoomVisibility;
 }
 
 export interface Language {
@@ -32,3 +262,73 @@ export interface Language {
   name: string;
   nativeName: string;
 }
+
+/**
+ * A term the translator must respect. Room entries apply to everyone reading
+ * the room, personal ones only to their owner and win over room entries.
+ */
+export interface GlossaryEntry {
+  id: string;
+  roomId?: string;
+  ownerEmail?: string;
+  term: string;
+  /** Rendering to use in `targetLanguage`; without one the term is kept verbatim. */
+  translation?: string;
+  targetLanguage?: string;
+}
+
+/** Formal (Sie, vous, keigo) or informal (du, tu, casual speech) address. */
+export type Formality = 'formal' | 'informal';
+
+export type MessageTone = 'friendly' | 'formal' | 'playful' | 'serious' | 'sarcastic';
+
+/** Per-reader settings that change how a message is translated. */
+export interface TranslationOptions {
+  glossary?: GlossaryEntry[];
+  formality?: Formality;
+}
+
+/** Style instructions passed through to the provider. */
+export interface TranslationHints {
+  formality?: Formality;
+  tone?: MessageTone;
+}
+
+export interface Transcript {
+  text: string;
+  /** Spoken language, when the provider could tell. */
+  language?: string;
+}
+
+/** A backend that turns recorded speech, and optionally text in images, into text. */
+export interface TranscriptionProvider {
+  id: string;
+  transcribe(audio: Blob, languageHint?: string): Promise<Transcript>;
+  /** Reads the text shown in an image (OCR); optional. */
+  readImageText?(image: Blob): Promise<Transcript>;
+}
+
+export interface LanguagePair {
+  source: string;
+  target: string;
+}
+
+export interface TranslationRequest {
+  text: string;
+  sourceLanguage?: string;
+  tone?: MessageTone;
+}
+
+/**
+ * A backend capable of translating chat text. Language arguments are
+ * ISO 639-1 codes as listed in SUPPORTED_LANGUAGES.
+ */
+export interface TranslationProvider {
+  id: string;
+  /** Providers without style support may ignore `hints`. */
+  translate(text: string, targetLanguage: string, sourceLanguage?: string, hints?: TranslationHints): Promise<string>;
+  /** Translates several texts in one call; results are in input order. */
+  translateBatch?(requests: TranslationRequest[], targetLanguage: string, hints?: Pick<TranslationHints, 'formality'>): Promise<string[]>;
+  detectLanguage(text: string): Promise<string>;
+  getSupportedPairs(): Promise<LanguagePair[]>;
+}
@@ -12,7 +12,13 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify(env.TRANSLATION_PROVIDER),
+        'process.env.TRANSCRIPTION_PROVIDER': JSON.stringify(env.TRANSCRIPTION_PROVIDER),
+        'process.env.CONTENT_SAFETY_PROVIDER': JSON.stringify(env.CONTENT_SAFETY_PROVIDER),
+        'process.env.LIBRETRANSLATE_URL': JSON.stringify(env.LIBRETRANSLATE_URL),
+        'process.env.LIBRETRANSLATE_API_KEY': JSON.stringify(env.LIBRETRANSLATE_API_KEY),
+        'process.env.SHARED_TRANSLATION_CACHE': JSON.stringify(env.SHARED_TRANSLATION_CACHE)
       },
       resolve: {
         alias: {